@@ -13,11 +13,14 @@
 
 import { TradeRepublicClient } from '../src/api/client.js';
 import { ProductionDatabaseManager } from '../src/database/production-database.js';
+import { HistoricalBackfill } from '../src/market/historical-backfill.js';
+import { getLocalDate, LSX_TRADING_HOURS } from '../src/market/trading-hours.js';
 import { logger } from '../src/utils/logger.js';
 import { loadEnvironmentConfig } from '../src/config/environment.js';
 import type { 
   Account, Position, Order, Instrument, RealtimePrice, 
-  PortfolioPerformance, WatchlistItem, NewsArticle, CashPosition, CollectionLog 
+  PortfolioPerformance, WatchlistItem, NewsArticle, CashPosition, CollectionLog,
+  PortfolioSnapshot
 } from '../src/database/production-database.js';
 import * as dotenv from 'dotenv';
 import { writeFile } from 'fs/promises';
@@ -41,6 +44,7 @@ interface CollectionMetrics {
   ordersCollected: number;
   instrumentsCollected: number;
   pricesCollected: number;
+  historicalPricesCollected: number;
   newsCollected: number;
   watchlistItems: number;
   errors: number;
@@ -53,6 +57,8 @@ class ProductionDataCollector {
   private options: CollectionOptions;
   private metrics: CollectionMetrics;
   private accountId: string = 'default';
+  private collectedPositions: Position[] = [];
+  private cashBalance?: number;
 
   constructor(options: Partial<CollectionOptions> = {}) {
     this.client = new TradeRepublicClient();
@@ -74,6 +80,7 @@ class ProductionDataCollector {
       ordersCollected: 0,
       instrumentsCollected: 0,
       pricesCollected: 0,
+      historicalPricesCollected: 0,
       newsCollected: 0,
       watchlistItems: 0,
       errors: 0,
@@ -97,6 +104,7 @@ class ProductionDataCollector {
         await this.collectAccountData();
         await this.collectPortfolioPositions();
         await this.collectCashPositions();
+        await this.savePortfolioSnapshot();
       }
 
       // Step 3: Trading History
@@ -212,6 +220,7 @@ class ProductionDataCollector {
           };
 
           this.db.insertPosition(position);
+          this.collectedPositions.push(position);
           this.metrics.positionsCollected++;
 
           // Also collect instrument information
@@ -245,6 +254,8 @@ class ProductionDataCollector {
           lastUpdated: new Date().toISOString()
         };
 
+        this.cashBalance = cash.amount;
+
         // Insert cash position (would need method in database)
         console.log(`✅ Cash position collected (${cash.currency} ${cash.amount?.toFixed(2)})`);
       }
@@ -254,6 +265,39 @@ class ProductionDataCollector {
     }
   }
 
+  /**
+   * Append today's holdings to the snapshot history, which positions overwrite
+   */
+  private async savePortfolioSnapshot(): Promise<void> {
+    if (this.collectedPositions.length === 0 && this.cashBalance === undefined) {
+      return;
+    }
+
+    try {
+      const positions = this.collectedPositions.map(position => ({
+        isin: position.isin,
+        quantity: position.quantity,
+        price: position.currentPrice,
+        marketValue: position.marketValue,
+        averagePrice: position.averagePrice
+      }));
+      const snapshot: PortfolioSnapshot = {
+        accountId: this.accountId,
+        date: getLocalDate(Date.now(), LSX_TRADING_HOURS.timezone),
+        cash: this.cashBalance,
+        totalValue:
+          positions.reduce((total, position) => total + position.marketValue, 0) + (this.cashBalance ?? 0),
+        positions
+      };
+
+      this.db.insertPortfolioSnapshot(snapshot);
+      console.log(`✅ Portfolio snapshot saved (${snapshot.date}, ${positions.length} positions)`);
+    } catch (error) {
+      console.error('❌ Failed to save portfolio snapshot:', error);
+      this.metrics.errors++;
+    }
+  }
+
   private async collectTradingHistory(): Promise<void> {
     console.log('\n📊 Collecting trading history...');
     
@@ -444,10 +488,29 @@ class ProductionDataCollector {
     console.log('\n📈 Collecting historical prices...');
     console.log(`📅 Historical data: ${this.options.priceHistoryDays} days`);
     
-    // Implementation would collect historical OHLCV data
-    // This requires the historical price API endpoints
-    
-    console.log('✅ Historical prices collection completed');
+    try {
+      const websocket = this.client.websocket;
+      if (!websocket) {
+        throw new Error('WebSocket not available');
+      }
+      await websocket.connect();
+
+      // Only missing days are fetched; an interrupted backfill resumes where it stopped
+      const backfill = new HistoricalBackfill(websocket, this.db, {
+        days: this.options.priceHistoryDays,
+      });
+      const result = await backfill.run(this.db.getInstrumentIsins());
+
+      this.metrics.historicalPricesCollected = result.inserted;
+      this.metrics.errors += result.errors;
+      if (result.resumedAfter) {
+        console.log(`↪️  Resumed after ${result.resumedAfter}`);
+      }
+      console.log(`✅ Historical prices collected (${result.inserted} candles, ${result.gaps} gaps, ${result.requests} requests)`);
+    } catch (error) {
+      console.error('❌ Failed to collect historical prices:', error);
+      this.metrics.errors++;
+    }
   }
 
   private async collectPortfolioPerformance(): Promise<void> {
@@ -470,7 +533,7 @@ class ProductionDataCollector {
             timestamp: new Date().toISOString()
           };
           
-          // Insert performance record (would need database method)
+          this.db.savePortfolioPerformance([perfRecord]);
         }
       } catch (error) {
         this.metrics.errors++;
@@ -528,6 +591,7 @@ class ProductionDataCollector {
     console.log(`📊 Orders: ${this.metrics.ordersCollected}`);
     console.log(`🏢 Instruments: ${this.metrics.instrumentsCollected}`);
     console.log(`💹 Prices: ${this.metrics.pricesCollected}`);
+    console.log(`📈 Historical prices: ${this.metrics.historicalPricesCollected}`);
     console.log(`👀 Watchlist: ${this.metrics.watchlistItems}`);
     console.log(`📰 News: ${this.metrics.newsCollected}`);
     console.log(`❌ Errors: ${this.metrics.errors}`);
@@ -553,7 +617,7 @@ class ProductionDataCollector {
       completedAt: this.metrics.endTime?.toISOString()
     };
     
-    // Log to database (would need method implementation)
+    this.db.insertCollectionLog(log);
     console.log(`📝 Collection logged: ${log.status} (${log.recordsCollected} records, ${log.errorsCount} errors)`);
   }
 }
@@ -0,0 +1,69 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Timeline Importer
+ *
+ * Imports the account timeline into the transactions ledger of the production
+ * database. Reruns only fetch events newer than the last complete import; a run
+ * limited by --max-pages is continued by the next one.
+ * Needs a persisted session (or paired device keys) from a previous login.
+ *
+ * Usage:
+ *   npm run import-timeline
+ *   tsx scripts/import-timeline.ts [--max-pages 10]
+ */
+
+import { TradeRepublicClient } from '../src/api/client.js';
+import { ProductionDatabaseManager } from '../src/database/production-database.js';
+import { TimelineImporter } from '../src/ledger/timeline-importer.js';
+import { getCredentialsFromEnv } from '../src/config/environment.js';
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+async function main(): Promise<void> {
+  const client = new TradeRepublicClient();
+  await client.initialize();
+
+  if (!client.auth.isAuthenticated() && !client.auth.canRefreshSession()) {
+    const credentials = getCredentialsFromEnv();
+    if (!credentials) {
+      throw new Error('No session found. Log in first or set TR_USERNAME and TR_PASSWORD');
+    }
+    await client.login(credentials);
+  }
+
+  const websocket = client.websocket;
+  if (!websocket) {
+    throw new Error('WebSocket not available');
+  }
+  await websocket.connect();
+
+  const database = new ProductionDatabaseManager('./data/production/trade-republic-production.db');
+  try {
+    const importer = new TimelineImporter(websocket, database, {
+      maxPages: getArg('--max-pages') ? Number(getArg('--max-pages')) : undefined,
+    });
+    const result = await importer.run();
+    console.log(
+      `✅ Imported ${result.imported} transactions ` +
+        `(${result.events} events on ${result.pages} pages, ${result.skipped} skipped)`
+    );
+    if (!result.complete) {
+      console.log('⏸️  Page limit reached; run again to continue');
+    }
+  } finally {
+    websocket.disconnect();
+    database.close();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Timeline import failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
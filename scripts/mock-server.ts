@@ -0,0 +1,82 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Mock Trade Republic Server
+ *
+ * Starts the bundled mock server with a small demo portfolio so examples can run
+ * offline. Point the client at it with the printed apiUrl and websocketUrl.
+ *
+ * Usage:
+ *   npm run mock-server
+ *   tsx scripts/mock-server.ts [--port 8787]
+ */
+
+import { MockTradeRepublicServer } from '../src/testing/mock-server.js';
+
+const portIndex = process.argv.indexOf('--port');
+const port = portIndex !== -1 ? Number(process.argv[portIndex + 1]) : 8787;
+
+const server = new MockTradeRepublicServer({
+  port,
+  fixtures: [
+    {
+      type: 'compactPortfolio',
+      frames: [
+        {
+          code: 'A',
+          payload: {
+            positions: [{ instrumentId: 'US0378331005', netSize: '3', averageBuyIn: '150' }],
+          },
+        },
+      ],
+    },
+    { type: 'cash', frames: [{ code: 'A', payload: [{ currencyId: 'EUR', amount: 1000 }] }] },
+    { type: 'portfolioStatus', frames: [{ code: 'A', payload: { status: 'ACTIVE' } }] },
+    {
+      type: 'instrument',
+      frames: payload => [
+        { code: 'A', payload: { isin: payload.id, name: 'Apple Inc.', exchangeIds: ['LSX'] } },
+      ],
+    },
+    {
+      type: 'ticker',
+      frames: [
+        {
+          code: 'A',
+          payload: {
+            bid: { price: '189.50' },
+            ask: { price: '189.70' },
+            last: { price: '189.60' },
+          },
+        },
+        {
+          code: 'D',
+          payload: {
+            bid: { price: '189.55' },
+            ask: { price: '189.75' },
+            last: { price: '189.65' },
+          },
+          delayMs: 1000,
+        },
+      ],
+    },
+  ],
+});
+
+server
+  .start()
+  .then(() => {
+    const { phoneNumber, pin, tan } = server.credentials;
+    console.log('🧪 Mock Trade Republic server running');
+    console.log(`   apiUrl:       ${server.apiUrl}`);
+    console.log(`   websocketUrl: ${server.websocketUrl}`);
+    console.log(`   phone: ${phoneNumber}  pin: ${pin}  2FA code: ${tan}`);
+  })
+  .catch(error => {
+    console.error('❌ Failed to start mock server:', error);
+    process.exit(1);
+  });
+
+process.on('SIGINT', () => {
+  void server.stop().then(() => process.exit(0));
+});
@@ -0,0 +1,99 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Tick Recorder
+ *
+ * Streams ticker quotes into a database until stopped with Ctrl+C.
+ * Needs a persisted session (or paired device keys) from a previous login.
+ *
+ * Usage:
+ *   npm run record-ticks -- --positions
+ *   tsx scripts/record-ticks.ts [--isins DE0007164600,US0378331005 | --watchlist | --positions]
+ *                               [--db production|assets] [--exchange LSX] [--flush-interval 1000]
+ */
+
+import { TradeRepublicClient } from '../src/api/client.js';
+import { ProductionDatabaseManager } from '../src/database/production-database.js';
+import { AssetDatabaseManager } from '../src/database/asset-database.js';
+import { TickRecorder } from '../src/market/tick-recorder.js';
+import type { TickSink, TickSource } from '../src/market/tick-recorder.js';
+import { getCredentialsFromEnv } from '../src/config/environment.js';
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+function getSource(): TickSource {
+  const isins = getArg('--isins');
+  if (isins) {
+    return { type: 'isins', isins: isins.split(',').map(isin => isin.trim()) };
+  }
+  return process.argv.includes('--watchlist') ? { type: 'watchlist' } : { type: 'positions' };
+}
+
+async function main(): Promise<void> {
+  const client = new TradeRepublicClient();
+  await client.initialize();
+
+  if (!client.auth.isAuthenticated() && !client.auth.canRefreshSession()) {
+    const credentials = getCredentialsFromEnv();
+    if (!credentials) {
+      throw new Error('No session found. Log in first or set TR_USERNAME and TR_PASSWORD');
+    }
+    await client.login(credentials);
+  }
+
+  const database =
+    getArg('--db') === 'assets'
+      ? new AssetDatabaseManager()
+      : new ProductionDatabaseManager('./data/production/trade-republic-production.db');
+  const sink: TickSink = database;
+
+  const websocket = client.websocket;
+  if (!websocket) {
+    throw new Error('WebSocket not available');
+  }
+  await websocket.connect();
+
+  const recorder = new TickRecorder(websocket, sink, {
+    source: getSource(),
+    exchange: getArg('--exchange'),
+    flushInterval: getArg('--flush-interval') ? Number(getArg('--flush-interval')) : undefined,
+  });
+
+  const isins = await recorder.start();
+  console.log(`🎙️ Recording ticks for ${isins.length} instruments (Ctrl+C to stop)`);
+
+  const report = setInterval(() => {
+    const stats = recorder.getStats();
+    console.log(
+      `📈 received ${stats.received}, written ${stats.written}, ` +
+        `duplicates ${stats.duplicates}, pending ${stats.pending}`
+    );
+  }, 60000);
+
+  process.on('SIGINT', () => {
+    clearInterval(report);
+    void recorder
+      .stop()
+      .then(() => {
+        websocket.disconnect();
+        database.close();
+        console.log('✅ Tick recorder stopped', recorder.getStats());
+        process.exit(0);
+      })
+      .catch(error => {
+        console.error('❌ Failed to stop cleanly:', error);
+        process.exit(1);
+      });
+  });
+}
+
+main().catch(error => {
+  console.error('❌ Tick recorder failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
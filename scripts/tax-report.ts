@@ -0,0 +1,60 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Tax Report
+ *
+ * Writes the German tax report of a year from the transactions ledger (import it
+ * first with npm run import-timeline) as JSON, CSV and printable HTML.
+ *
+ * Usage:
+ *   npm run tax-report -- --year 2024
+ *   tsx scripts/tax-report.ts [--year 2024] [--allowance 1000] [--church-tax 0.09]
+ *                             [--out ./data/exports]
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { ProductionDatabaseManager } from '../src/database/production-database.js';
+import { TaxReportGenerator } from '../src/analytics/tax-report.js';
+import {
+  toTaxReportCsv,
+  toTaxReportHtml,
+  toTaxReportJson,
+} from '../src/analytics/tax-report-format.js';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+async function main(): Promise<void> {
+  const year = Number(getArg('--year') ?? new Date().getFullYear() - 1);
+  const outDir = getArg('--out') ?? './data/exports';
+
+  const database = new ProductionDatabaseManager('./data/production/trade-republic-production.db');
+  try {
+    const report = new TaxReportGenerator(database, {
+      allowance: getArg('--allowance') ? Number(getArg('--allowance')) : undefined,
+      churchTaxRate: getArg('--church-tax') ? Number(getArg('--church-tax')) : undefined,
+    }).generate(year);
+
+    await mkdir(outDir, { recursive: true });
+    const base = join(outDir, `tax-report-${year}`);
+    await writeFile(`${base}.json`, toTaxReportJson(report));
+    await writeFile(`${base}.csv`, toTaxReportCsv(report));
+    await writeFile(`${base}.html`, toTaxReportHtml(report));
+
+    console.log(`🧾 Tax report ${year}: ${report.capitalIncome.toFixed(2)} € capital income`);
+    console.log(`📁 ${base}.json, .csv, .html`);
+    if (report.unclassified.length > 0 || report.missingPrices.length > 0) {
+      console.log('⚠️  Check the notes in the HTML report before filing');
+    }
+  } finally {
+    database.close();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Tax report failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,258 @@
+/**
+ * Cost Basis
+ *
+ * Tracks tax lots over the executions ledger. Lots are always consumed first in,
+ * first out, which decides holding periods; the cost of a sale is either that of
+ * the consumed lots (FIFO) or the moving average of the whole position
+ * (gleitender Durchschnitt). Buy fees are part of the cost, sell fees reduce the
+ * proceeds.
+ */
+
+import { logger } from '../utils/logger.js';
+import type { TradeExecution } from '../database/production-database.js';
+import type { StockSplit } from '../types/comprehensive-asset.js';
+
+export type CostBasisMethod = 'fifo' | 'average';
+
+/**
+ * Where executions are read from; implemented by ProductionDatabaseManager
+ */
+export interface ExecutionStore {
+  getTradeExecutions(isin?: string): TradeExecution[];
+}
+
+export interface CostBasisOptions {
+  method?: CostBasisMethod;
+  splits?: Record<string, StockSplit[]>; // ISIN -> splits
+}
+
+export interface Lot {
+  executionId: string;
+  acquiredAt: string;
+  quantity: number; // Remaining, adjusted for splits
+  costPerShare: number;
+}
+
+/**
+ * Gain of a sale on one lot. Shares sold without a known lot, e.g. transferred in,
+ * have no acquisition date and a cost of zero.
+ */
+export interface RealizedGain {
+  isin: string;
+  executionId: string;
+  soldAt: string;
+  acquiredAt?: string;
+  quantity: number;
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  holdingDays?: number;
+}
+
+export interface PositionCostBasis {
+  isin: string;
+  method: CostBasisMethod;
+  quantity: number;
+  costBasis: number;
+  averageCost: number;
+  lots: Lot[];
+  realized: RealizedGain[];
+  realizedPnL: number;
+  marketValue?: number;
+  unrealizedPnL?: number;
+}
+
+type LedgerEvent =
+  | { kind: 'split'; time: number; split: StockSplit }
+  | { kind: 'trade'; time: number; execution: TradeExecution };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EPSILON = 1e-9; // Remainders of fractional shares below this are treated as zero
+
+export class CostBasisEngine {
+  private store: ExecutionStore;
+  private method: CostBasisMethod;
+  private splits: Record<string, StockSplit[]>;
+
+  constructor(store: ExecutionStore, options: CostBasisOptions = {}) {
+    this.store = store;
+    this.method = options.method ?? 'fifo';
+    this.splits = options.splits ?? {};
+  }
+
+  /**
+   * Cost basis of one ISIN, valued at the current price when given
+   */
+  public getPosition(isin: string, currentPrice?: number): PositionCostBasis {
+    return calculateCostBasis(isin, this.store.getTradeExecutions(isin), {
+      method: this.method,
+      splits: this.splits[isin],
+      currentPrice,
+    });
+  }
+
+  /**
+   * Cost basis of every traded ISIN, including closed positions
+   */
+  public getPositions(currentPrices: Record<string, number> = {}): PositionCostBasis[] {
+    const byIsin = new Map<string, TradeExecution[]>();
+    for (const execution of this.store.getTradeExecutions()) {
+      const executions = byIsin.get(execution.isin) ?? [];
+      executions.push(execution);
+      byIsin.set(execution.isin, executions);
+    }
+
+    return [...byIsin].map(([isin, executions]) =>
+      calculateCostBasis(isin, executions, {
+        method: this.method,
+        splits: this.splits[isin],
+        currentPrice: currentPrices[isin],
+      })
+    );
+  }
+}
+
+/**
+ * Replay the executions and splits of one ISIN in time order. Splits apply from
+ * the start of their day, before trades on the same day.
+ */
+export function calculateCostBasis(
+  isin: string,
+  executions: TradeExecution[],
+  options: { method?: CostBasisMethod; splits?: StockSplit[]; currentPrice?: number } = {}
+): PositionCostBasis {
+  const method = options.method ?? 'fifo';
+  const events: LedgerEvent[] = [
+    ...(options.splits ?? []).map(
+      (split): LedgerEvent => ({ kind: 'split', time: new Date(split.date).getTime(), split })
+    ),
+    ...executions.map(
+      (execution): LedgerEvent => ({
+        kind: 'trade',
+        time: Date.parse(execution.timestamp),
+        execution,
+      })
+    ),
+  ].sort((a, b) => a.time - b.time || (a.kind === 'split' ? -1 : b.kind === 'split' ? 1 : 0));
+
+  const lots: Lot[] = [];
+  const realized: RealizedGain[] = [];
+
+  for (const event of events) {
+    if (event.kind === 'split') {
+      applySplit(lots, event.split);
+    } else if (event.execution.side === 'buy') {
+      buy(lots, event.execution, method);
+    } else {
+      realized.push(...sell(lots, event.execution));
+    }
+  }
+
+  const quantity = sum(lots.map(lot => lot.quantity));
+  const costBasis = sum(lots.map(lot => lot.quantity * lot.costPerShare));
+  const position: PositionCostBasis = {
+    isin,
+    method,
+    quantity,
+    costBasis,
+    averageCost: quantity > EPSILON ? costBasis / quantity : 0,
+    lots,
+    realized,
+    realizedPnL: sum(realized.map(gain => gain.gain)),
+  };
+
+  if (options.currentPrice !== undefined) {
+    position.marketValue = quantity * options.currentPrice;
+    position.unrealizedPnL = position.marketValue - costBasis;
+  }
+  return position;
+}
+
+function buy(lots: Lot[], execution: TradeExecution, method: CostBasisMethod): void {
+  lots.push({
+    executionId: execution.id,
+    acquiredAt: execution.timestamp,
+    quantity: execution.quantity,
+    costPerShare: (execution.quantity * execution.price + execution.fees) / execution.quantity,
+  });
+
+  if (method === 'average') {
+    const quantity = sum(lots.map(lot => lot.quantity));
+    const average = sum(lots.map(lot => lot.quantity * lot.costPerShare)) / quantity;
+    lots.forEach(lot => (lot.costPerShare = average));
+  }
+}
+
+/**
+ * Consume the oldest lots; proceeds net of fees are shared by quantity
+ */
+function sell(lots: Lot[], execution: TradeExecution): RealizedGain[] {
+  const proceedsPerShare =
+    (execution.quantity * execution.price - execution.fees) / execution.quantity;
+  const soldAt = Date.parse(execution.timestamp);
+  const gains: RealizedGain[] = [];
+  let remaining = execution.quantity;
+
+  const realize = (quantity: number, lot?: Lot): void => {
+    const proceeds = quantity * proceedsPerShare;
+    const costBasis = lot ? quantity * lot.costPerShare : 0;
+    gains.push({
+      isin: execution.isin,
+      executionId: execution.id,
+      soldAt: execution.timestamp,
+      acquiredAt: lot?.acquiredAt,
+      quantity,
+      proceeds,
+      costBasis,
+      gain: proceeds - costBasis,
+      holdingDays: lot ? Math.floor((soldAt - Date.parse(lot.acquiredAt)) / DAY_MS) : undefined,
+    });
+  };
+
+  while (remaining > EPSILON) {
+    const lot = lots[0];
+    if (!lot) {
+      break;
+    }
+
+    const quantity = Math.min(lot.quantity, remaining);
+    realize(quantity, lot);
+
+    lot.quantity -= quantity;
+    remaining -= quantity;
+    if (lot.quantity <= EPSILON) {
+      lots.shift();
+    }
+  }
+
+  if (remaining > EPSILON) {
+    logger.warn('Sold more shares than the ledger holds', {
+      isin: execution.isin,
+      executionId: execution.id,
+      unmatched: remaining,
+    });
+    realize(remaining);
+  }
+  return gains;
+}
+
+/**
+ * A toFactor:fromFactor split multiplies each lot's shares and divides its cost per
+ * share, keeping its total cost
+ */
+function applySplit(lots: Lot[], split: StockSplit): void {
+  const factor = split.toFactor / split.fromFactor;
+  if (!Number.isFinite(factor) || factor <= 0) {
+    logger.warn('Ignoring invalid stock split', { ratio: split.ratio });
+    return;
+  }
+
+  for (const lot of lots) {
+    lot.quantity *= factor;
+    lot.costPerShare /= factor;
+  }
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
@@ -0,0 +1,329 @@
+/**
+ * Portfolio Performance
+ *
+ * Time-weighted (TWR) and money-weighted (XIRR) returns from the transactions
+ * ledger and daily closing prices, for the whole account or a single position.
+ * Deposits, withdrawals and card payments are external cash flows of the account;
+ * buys, sells and dividends are the cash flows of a position. Money coming in counts
+ * from the start of its day and money going out from the end of it, so a sale is
+ * measured against the previous close. Days use the exchange's local date.
+ */
+
+import { logger } from '../utils/logger.js';
+import { getLocalDate, LSX_TRADING_HOURS } from '../market/trading-hours.js';
+import type { HistoricalPrice, PortfolioPerformance } from '../database/production-database.js';
+import type { StockSplit } from '../types/comprehensive-asset.js';
+import type { LedgerEventType, LedgerQuery, LedgerTransaction } from '../types/ledger.js';
+
+/**
+ * Ledger, prices and the performance table; implemented by ProductionDatabaseManager
+ */
+export interface PerformanceStore {
+  getTransactions(query?: LedgerQuery): LedgerTransaction[];
+  getHistoricalPrices(
+    isin: string,
+    timeframe: HistoricalPrice['timeframe'],
+    from: number,
+    until: number
+  ): HistoricalPrice[];
+  savePortfolioPerformance(records: PortfolioPerformance[]): number;
+}
+
+export interface PerformanceOptions {
+  splits?: Record<string, StockSplit[]>; // ISIN -> splits
+  timeZone?: string;
+}
+
+/**
+ * Value at the end of a day. netFlow is the external money added that day,
+ * profit the gain since the start of the curve and twr the chained return.
+ */
+export interface EquityPoint {
+  date: string; // YYYY-MM-DD
+  value: number;
+  cash: number;
+  netFlow: number;
+  profit: number;
+  twr: number;
+}
+
+export interface PerformanceResult {
+  isin?: string;
+  from: string;
+  until: string;
+  startValue: number;
+  endValue: number;
+  netFlows: number;
+  profit: number; // End value less start value and net flows
+  twr: number;
+  annualizedTwr: number;
+  mwr?: number; // Annualized internal rate of return; undefined when it has no solution
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXTERNAL_FLOWS: LedgerEventType[] = ['deposit', 'withdrawal', 'card_payment'];
+const TRADES: LedgerEventType[] = ['buy', 'sell', 'savings_plan'];
+
+export class PerformanceAnalyzer {
+  private store: PerformanceStore;
+  private splits: Record<string, StockSplit[]>;
+  private timeZone: string;
+
+  constructor(store: PerformanceStore, options: PerformanceOptions = {}) {
+    this.store = store;
+    this.splits = options.splits ?? {};
+    this.timeZone = options.timeZone ?? LSX_TRADING_HOURS.timezone;
+  }
+
+  /**
+   * Daily values from one day to another (inclusive), for the account or one ISIN
+   */
+  public getEquityCurve(from: string, until: string, isin?: string): EquityPoint[] {
+    return this.buildCurve(from, until, isin).slice(1);
+  }
+
+  /**
+   * Returns over a date range (inclusive), for the account or one ISIN
+   */
+  public getPerformance(from: string, until: string, isin?: string): PerformanceResult {
+    const [baseline, ...points] = this.buildCurve(from, until, isin);
+    const last = points[points.length - 1];
+    const startValue = baseline?.value ?? 0;
+    const endValue = last?.value ?? startValue;
+    const netFlows = sum(points.map(point => point.netFlow));
+    const twr = last?.twr ?? 0;
+    const years = Math.max(points.length, 1) / 365;
+
+    // From the investor's view: the start value and contributions are paid in
+    const flows = [
+      { time: Date.parse(baseline?.date ?? from), amount: -startValue },
+      ...points.map(point => ({ time: Date.parse(point.date), amount: -point.netFlow })),
+      { time: Date.parse(last?.date ?? until), amount: endValue },
+    ].filter(flow => flow.amount !== 0);
+
+    return {
+      isin,
+      from,
+      until,
+      startValue,
+      endValue,
+      netFlows,
+      profit: endValue - startValue - netFlows,
+      twr,
+      annualizedTwr: Math.pow(1 + twr, 1 / years) - 1,
+      mwr: xirr(flows),
+    };
+  }
+
+  /**
+   * Store the account's daily equity curve in portfolio_performance as '1D' rows
+   */
+  public saveEquityCurve(accountId: string, from: string, until: string): number {
+    const points = this.getEquityCurve(from, until);
+    const written = this.store.savePortfolioPerformance(
+      points.map(point => ({
+        accountId,
+        timeframe: '1D',
+        value: point.value,
+        returnAbsolute: point.profit,
+        returnPercentage: point.twr * 100,
+        timestamp: point.date,
+      }))
+    );
+
+    logger.info('📈 Equity curve stored', { accountId, from, until, days: written });
+    return written;
+  }
+
+  /**
+   * Replay the ledger day by day and value the holdings at the last known close.
+   * The first point is the day before `from`, the baseline of the returns.
+   */
+  private buildCurve(from: string, until: string, isin?: string): EquityPoint[] {
+    const start = addDays(from, -1);
+    const transactions = this.store
+      .getTransactions({ isin, until: new Date(Date.parse(until) + 2 * DAY_MS).toISOString() })
+      .map(tx => ({ tx, date: this.toDate(Date.parse(tx.timestamp)) }))
+      .filter(({ date }) => date <= until);
+
+    const firstDate = transactions[0]?.date ?? start;
+    const isins = [
+      ...new Set(transactions.filter(({ tx }) => tx.isin).map(({ tx }) => tx.isin as string)),
+    ];
+    const closes = this.getCloses(isins, firstDate < start ? firstDate : start, until);
+    const splits = isins.flatMap(id =>
+      (this.splits[id] ?? []).map(split => ({
+        isin: id,
+        split,
+        date: this.toDate(new Date(split.date).getTime()),
+      }))
+    );
+
+    const quantities = new Map<string, number>();
+    const prices = new Map<string, number>();
+    const points: EquityPoint[] = [];
+    let cash = 0;
+    let index = 0;
+    let profit = 0;
+    let growth = 1;
+
+    for (let date = firstDate < start ? firstDate : start; date <= until; date = addDays(date, 1)) {
+      for (const { isin: id, split } of splits.filter(entry => entry.date === date)) {
+        quantities.set(id, (quantities.get(id) ?? 0) * (split.toFactor / split.fromFactor));
+      }
+
+      let inflow = 0;
+      let outflow = 0;
+      for (; index < transactions.length && transactions[index]!.date === date; index++) {
+        const { tx } = transactions[index]!;
+        const flow = isin ? -tx.amount : EXTERNAL_FLOWS.includes(tx.type) ? tx.amount : 0;
+        cash += tx.amount;
+        if (flow > 0) {
+          inflow += flow;
+        } else {
+          outflow -= flow;
+        }
+
+        if (
+          tx.isin &&
+          TRADES.includes(tx.type) &&
+          tx.quantity !== undefined &&
+          tx.quantity !== null
+        ) {
+          const sign = tx.type === 'sell' ? -1 : 1;
+          quantities.set(tx.isin, (quantities.get(tx.isin) ?? 0) + sign * tx.quantity);
+          if (tx.price !== undefined && tx.price !== null) {
+            prices.set(tx.isin, tx.price);
+          }
+        }
+      }
+
+      for (const id of isins) {
+        const close = closes.get(id)?.get(date);
+        if (close !== undefined) {
+          prices.set(id, close);
+        }
+      }
+
+      if (date < start) {
+        continue;
+      }
+
+      const holdings = sum(
+        [...quantities].map(([id, quantity]) => quantity * (prices.get(id) ?? 0))
+      );
+      const value = isin ? holdings : cash + holdings;
+      const previous = points[points.length - 1];
+
+      if (previous) {
+        const base = previous.value + inflow;
+        const end = value + outflow;
+        growth *= base > 0 ? end / base : 1;
+        profit += end - base;
+      }
+      points.push({
+        date,
+        value,
+        cash,
+        netFlow: previous ? inflow - outflow : 0,
+        profit,
+        twr: growth - 1,
+      });
+    }
+    return points;
+  }
+
+  /**
+   * Daily closes by ISIN and local date
+   */
+  private getCloses(
+    isins: string[],
+    from: string,
+    until: string
+  ): Map<string, Map<string, number>> {
+    const closes = new Map<string, Map<string, number>>();
+    for (const isin of isins) {
+      const candles = this.store.getHistoricalPrices(
+        isin,
+        '1d',
+        Date.parse(from) - DAY_MS,
+        Date.parse(until) + 2 * DAY_MS
+      );
+      closes.set(
+        isin,
+        new Map(candles.map(candle => [this.toDate(Date.parse(candle.timestamp)), candle.close]))
+      );
+    }
+    return closes;
+  }
+
+  private toDate(time: number): string {
+    return getLocalDate(time, this.timeZone);
+  }
+}
+
+/**
+ * Annualized rate at which the cash flows have a net present value of zero, or
+ * undefined without a solution. Newton's method, falling back to bisection.
+ */
+export function xirr(flows: { time: number; amount: number }[]): number | undefined {
+  const [first] = flows;
+  if (!first || !flows.some(flow => flow.amount > 0) || !flows.some(flow => flow.amount < 0)) {
+    return undefined;
+  }
+
+  const t0 = Math.min(...flows.map(flow => flow.time));
+  const years = flows.map(flow => (flow.time - t0) / (365 * DAY_MS));
+  const npv = (rate: number): number =>
+    sum(flows.map((flow, i) => flow.amount / Math.pow(1 + rate, years[i] ?? 0)));
+  const derivative = (rate: number): number =>
+    sum(
+      flows.map((flow, i) => {
+        const t = years[i] ?? 0;
+        return (-t * flow.amount) / Math.pow(1 + rate, t + 1);
+      })
+    );
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate);
+    const slope = derivative(rate);
+    if (Math.abs(value) < 1e-9) {
+      return rate;
+    }
+    if (slope === 0 || !Number.isFinite(slope)) {
+      break;
+    }
+    const next = rate - value / slope;
+    if (!Number.isFinite(next) || next <= -1) {
+      break;
+    }
+    if (Math.abs(next - rate) < 1e-12) {
+      return next;
+    }
+    rate = next;
+  }
+
+  let low = -0.999999;
+  let high = 100;
+  if (Math.sign(npv(low)) === Math.sign(npv(high))) {
+    return undefined;
+  }
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (Math.sign(npv(mid)) === Math.sign(npv(low))) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
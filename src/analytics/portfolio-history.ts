@@ -0,0 +1,288 @@
+/**
+ * Portfolio History
+ *
+ * Reconstructs holdings and their value on any past day. The latest snapshot on
+ * or before the day is the starting point; trades booked after it are replayed
+ * from the transactions ledger, and holdings are valued at the last daily close.
+ * Without a snapshot the whole ledger is replayed.
+ */
+
+import { getLocalDate, LSX_TRADING_HOURS } from '../market/trading-hours.js';
+import type { HistoricalPrice, PortfolioSnapshot } from '../database/production-database.js';
+import type { StockSplit } from '../types/comprehensive-asset.js';
+import type { LedgerEventType, LedgerQuery, LedgerTransaction } from '../types/ledger.js';
+
+/**
+ * Snapshots, ledger and prices; implemented by ProductionDatabaseManager
+ */
+export interface PortfolioHistoryStore {
+  getLatestPortfolioSnapshot(accountId: string, date: string): PortfolioSnapshot | undefined;
+  getTransactions(query?: LedgerQuery): LedgerTransaction[];
+  getHistoricalPrices(
+    isin: string,
+    timeframe: HistoricalPrice['timeframe'],
+    from: number,
+    until: number
+  ): HistoricalPrice[];
+}
+
+export interface PortfolioHistoryOptions {
+  accountId?: string;
+  splits?: Record<string, StockSplit[]>; // ISIN -> splits
+  timeZone?: string;
+}
+
+export type PriceSource = 'close' | 'snapshot' | 'trade';
+
+export interface HistoricalHolding {
+  isin: string;
+  quantity: number;
+  price?: number;
+  priceDate?: string;
+  priceSource?: PriceSource;
+  marketValue?: number; // Undefined without any known price
+}
+
+export interface PortfolioState {
+  accountId: string;
+  date: string;
+  snapshotDate?: string; // Snapshot the state was reconstructed from
+  cash?: number; // Undefined when the snapshot has no cash balance
+  holdings: HistoricalHolding[];
+  holdingsValue: number;
+  totalValue: number;
+}
+
+export interface HoldingChange {
+  isin: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  quantityBefore: number;
+  quantityAfter: number;
+  quantityChange: number;
+  valueBefore: number;
+  valueAfter: number;
+  valueChange: number;
+}
+
+export interface PortfolioDiff {
+  from: PortfolioState;
+  until: PortfolioState;
+  changes: HoldingChange[];
+  cashChange?: number;
+  valueChange: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRICE_LOOKBACK_DAYS = 14; // Covers holidays and instruments that rarely trade
+const EPSILON = 1e-9; // Remainders of fractional shares below this are treated as zero
+const TRADES: LedgerEventType[] = ['buy', 'sell', 'savings_plan'];
+
+interface KnownPrice {
+  price: number;
+  date: string;
+  source: PriceSource;
+}
+
+export class PortfolioHistory {
+  private store: PortfolioHistoryStore;
+  private accountId: string;
+  private splits: Record<string, StockSplit[]>;
+  private timeZone: string;
+
+  constructor(store: PortfolioHistoryStore, options: PortfolioHistoryOptions = {}) {
+    this.store = store;
+    this.accountId = options.accountId ?? 'default';
+    this.splits = options.splits ?? {};
+    this.timeZone = options.timeZone ?? LSX_TRADING_HOURS.timezone;
+  }
+
+  /**
+   * Holdings and valuation at the end of a day (YYYY-MM-DD)
+   */
+  public getPortfolioAt(date: string): PortfolioState {
+    const snapshot = this.store.getLatestPortfolioSnapshot(this.accountId, date);
+    const quantities = new Map<string, number>();
+    const prices = new Map<string, KnownPrice>();
+    let cash = snapshot ? snapshot.cash : 0;
+
+    if (snapshot) {
+      for (const position of snapshot.positions) {
+        quantities.set(position.isin, position.quantity);
+        prices.set(position.isin, {
+          price: position.price,
+          date: snapshot.date,
+          source: 'snapshot',
+        });
+      }
+    }
+
+    const capturedAt = snapshot?.capturedAt ? Date.parse(snapshot.capturedAt) : -Infinity;
+    const transactions = this.store
+      .getTransactions({
+        from: snapshot?.capturedAt,
+        until: new Date(Date.parse(date) + 2 * DAY_MS).toISOString(),
+      })
+      .filter(tx => Date.parse(tx.timestamp) > capturedAt)
+      .filter(tx => this.toDate(Date.parse(tx.timestamp)) <= date);
+
+    // Splits after the snapshot apply before the trades of their day
+    const splits = Object.entries(this.splits)
+      .flatMap(([isin, splits]) =>
+        splits.map(split => ({ isin, split, time: new Date(split.date).getTime() }))
+      )
+      .filter(({ time }) => time > capturedAt && this.toDate(time) <= date)
+      .sort((a, b) => a.time - b.time);
+    const applySplits = (until: number): void => {
+      while (splits[0] && splits[0].time <= until) {
+        const { isin, split } = splits.shift()!;
+        quantities.set(isin, (quantities.get(isin) ?? 0) * (split.toFactor / split.fromFactor));
+      }
+    };
+
+    for (const tx of transactions) {
+      const time = Date.parse(tx.timestamp);
+      applySplits(time);
+      if (cash !== undefined) {
+        cash += tx.amount;
+      }
+      if (
+        !tx.isin ||
+        !TRADES.includes(tx.type) ||
+        tx.quantity === undefined ||
+        tx.quantity === null
+      ) {
+        continue;
+      }
+
+      const sign = tx.type === 'sell' ? -1 : 1;
+      quantities.set(tx.isin, (quantities.get(tx.isin) ?? 0) + sign * tx.quantity);
+      if (tx.price !== undefined && tx.price !== null) {
+        prices.set(tx.isin, { price: tx.price, date: this.toDate(time), source: 'trade' });
+      }
+    }
+    applySplits(Infinity);
+
+    const holdings = [...quantities]
+      .filter(([, quantity]) => Math.abs(quantity) > EPSILON)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([isin, quantity]): HistoricalHolding => {
+        const close = this.getClose(isin, date);
+        const latest = this.adjustForSplits(isin, prices.get(isin), date);
+        const known = close && (!latest || close.date >= latest.date) ? close : latest;
+        return {
+          isin,
+          quantity,
+          price: known?.price,
+          priceDate: known?.date,
+          priceSource: known?.source,
+          marketValue: known ? quantity * known.price : undefined,
+        };
+      });
+
+    const holdingsValue = sum(holdings.map(holding => holding.marketValue ?? 0));
+    return {
+      accountId: this.accountId,
+      date,
+      snapshotDate: snapshot?.date,
+      cash,
+      holdings,
+      holdingsValue,
+      totalValue: holdingsValue + (cash ?? 0),
+    };
+  }
+
+  /**
+   * Changes in holdings and value between the ends of two days
+   */
+  public diff(from: string, until: string): PortfolioDiff {
+    const before = this.getPortfolioAt(from);
+    const after = this.getPortfolioAt(until);
+    const holdingsBefore = new Map(before.holdings.map(holding => [holding.isin, holding]));
+    const holdingsAfter = new Map(after.holdings.map(holding => [holding.isin, holding]));
+    const isins = [...new Set([...holdingsBefore.keys(), ...holdingsAfter.keys()])].sort();
+
+    const changes = isins.map((isin): HoldingChange => {
+      const quantityBefore = holdingsBefore.get(isin)?.quantity ?? 0;
+      const quantityAfter = holdingsAfter.get(isin)?.quantity ?? 0;
+      const valueBefore = holdingsBefore.get(isin)?.marketValue ?? 0;
+      const valueAfter = holdingsAfter.get(isin)?.marketValue ?? 0;
+      const quantityChange = quantityAfter - quantityBefore;
+
+      return {
+        isin,
+        status: !holdingsBefore.has(isin)
+          ? 'added'
+          : !holdingsAfter.has(isin)
+            ? 'removed'
+            : Math.abs(quantityChange) > EPSILON
+              ? 'changed'
+              : 'unchanged',
+        quantityBefore,
+        quantityAfter,
+        quantityChange,
+        valueBefore,
+        valueAfter,
+        valueChange: valueAfter - valueBefore,
+      };
+    });
+
+    return {
+      from: before,
+      until: after,
+      changes,
+      cashChange:
+        before.cash !== undefined && after.cash !== undefined
+          ? after.cash - before.cash
+          : undefined,
+      valueChange: after.totalValue - before.totalValue,
+    };
+  }
+
+  /**
+   * Last daily close on or before the day, within the lookback window
+   */
+  private getClose(isin: string, date: string): KnownPrice | undefined {
+    const candles = this.store.getHistoricalPrices(
+      isin,
+      '1d',
+      Date.parse(date) - PRICE_LOOKBACK_DAYS * DAY_MS,
+      Date.parse(date) + 2 * DAY_MS
+    );
+
+    for (let i = candles.length - 1; i >= 0; i--) {
+      const candle = candles[i]!;
+      const candleDate = this.toDate(Date.parse(candle.timestamp));
+      if (candleDate <= date) {
+        return { price: candle.close, date: candleDate, source: 'close' };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * A snapshot or trade price from before a split is converted to post-split shares
+   */
+  private adjustForSplits(
+    isin: string,
+    known: KnownPrice | undefined,
+    date: string
+  ): KnownPrice | undefined {
+    if (!known) {
+      return undefined;
+    }
+
+    const factor = (this.splits[isin] ?? [])
+      .map(split => ({ split, day: this.toDate(new Date(split.date).getTime()) }))
+      .filter(({ day }) => day > known.date && day <= date)
+      .reduce((total, { split }) => total * (split.toFactor / split.fromFactor), 1);
+    return { ...known, price: known.price / factor };
+  }
+
+  private toDate(time: number): string {
+    return getLocalDate(time, this.timeZone);
+  }
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
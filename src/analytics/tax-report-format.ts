@@ -0,0 +1,171 @@
+/**
+ * Tax Report Formats
+ *
+ * JSON, CSV and printable HTML renderings of a yearly tax report
+ */
+
+import type { TaxReport } from './tax-report.js';
+
+interface SummaryItem {
+  section: string;
+  label: string; // As named on Anlage KAP where it has a counterpart
+  value: number;
+}
+
+export function toTaxReportJson(report: TaxReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * One row per summary figure, followed by the figures of each instrument
+ */
+export function toTaxReportCsv(report: TaxReport): string {
+  const rows = [
+    ['Section', 'Item', 'ISIN', 'Amount'],
+    ...getSummary(report).map(item => [item.section, item.label, '', formatAmount(item.value)]),
+    ...report.lines.flatMap(line => [
+      ['Instrument', 'Veräußerungsgewinn', line.isin, formatAmount(line.realizedGain)],
+      ['Instrument', 'Dividenden', line.isin, formatAmount(line.dividends)],
+      ['Instrument', 'Vorabpauschale', line.isin, formatAmount(line.vorabpauschale)],
+      ['Instrument', 'Teilfreistellung', line.isin, formatAmount(line.partialExemption)],
+    ]),
+  ];
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Self-contained HTML page for printing
+ */
+export function toTaxReportHtml(report: TaxReport): string {
+  const sections = new Map<string, SummaryItem[]>();
+  for (const item of getSummary(report)) {
+    sections.set(item.section, [...(sections.get(item.section) ?? []), item]);
+  }
+
+  const summary = [...sections]
+    .map(
+      ([section, items]) => `
+    <h2>${escapeHtml(section)}</h2>
+    <table>
+${items
+  .map(
+    item =>
+      `      <tr><td>${escapeHtml(item.label)}</td><td class="amount">${formatAmount(item.value)} €</td></tr>`
+  )
+  .join('\n')}
+    </table>`
+    )
+    .join('\n');
+
+  const lines = report.lines
+    .map(
+      line =>
+        `      <tr><td>${escapeHtml(line.isin)}</td><td>${escapeHtml(line.name ?? '')}</td>` +
+        `<td>${line.assetClass}</td><td class="amount">${formatAmount(line.realizedGain)}</td>` +
+        `<td class="amount">${formatAmount(line.dividends)}</td>` +
+        `<td class="amount">${formatAmount(line.vorabpauschale)}</td>` +
+        `<td class="amount">${formatAmount(line.partialExemption)}</td></tr>`
+    )
+    .join('\n');
+
+  const warnings = [
+    ...report.unclassified.map(isin => `${isin}: unknown instrument type, taxed as other`),
+    ...report.missingPrices.map(isin => `${isin}: no prices for the Vorabpauschale`),
+  ]
+    .map(warning => `      <li>${escapeHtml(warning)}</li>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="de">
+  <head>
+    <meta charset="utf-8" />
+    <title>Steuerreport ${report.year}</title>
+    <style>
+      body { font-family: sans-serif; margin: 2em; }
+      table { border-collapse: collapse; margin-bottom: 1.5em; }
+      td, th { border-bottom: 1px solid #ddd; padding: 0.3em 0.8em; text-align: left; }
+      .amount { text-align: right; font-variant-numeric: tabular-nums; }
+      @media print { body { margin: 0; } }
+    </style>
+  </head>
+  <body>
+    <h1>Steuerreport ${report.year} (Anlage KAP)</h1>
+    <p>Erstellt am ${escapeHtml(report.generatedAt)}. Alle Beträge in EUR.</p>
+${summary}
+    <h2>Instrumente</h2>
+    <table>
+      <tr><th>ISIN</th><th>Name</th><th>Klasse</th><th>Veräußerung</th><th>Dividenden</th><th>Vorabpauschale</th><th>Teilfreistellung</th></tr>
+${lines}
+    </table>
+${warnings ? `    <h2>Hinweise</h2>\n    <ul>\n${warnings}\n    </ul>\n` : ''}  </body>
+</html>
+`;
+}
+
+function getSummary(report: TaxReport): SummaryItem[] {
+  const { withheld, estimate } = report;
+  return [
+    { section: 'Anlage KAP', label: 'Kapitalerträge', value: report.capitalIncome },
+    {
+      section: 'Anlage KAP',
+      label: 'Gewinne aus Aktienveräußerungen',
+      value: report.stockPot.gains,
+    },
+    {
+      section: 'Anlage KAP',
+      label: 'Nicht ausgeglichene Verluste ohne Verluste aus Aktienveräußerungen',
+      value: report.unusedOtherLosses,
+    },
+    {
+      section: 'Anlage KAP',
+      label: 'Nicht ausgeglichene Verluste aus Aktienveräußerungen',
+      value: report.unusedStockLosses,
+    },
+    { section: 'Anlage KAP', label: 'Kapitalertragsteuer', value: withheld.capitalGainsTax },
+    { section: 'Anlage KAP', label: 'Solidaritätszuschlag', value: withheld.solidaritySurcharge },
+    { section: 'Anlage KAP', label: 'Kirchensteuer', value: withheld.churchTax },
+    {
+      section: 'Anlage KAP',
+      label: 'Anrechenbare ausländische Steuern',
+      value: withheld.withholdingTax,
+    },
+    { section: 'Erträge', label: 'Dividenden und Ausschüttungen', value: report.dividends },
+    { section: 'Erträge', label: 'Zinsen', value: report.interest },
+    { section: 'Erträge', label: 'Vorabpauschale', value: report.vorabpauschale },
+    { section: 'Erträge', label: 'Teilfreistellung', value: report.partialExemption },
+    { section: 'Verlusttöpfe', label: 'Aktien: Gewinne', value: report.stockPot.gains },
+    { section: 'Verlusttöpfe', label: 'Aktien: Verluste', value: report.stockPot.losses },
+    { section: 'Verlusttöpfe', label: 'Sonstige: Gewinne', value: report.otherPot.gains },
+    { section: 'Verlusttöpfe', label: 'Sonstige: Verluste', value: report.otherPot.losses },
+    { section: 'Erstattungen', label: 'Erstattete Steuern', value: withheld.refunded },
+    {
+      section: 'Schätzung',
+      label: 'Steuerpflichtige Erträge nach Sparer-Pauschbetrag',
+      value: estimate.taxableIncome,
+    },
+    { section: 'Schätzung', label: 'Kapitalertragsteuer', value: estimate.capitalGainsTax },
+    { section: 'Schätzung', label: 'Solidaritätszuschlag', value: estimate.solidaritySurcharge },
+    { section: 'Schätzung', label: 'Kirchensteuer', value: estimate.churchTax },
+    {
+      section: 'Schätzung',
+      label: 'Nachzahlung (+) / Erstattung (−)',
+      value: estimate.balance,
+    },
+  ];
+}
+
+function formatAmount(value: number): string {
+  return value.toFixed(2);
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,475 @@
+/**
+ * German Tax Report
+ *
+ * Yearly figures for Anlage KAP from the transactions ledger: realized gains
+ * (always FIFO) split into the stock and the general loss pot, dividends,
+ * interest, the Vorabpauschale of accumulating funds, the Teilfreistellung of
+ * funds and the taxes withheld by the broker. Gains on fund shares are reduced by
+ * the Vorabpauschalen taxed while they were held. Years follow the local calendar.
+ */
+
+import { logger } from '../utils/logger.js';
+import { getLocalDate, LSX_TRADING_HOURS } from '../market/trading-hours.js';
+import { calculateCostBasis } from './cost-basis.js';
+import type { ExecutionStore, RealizedGain } from './cost-basis.js';
+import type { HistoricalPrice, Instrument } from '../database/production-database.js';
+import type { StockSplit } from '../types/comprehensive-asset.js';
+import type { LedgerQuery, LedgerTransaction } from '../types/ledger.js';
+
+/**
+ * How an instrument is taxed; excluded instruments (crypto) fall under private
+ * sales and are left out of Anlage KAP
+ */
+export type TaxAssetClass = 'stock' | 'fund' | 'other' | 'excluded';
+
+export type FundType = 'equity' | 'mixed' | 'real_estate' | 'foreign_real_estate' | 'other';
+
+/**
+ * Ledger, instruments and prices; implemented by ProductionDatabaseManager
+ */
+export interface TaxReportStore extends ExecutionStore {
+  getTransactions(query?: LedgerQuery): LedgerTransaction[];
+  getInstrument(isin: string): Pick<Instrument, 'isin' | 'name' | 'type'> | undefined;
+  getHistoricalPrices(
+    isin: string,
+    timeframe: HistoricalPrice['timeframe'],
+    from: number,
+    until: number
+  ): HistoricalPrice[];
+}
+
+export interface TaxReportOptions {
+  assetClasses?: Record<string, TaxAssetClass>; // Overrides by ISIN
+  fundTypes?: Record<string, FundType>; // Funds default to equity funds
+  splits?: Record<string, StockSplit[]>;
+  basiszins?: Record<number, number>; // Percent by year, overriding the published rates
+  allowance?: number; // Sparer-Pauschbetrag
+  churchTaxRate?: number; // e.g. 0.08 or 0.09
+  timeZone?: string;
+}
+
+/**
+ * Verlustverrechnungstopf; gains and losses are positive amounts
+ */
+export interface LossPot {
+  gains: number;
+  losses: number;
+  net: number;
+}
+
+export interface TaxReportLine {
+  isin: string;
+  name?: string;
+  assetClass: TaxAssetClass;
+  realizedGain: number;
+  dividends: number; // Gross
+  vorabpauschale: number;
+  partialExemption: number; // Teilfreistellung deducted from the three above
+}
+
+export interface TaxReportSale extends RealizedGain {
+  assetClass: TaxAssetClass;
+  vorabpauschale: number; // Taxed in earlier years and deducted from the gain
+}
+
+export interface WithheldTaxes {
+  capitalGainsTax: number; // Kapitalertragsteuer
+  solidaritySurcharge: number;
+  churchTax: number;
+  withholdingTax: number; // Foreign, creditable up to the German tax
+  refunded: number;
+}
+
+export interface TaxEstimate {
+  taxableIncome: number; // After the allowance
+  capitalGainsTax: number;
+  solidaritySurcharge: number;
+  churchTax: number;
+  balance: number; // Estimated minus withheld tax; negative means a refund
+}
+
+export interface TaxReport {
+  year: number;
+  currency: 'EUR';
+  generatedAt: string;
+  stockPot: LossPot; // Aktien
+  otherPot: LossPot; // Sonstige, including dividends, interest and Vorabpauschale
+  dividends: number;
+  interest: number;
+  vorabpauschale: number;
+  partialExemption: number;
+  capitalIncome: number; // Kapitalerträge after offsetting losses
+  unusedStockLosses: number;
+  unusedOtherLosses: number;
+  withheld: WithheldTaxes;
+  estimate: TaxEstimate;
+  lines: TaxReportLine[];
+  sales: TaxReportSale[];
+  unclassified: string[]; // ISINs without a known instrument type, taxed as 'other'
+  missingPrices: string[]; // Funds whose Vorabpauschale could not be computed
+}
+
+/**
+ * Basiszins for the Vorabpauschale in percent, published yearly by the BMF
+ */
+const BASISZINS: Record<number, number> = {
+  2018: 0.87,
+  2019: 0.52,
+  2020: 0.07,
+  2021: -0.45,
+  2022: -0.05,
+  2023: 2.55,
+  2024: 2.29,
+  2025: 2.53,
+};
+
+const PARTIAL_EXEMPTION: Record<FundType, number> = {
+  equity: 0.3,
+  mixed: 0.15,
+  real_estate: 0.6,
+  foreign_real_estate: 0.8,
+  other: 0,
+};
+
+const INSTRUMENT_CLASSES: Record<Instrument['type'], TaxAssetClass> = {
+  stock: 'stock',
+  etf: 'fund',
+  bond: 'other',
+  warrant: 'other',
+  crypto: 'excluded',
+};
+
+const DEFAULT_ALLOWANCE = 1000;
+const SOLIDARITY_RATE = 0.055;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class TaxReportGenerator {
+  private store: TaxReportStore;
+  private options: TaxReportOptions;
+  private timeZone: string;
+
+  constructor(store: TaxReportStore, options: TaxReportOptions = {}) {
+    this.store = store;
+    this.options = options;
+    this.timeZone = options.timeZone ?? LSX_TRADING_HOURS.timezone;
+  }
+
+  /**
+   * Report for one calendar year. The Vorabpauschale of a year is received on the
+   * first working day of the next one, so it is computed from the previous year.
+   */
+  public generate(year: number): TaxReport {
+    const transactions = this.store
+      .getTransactions(this.getYearWindow(year))
+      .filter(tx => this.getYear(tx.timestamp) === year);
+    const lines = new Map<string, TaxReportLine>();
+    const unclassified = new Set<string>();
+    const missingPrices = new Set<string>();
+
+    const perShare = new Map<string, number | undefined>();
+    const getPerShare = (isin: string, vorabYear: number): number | undefined => {
+      const key = `${isin}:${vorabYear}`;
+      if (!perShare.has(key)) {
+        perShare.set(key, this.getVorabpauschalePerShare(isin, vorabYear));
+      }
+      const amount = perShare.get(key);
+      if (amount === undefined) {
+        missingPrices.add(isin);
+      }
+      return amount;
+    };
+
+    const getLine = (isin: string): TaxReportLine => {
+      let line = lines.get(isin);
+      if (!line) {
+        const instrument = this.store.getInstrument(isin);
+        const assetClass = this.getAssetClass(isin, instrument?.type);
+        if (!this.options.assetClasses?.[isin] && !instrument?.type) {
+          unclassified.add(isin);
+        }
+        line = {
+          isin,
+          name: instrument?.name ?? undefined,
+          assetClass,
+          realizedGain: 0,
+          dividends: 0,
+          vorabpauschale: 0,
+          partialExemption: 0,
+        };
+        lines.set(isin, line);
+      }
+      return line;
+    };
+
+    // Realized gains of sales in the year, replayed over the full history
+    const sales: TaxReportSale[] = [];
+    for (const [isin, executions] of groupByIsin(this.store.getTradeExecutions())) {
+      const { realized } = calculateCostBasis(isin, executions, {
+        method: 'fifo',
+        splits: this.options.splits?.[isin],
+      });
+      const inYear = realized.filter(gain => this.getYear(gain.soldAt) === year);
+      if (inYear.length === 0) {
+        continue;
+      }
+
+      // § 19 Abs. 1 InvStG: Vorabpauschalen of the years before the sale are credited
+      const line = getLine(isin);
+      for (const gain of inYear) {
+        const { acquiredAt } = gain;
+        let vorabpauschale = 0;
+        if (line.assetClass === 'fund' && acquiredAt) {
+          for (let vorabYear = this.getYear(acquiredAt); vorabYear < year; vorabYear++) {
+            const months = this.getHeldMonths(acquiredAt, vorabYear);
+            vorabpauschale += gain.quantity * (getPerShare(isin, vorabYear) ?? 0) * (months / 12);
+          }
+        }
+        sales.push({ ...gain, assetClass: line.assetClass, vorabpauschale });
+        line.realizedGain += gain.gain - vorabpauschale;
+      }
+    }
+
+    // Dividends without an ISIN cannot get a Teilfreistellung and count in full
+    let interest = 0;
+    let otherDividends = 0;
+    for (const tx of transactions) {
+      if (tx.type === 'dividend' && tx.isin) {
+        getLine(tx.isin).dividends += tx.amount + tx.taxes;
+      } else if (tx.type === 'dividend') {
+        otherDividends += tx.amount + tx.taxes;
+      } else if (tx.type === 'interest') {
+        interest += tx.amount + tx.taxes;
+      }
+    }
+
+    this.addVorabpauschale(year - 1, getLine, getPerShare);
+
+    const stockPot: LossPot = { gains: 0, losses: 0, net: 0 };
+    const otherPot: LossPot = { gains: interest + otherDividends, losses: 0, net: 0 };
+    for (const line of lines.values()) {
+      if (line.assetClass === 'excluded') {
+        continue;
+      }
+
+      const exemption = line.assetClass === 'fund' ? this.getPartialExemption(line.isin) : 0;
+      const realizedGain = line.realizedGain * (1 - exemption);
+      const income = (line.dividends + line.vorabpauschale) * (1 - exemption);
+      line.partialExemption =
+        (line.realizedGain + line.dividends + line.vorabpauschale) * exemption;
+
+      const pot = line.assetClass === 'stock' ? stockPot : otherPot;
+      pot.gains += Math.max(realizedGain, 0);
+      pot.losses += Math.max(-realizedGain, 0);
+      otherPot.gains += income;
+    }
+
+    // General losses also offset stock gains; stock losses only offset stock gains
+    stockPot.net = stockPot.gains - stockPot.losses;
+    otherPot.net = otherPot.gains - otherPot.losses;
+    let stockNet = stockPot.net;
+    let otherNet = otherPot.net;
+    if (otherNet < 0 && stockNet > 0) {
+      const offset = Math.min(-otherNet, stockNet);
+      stockNet -= offset;
+      otherNet += offset;
+    }
+
+    const taxable = [...lines.values()].filter(line => line.assetClass !== 'excluded');
+    const withheld = sumWithheld(transactions);
+    const capitalIncome = Math.max(stockNet, 0) + Math.max(otherNet, 0);
+
+    const report: TaxReport = {
+      year,
+      currency: 'EUR',
+      generatedAt: new Date().toISOString(),
+      stockPot,
+      otherPot,
+      dividends: sum(taxable.map(line => line.dividends)) + otherDividends,
+      interest,
+      vorabpauschale: sum(taxable.map(line => line.vorabpauschale)),
+      partialExemption: sum(taxable.map(line => line.partialExemption)),
+      capitalIncome,
+      unusedStockLosses: Math.max(-stockNet, 0),
+      unusedOtherLosses: Math.max(-otherNet, 0),
+      withheld,
+      estimate: this.estimateTax(capitalIncome, withheld),
+      lines: [...lines.values()].sort((a, b) => a.isin.localeCompare(b.isin)),
+      sales,
+      unclassified: [...unclassified].sort(),
+      missingPrices: [...missingPrices].sort(),
+    };
+
+    logger.info('🧾 Tax report generated', {
+      year,
+      capitalIncome: report.capitalIncome,
+      sales: sales.length,
+    });
+    return report;
+  }
+
+  private getAssetClass(isin: string, type?: Instrument['type']): TaxAssetClass {
+    return this.options.assetClasses?.[isin] ?? (type ? INSTRUMENT_CLASSES[type] : 'other');
+  }
+
+  private getPartialExemption(isin: string): number {
+    return PARTIAL_EXEMPTION[this.options.fundTypes?.[isin] ?? 'equity'];
+  }
+
+  /**
+   * Add the Vorabpauschale of the fund shares held at the end of a year to their
+   * lines, reduced by a twelfth for each full month before purchase
+   */
+  private addVorabpauschale(
+    year: number,
+    getLine: (isin: string) => TaxReportLine,
+    getPerShare: (isin: string, year: number) => number | undefined
+  ): void {
+    const executions = this.store
+      .getTradeExecutions()
+      .filter(execution => this.getYear(execution.timestamp) <= year);
+
+    for (const [isin, held] of groupByIsin(executions)) {
+      const instrument = this.store.getInstrument(isin);
+      if (this.getAssetClass(isin, instrument?.type) !== 'fund') {
+        continue;
+      }
+
+      const { lots } = calculateCostBasis(isin, held, {
+        method: 'fifo',
+        splits: this.options.splits?.[isin],
+      });
+      const perShare = lots.length > 0 ? getPerShare(isin, year) : undefined;
+      if (perShare === undefined) {
+        continue;
+      }
+
+      getLine(isin).vorabpauschale += sum(
+        lots.map(lot => lot.quantity * perShare * (this.getHeldMonths(lot.acquiredAt, year) / 12))
+      );
+    }
+  }
+
+  /**
+   * Vorabpauschale per fund share for a year: min(start price × Basiszins × 0.7,
+   * price gain + distributions) less distributions. Undefined without prices.
+   */
+  private getVorabpauschalePerShare(isin: string, year: number): number | undefined {
+    const rate = Math.max(this.options.basiszins?.[year] ?? BASISZINS[year] ?? 0, 0) / 100;
+    if (rate === 0) {
+      return 0;
+    }
+
+    // The last close before the year, or its first close for funds launched later
+    const window = this.getYearWindow(year);
+    const candles = this.store.getHistoricalPrices(
+      isin,
+      '1d',
+      Date.parse(window.from) - 31 * DAY_MS,
+      Date.parse(window.until)
+    );
+    const before = candles.filter(candle => this.getYear(candle.timestamp) < year);
+    const during = candles.filter(candle => this.getYear(candle.timestamp) === year);
+    const startPrice = before[before.length - 1]?.close ?? during[0]?.close;
+    const endPrice = during[during.length - 1]?.close;
+    if (startPrice === undefined || endPrice === undefined) {
+      return undefined;
+    }
+
+    const distributions = sum(
+      this.store
+        .getTransactions({ isin, types: ['dividend'], ...window })
+        .filter(tx => this.getYear(tx.timestamp) === year)
+        .map(tx => tx.price ?? 0)
+    );
+    return Math.max(
+      Math.min(startPrice * rate * 0.7, endPrice - startPrice + distributions) - distributions,
+      0
+    );
+  }
+
+  /**
+   * Months of a year a share acquired at a time was held, counting its month
+   */
+  private getHeldMonths(acquiredAt: string, year: number): number {
+    const [acquiredYear = 0, month = 1] = getLocalDate(Date.parse(acquiredAt), this.timeZone)
+      .split('-')
+      .map(Number);
+    return acquiredYear < year ? 12 : acquiredYear === year ? 13 - month : 0;
+  }
+
+  /**
+   * UTC range reaching a day past both ends of a local year, for queries whose
+   * results are filtered with getYear
+   */
+  private getYearWindow(year: number): { from: string; until: string } {
+    return {
+      from: new Date(Date.UTC(year, 0, 1) - DAY_MS).toISOString(),
+      until: new Date(Date.UTC(year + 1, 0, 1) + DAY_MS).toISOString(),
+    };
+  }
+
+  private getYear(timestamp: string): number {
+    return Number(getLocalDate(Date.parse(timestamp), this.timeZone).slice(0, 4));
+  }
+
+  /**
+   * Abgeltungsteuer on the income above the allowance, with the church tax
+   * deduction and credited foreign tax of § 32d EStG
+   */
+  private estimateTax(capitalIncome: number, withheld: WithheldTaxes): TaxEstimate {
+    const churchRate = this.options.churchTaxRate ?? 0;
+    const taxableIncome = Math.max(
+      capitalIncome - (this.options.allowance ?? DEFAULT_ALLOWANCE),
+      0
+    );
+    const capitalGainsTax = Math.max(
+      (taxableIncome - 4 * withheld.withholdingTax) / (4 + churchRate),
+      0
+    );
+    const solidaritySurcharge = capitalGainsTax * SOLIDARITY_RATE;
+    const churchTax = capitalGainsTax * churchRate;
+    const paid =
+      withheld.capitalGainsTax +
+      withheld.solidaritySurcharge +
+      withheld.churchTax -
+      withheld.refunded;
+
+    return {
+      taxableIncome,
+      capitalGainsTax,
+      solidaritySurcharge,
+      churchTax,
+      balance: capitalGainsTax + solidaritySurcharge + churchTax - paid,
+    };
+  }
+}
+
+/**
+ * Taxes withheld on any transaction of the year; tax events with a positive amount
+ * are refunds, counted by their amount only since their tax rows list what was refunded
+ */
+function sumWithheld(transactions: LedgerTransaction[]): WithheldTaxes {
+  const isRefund = (tx: LedgerTransaction): boolean => tx.type === 'tax' && tx.amount > 0;
+  const charged = transactions.filter(tx => !isRefund(tx));
+  return {
+    capitalGainsTax: sum(charged.map(tx => tx.capitalGainsTax ?? 0)),
+    solidaritySurcharge: sum(charged.map(tx => tx.solidaritySurcharge ?? 0)),
+    churchTax: sum(charged.map(tx => tx.churchTax ?? 0)),
+    withholdingTax: sum(charged.map(tx => tx.withholdingTax ?? 0)),
+    refunded: sum(transactions.filter(isRefund).map(tx => tx.amount)),
+  };
+}
+
+function groupByIsin<T extends { isin: string }>(items: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const group = groups.get(item.isin) ?? [];
+    group.push(item);
+    groups.set(item.isin, group);
+  }
+  return groups;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
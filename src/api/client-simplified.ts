@@ -1,195 +1,113 @@
 /**
- * Trade Republic API Client - Simplified Production Version
+ * Trade Republic API Client - Simplified Facade
  *
- * Focus on working features: Authentication and WebSocket data collection
- * Removed non-working features: Portfolio management, Trading operations
+ * Keeps the simplified API (authentication and price streaming) on top of the
+ * main TradeRepublicClient, so both share the same login and session handling
  */
 
-import { DEFAULT_CONFIG } from '../config/config';
-import { AuthManager } from '../auth/manager';
-import { AuthenticationError } from '../types/auth';
-import { HttpClient } from './http-client';
+import { TradeRepublicClient as CoreClient } from './client';
 import { logger } from '../utils/logger';
+import type { AuthManager } from '../auth/manager';
+import type { HttpClient } from './http-client';
 import type { TradeRepublicConfig } from '../config/config';
-import type { LoginCredentials, AuthSession, AuthToken, MFAChallenge, MFAResponse } from '../types/auth';
-import { TradeRepublicWebSocket } from '../websocket/tr-websocket';
-import type { TRWebSocketConfig } from '../websocket/tr-websocket';
-import type {
-  PriceUpdateMessage,
-} from '../types/websocket';
+import type { LoginCredentials, AuthSession, MFAChallenge } from '../types/auth';
+import type { TradeRepublicWebSocket } from '../websocket/tr-websocket';
 
-export class TradeRepublicClient {
-  private config: TradeRepublicConfig;
-  private authManager: AuthManager;
-  private httpClient: HttpClient;
-  private websocketManager?: TradeRepublicWebSocket;
-  private initialized = false;
+export class SimplifiedTradeRepublicClient {
+  private client: CoreClient;
+  private priceSubscriptions = new Map<string, string>();
 
   constructor(config?: Partial<TradeRepublicConfig>) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
-    this.authManager = new AuthManager(this.config.credentialsPath);
-    this.httpClient = new HttpClient(this.config);
-    this.websocketManager = new TradeRepublicWebSocket(this.config.websocket, this.authManager);
-
-    // Set up logging level
-    logger.setLevel(this.config.logLevel);
-
-    // Add file logging if configured
-    if (this.config.logFile) {
-      logger.addFileTransport(this.config.logFile);
-    }
+    this.client = new CoreClient(config);
   }
 
   // ==============================================
   // GETTERS
   // ==============================================
 
+  /**
+   * Get the underlying client
+   */
+  public get core(): CoreClient {
+    return this.client;
+  }
+
   /**
    * Get authentication manager
    */
   public get auth(): AuthManager {
-    return this.authManager;
+    return this.client.auth;
   }
 
   /**
    * Get HTTP client
    */
   public get http(): HttpClient {
-    return this.httpClient;
+    return this.client.http;
   }
 
   /**
    * Get WebSocket manager
    */
   public get websocket(): TradeRepublicWebSocket | undefined {
-    return this.websocketManager;
+    return this.client.websocket;
   }
 
   /**
    * Check if client is authenticated
    */
   public get isAuthenticated(): boolean {
-    return this.authManager.isAuthenticated;
+    return this.client.isAuthenticated();
   }
 
   /**
    * Get current session information
    */
   public get session(): AuthSession | null {
-    return this.authManager.currentSession;
+    return this.client.getSession() ?? null;
   }
 
   // ==============================================
-  // INITIALIZATION
+  // AUTHENTICATION
   // ==============================================
 
   /**
    * Initialize the client
    */
   public async initialize(): Promise<void> {
-    if (this.initialized) {
-      return;
-    }
-
-    try {
-      // Initialize auth manager
-      await this.authManager.initialize();
-      
-      // Initialize HTTP client
-      if (this.authManager.isAuthenticated) {
-        const session = this.authManager.currentSession;
-        if (session) {
-          this.httpClient.setAuthTokens(session.accessToken, session.refreshToken);
-        }
-      }
-
-      this.initialized = true;
-      logger.info('Trade Republic client initialized successfully');
-    } catch (error) {
-      logger.error('Failed to initialize Trade Republic client', { error });
-      throw error;
-    }
+    await this.client.initialize();
   }
 
-  // ==============================================
-  // AUTHENTICATION
-  // ==============================================
-
   /**
-   * Login to Trade Republic
+   * Login to Trade Republic; throws a TwoFactorRequiredError with the challenge
    */
   public async login(credentials: LoginCredentials): Promise<AuthSession> {
-    try {
-      await this.initialize();
-      
-      const session = await this.authManager.login(credentials);
-      
-      // Update HTTP client with new tokens
-      this.httpClient.setAuthTokens(session.accessToken, session.refreshToken);
-      
-      logger.info('Login successful', { userId: session.userId });
-      return session;
-    } catch (error) {
-      logger.error('Login failed', {
-        username: credentials.username,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
-      throw error;
-    }
+    await this.initialize();
+    return this.client.login(credentials);
   }
 
   /**
    * Handle MFA challenge
    */
   public async handleMFA(challengeData: MFAChallenge, code: string): Promise<AuthSession> {
-    try {
-      const response: MFAResponse = { code, challengeId: challengeData.challengeId };
-      const session = await this.authManager.completeMFA(response);
-      
-      // Update HTTP client with new tokens
-      this.httpClient.setAuthTokens(session.accessToken, session.refreshToken);
-      
-      logger.info('MFA completed successfully');
-      return session;
-    } catch (error) {
-      logger.error('MFA failed', { error });
-      throw error;
-    }
+    return this.client.submitMFA(challengeData, { challengeId: challengeData.challengeId, code });
   }
 
   /**
    * Logout from Trade Republic
    */
   public async logout(): Promise<void> {
-    try {
-      if (this.websocketManager) {
-        await this.websocketManager.disconnect();
-      }
-      
-      await this.authManager.logout();
-      
-      logger.info('Logout successful');
-    } catch (error) {
-      logger.error('Logout failed', { error });
-      throw error;
-    }
+    this.client.disconnectWebSocket();
+    this.priceSubscriptions.clear();
+    await this.client.logout();
   }
 
   /**
    * Refresh authentication tokens
    */
   public async refreshAuth(): Promise<AuthSession> {
-    try {
-      const session = await this.authManager.refreshTokens();
-      
-      // Update HTTP client with new tokens
-      this.httpClient.setAuthTokens(session.accessToken, session.refreshToken);
-      
-      return session;
-    } catch (error) {
-      logger.error('Token refresh failed', { error });
-      throw error;
-    }
+    await this.client.refreshToken();
+    return this.client.getSession()!;
   }
 
   // ==============================================
@@ -200,79 +118,50 @@ export class TradeRepublicClient {
    * Initialize WebSocket connection
    */
   public async initializeWebSocket(): Promise<void> {
-    if (!this.websocketManager) {
-      throw new Error('WebSocket manager not available');
-    }
-
-    if (!this.isAuthenticated) {
-      throw new AuthenticationError('Not authenticated. Please login first.');
-    }
-
-    await this.websocketManager.connect();
-    logger.info('WebSocket connection established');
+    await this.client.initializeWebSocket();
   }
 
   /**
    * Get WebSocket connection status
    */
-  public getWebSocketStatus(): { connected: boolean; readyState?: number } {
-    if (!this.websocketManager) {
-      return { connected: false };
-    }
-
-    return {
-      connected: this.websocketManager.isConnected(),
-      readyState: this.websocketManager.getReadyState()
-    };
+  public getWebSocketStatus(): { connected: boolean } {
+    return { connected: this.client.isWebSocketConnected() };
   }
 
   /**
-   * Subscribe to price updates for an asset
+   * Subscribe to price updates for an asset; resolves once the subscription is sent
    */
-  public subscribeToPrices(isin: string, callback: (data: PriceUpdateMessage) => void): void {
-    if (!this.websocketManager) {
-      throw new Error('WebSocket manager not available');
-    }
-
-    if (!this.websocketManager.isConnected()) {
+  public async subscribeToPrices(isin: string, callback: (data: unknown) => void): Promise<void> {
+    if (!this.client.isWebSocketConnected()) {
       throw new Error('WebSocket not connected. Call initializeWebSocket() first.');
     }
 
-    this.websocketManager.subscribeToPrice(isin, callback);
+    const subscriptionId = await this.client.subscribeToPrices(isin, callback);
+    if (subscriptionId) {
+      this.priceSubscriptions.set(isin, subscriptionId);
+    }
   }
 
   /**
    * Unsubscribe from price updates for an asset
    */
-  public unsubscribeFromPrices(isin: string): void {
-    if (!this.websocketManager) {
-      throw new Error('WebSocket manager not available');
+  public async unsubscribeFromPrices(isin: string): Promise<void> {
+    const subscriptionId = this.priceSubscriptions.get(isin);
+    if (!subscriptionId) {
+      return;
     }
 
-    this.websocketManager.unsubscribeFromPrice(isin);
+    this.priceSubscriptions.delete(isin);
+    await this.client.unsubscribe(subscriptionId);
   }
 
   /**
    * Disconnect WebSocket
    */
   public async disconnectWebSocket(): Promise<void> {
-    if (this.websocketManager) {
-      await this.websocketManager.disconnect();
-      logger.info('WebSocket disconnected');
-    }
-  }
-
-  // ==============================================
-  // UTILITY METHODS
-  // ==============================================
-
-  /**
-   * Check if client needs authentication
-   */
-  private ensureAuthenticated(): void {
-    if (!this.isAuthenticated) {
-      throw new AuthenticationError('Not authenticated. Please login first.');
-    }
+    this.client.disconnectWebSocket();
+    this.priceSubscriptions.clear();
+    logger.info('WebSocket disconnected');
   }
 
   /**
@@ -281,7 +170,6 @@ export class TradeRepublicClient {
   public async cleanup(): Promise<void> {
     try {
       await this.disconnectWebSocket();
-      // Additional cleanup if needed
       logger.info('Client cleanup completed');
     } catch (error) {
       logger.error('Error during cleanup', { error });
@@ -289,4 +177,10 @@ export class TradeRepublicClient {
   }
 }
 
-export default TradeRepublicClient;
+/**
+ * @deprecated Renamed to SimplifiedTradeRepublicClient. subscribeToPrices() and
+ * unsubscribeFromPrices() now return promises, await them to catch errors.
+ */
+export class TradeRepublicClient extends SimplifiedTradeRepublicClient {}
+
+export default SimplifiedTradeRepublicClient;
@@ -6,7 +6,7 @@
 
 import { DEFAULT_CONFIG } from '../config/config';
 import { AuthManager } from '../auth/manager';
-import { AuthenticationError } from '../types/auth';
+import { AuthenticationError, TwoFactorRequiredError } from '../types/auth';
 import { HttpClient } from './http-client';
 import { logger } from '../utils/logger';
 import type { TradeRepublicConfig } from '../config/config';
@@ -18,37 +18,73 @@ import type {
   OrderHistory,
   OrderHistoryFilters,
   RealTimePrice,
+  HistoricalPricePeriod,
+  HistoricalPriceResolution,
   HistoricalPricesResponse,
   MarketNewsResponse,
   WatchlistResponse,
+  MarketStatus,
 } from '../types/trading';
 import { TradeRepublicWebSocket } from '../websocket/tr-websocket';
-import type { TRWebSocketConfig } from '../websocket/tr-websocket';
+import { PortfolioManager } from '../portfolio/manager';
+import { TradingManager } from '../trading/manager';
+import { ProductionDatabaseManager } from '../database/production-database';
+import { getTradingSession, LSX_TRADING_HOURS } from '../market/trading-hours';
 import type {
-  PriceUpdateMessage,
-  PortfolioUpdateMessage,
-  OrderUpdateMessage,
-  ExecutionMessage,
-  MarketStatusMessage,
-  NewsMessage,
-  WatchlistUpdateMessage,
+  Portfolio,
+  Position,
+  CashPosition,
+  PortfolioSummary,
+  PortfolioPerformance,
+} from '../types/portfolio';
+import type {
+  TRCompactPortfolio,
+  TRInstrument,
+  TRNewsItem,
+  TROrder,
+  TROrders,
+  TRSearchResults,
+  TRTicker,
+  TRWatchlist,
 } from '../types/websocket';
 
+/**
+ * Venues whose status subscribeToMarketStatus can derive from known trading hours
+ */
+const MARKET_STATUS_VENUES: MarketStatus['venue'][] = ['LSX', 'LANG_SCHWARZ'];
+const MARKET_STATUS_INTERVAL = 60000;
+
 export class TradeRepublicClient {
   private config: TradeRepublicConfig;
   private authManager: AuthManager;
   private httpClient: HttpClient;
   private websocketManager?: TradeRepublicWebSocket;
+  private portfolioManager: PortfolioManager;
+  private tradingManager: TradingManager;
+  private database?: ProductionDatabaseManager;
   private initialized = false;
+  private marketStatusTimers = new Map<string, ReturnType<typeof setInterval>>();
+  private marketStatusCount = 0;
 
   constructor(config?: Partial<TradeRepublicConfig>) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
-    this.authManager = new AuthManager(this.config.credentialsPath);
-    this.httpClient = new HttpClient(this.config);
-    // TODO: Implement these managers
-    // this.portfolioManager = new PortfolioManager(this.authManager);
-    // this.tradingManager = new TradingManager(this.authManager);
+    this.config = {
+      ...DEFAULT_CONFIG,
+      ...config,
+      // The WebSocket follows websocketUrl unless a full websocket config is given
+      websocket: {
+        ...DEFAULT_CONFIG.websocket,
+        url: config?.websocketUrl ?? DEFAULT_CONFIG.websocket.url,
+        ...config?.websocket,
+      },
+    };
+    this.authManager = new AuthManager(this.config.credentialsPath, this.config);
+    this.httpClient = new HttpClient(this.config, this.authManager.cookies);
     this.websocketManager = new TradeRepublicWebSocket(this.config.websocket, this.authManager);
+    this.portfolioManager = new PortfolioManager(this.websocketManager);
+    this.database = this.config.databasePath
+      ? new ProductionDatabaseManager(this.config.databasePath)
+      : undefined;
+    this.tradingManager = new TradingManager(this.websocketManager, undefined, this.database);
 
     // Set up logging level
     logger.setLevel(this.config.logLevel);
@@ -66,6 +102,13 @@ export class TradeRepublicClient {
     return this.authManager;
   }
 
+  /**
+   * Get the HTTP client
+   */
+  public get http(): HttpClient {
+    return this.httpClient;
+  }
+
   /**
    * Get the portfolio manager
    */
@@ -124,7 +167,8 @@ export class TradeRepublicClient {
   }
 
   /**
-   * Login to Trade Republic
+   * Login to Trade Republic.
+   * Throws a TwoFactorRequiredError whose challenge is answered with submitMFA()
    */
   public async login(credentials: LoginCredentials): Promise<AuthSession> {
     this.ensureInitialized();
@@ -138,8 +182,8 @@ export class TradeRepublicClient {
       logger.info('Login successful', { userId: session.userId });
       return session;
     } catch (error) {
-      if (error instanceof AuthenticationError && error.code === 'MFA_REQUIRED') {
-        logger.info('MFA authentication required');
+      if (error instanceof TwoFactorRequiredError) {
+        logger.info('MFA authentication required', { type: error.challenge?.type });
         throw error;
       }
 
@@ -231,8 +275,7 @@ export class TradeRepublicClient {
 
       logger.debug('Fetching portfolio data');
 
-      // TODO: Replace with actual API endpoint
-      const portfolioData = await this.httpClient.get<Portfolio>('/api/v1/portfolio');
+      const portfolioData = await this.portfolioManager.getPortfolio();
 
       logger.info('Portfolio data retrieved successfully');
       return portfolioData;
@@ -266,13 +309,13 @@ export class TradeRepublicClient {
       logger.setLevel(newConfig.logLevel);
     }
 
-    // Update HTTP client configuration
-    this.httpClient = new HttpClient(this.config);
-
     // Re-initialize auth manager if credentials path changed
     if (newConfig.credentialsPath) {
-      this.authManager = new AuthManager(this.config.credentialsPath);
+      this.authManager = new AuthManager(this.config.credentialsPath, this.config);
     }
+
+    // Update HTTP client configuration
+    this.httpClient = new HttpClient(this.config, this.authManager.cookies);
   }
 
   // =================
@@ -386,7 +429,7 @@ export class TradeRepublicClient {
   /**
    * Get all portfolio positions
    */
-  public async getPortfolioPositions(): Promise<any> {
+  public async getPortfolioPositions(): Promise<Position[]> {
     this.ensureInitialized();
     this.ensureAuthenticated();
     return this.portfolioManager.getPositions();
@@ -395,7 +438,7 @@ export class TradeRepublicClient {
   /**
    * Get portfolio summary and overview
    */
-  public async getPortfolioSummary(): Promise<any> {
+  public async getPortfolioSummary(): Promise<PortfolioSummary> {
     this.ensureInitialized();
     this.ensureAuthenticated();
     return this.portfolioManager.getSummary();
@@ -404,7 +447,7 @@ export class TradeRepublicClient {
   /**
    * Get specific position by ISIN
    */
-  public async getPosition(isin: string): Promise<any> {
+  public async getPosition(isin: string): Promise<Position | undefined> {
     this.ensureInitialized();
     this.ensureAuthenticated();
     return this.portfolioManager.getPosition(isin);
@@ -413,7 +456,7 @@ export class TradeRepublicClient {
   /**
    * Get cash position and available funds
    */
-  public async getCashPosition(): Promise<any> {
+  public async getCashPosition(): Promise<CashPosition> {
     this.ensureInitialized();
     this.ensureAuthenticated();
     return this.portfolioManager.getCash();
@@ -422,7 +465,7 @@ export class TradeRepublicClient {
   /**
    * Get portfolio performance for a given timeframe
    */
-  public async getPortfolioPerformance(timeframe?: '1D' | '1W' | '1M' | '3M' | '6M' | '1Y' | 'ALL'): Promise<any> {
+  public async getPortfolioPerformance(timeframe?: PortfolioPerformance['timeframe']): Promise<PortfolioPerformance> {
     this.ensureInitialized();
     this.ensureAuthenticated();
     return this.portfolioManager.getPerformance(timeframe);
@@ -431,7 +474,7 @@ export class TradeRepublicClient {
   /**
    * Get instrument information by ISIN
    */
-  public async getInstrumentInfo(isin: string): Promise<any> {
+  public async getInstrumentInfo(isin: string): Promise<TRInstrument> {
     this.ensureInitialized();
     this.ensureAuthenticated();
     return this.portfolioManager.getInstrumentInfo(isin);
@@ -440,7 +483,7 @@ export class TradeRepublicClient {
   /**
    * Search for instruments by name or symbol
    */
-  public async searchInstruments(query: string): Promise<any> {
+  public async searchInstruments(query: string): Promise<TRSearchResults> {
     this.ensureInitialized();
     this.ensureAuthenticated();
     return this.portfolioManager.searchInstruments(query);
@@ -449,7 +492,7 @@ export class TradeRepublicClient {
   /**
    * Get positions filtered by minimum value
    */
-  public async getPositionsByValue(minValue: number = 0): Promise<any> {
+  public async getPositionsByValue(minValue: number = 0): Promise<Position[]> {
     this.ensureInitialized();
     this.ensureAuthenticated();
     return this.portfolioManager.getPositionsByValue(minValue);
@@ -458,7 +501,7 @@ export class TradeRepublicClient {
   /**
    * Get positions with positive performance
    */
-  public async getWinningPositions(): Promise<any> {
+  public async getWinningPositions(): Promise<Position[]> {
     this.ensureInitialized();
     this.ensureAuthenticated();
     return this.portfolioManager.getWinningPositions();
@@ -467,7 +510,7 @@ export class TradeRepublicClient {
   /**
    * Get positions with negative performance
    */
-  public async getLosingPositions(): Promise<any> {
+  public async getLosingPositions(): Promise<Position[]> {
     this.ensureInitialized();
     this.ensureAuthenticated();
     return this.portfolioManager.getLosingPositions();
@@ -592,11 +635,12 @@ export class TradeRepublicClient {
   }
 
   /**
-   * Get historical price data
+   * Get historical price data, cached in databasePath when configured
    */
   public async getHistoricalPrices(
     isin: string,
-    period: '1d' | '5d' | '1m' | '3m' | '6m' | '1y' | '5y'
+    period: HistoricalPricePeriod,
+    resolution?: HistoricalPriceResolution
   ): Promise<HistoricalPricesResponse> {
     this.ensureInitialized();
     this.ensureAuthenticated();
@@ -607,7 +651,7 @@ export class TradeRepublicClient {
         await this.ensureValidToken();
       }
 
-      return await this.tradingManager.getHistoricalPrices(isin, period);
+      return await this.tradingManager.getHistoricalPrices(isin, period, resolution);
     } catch (error) {
       logger.error('Failed to get historical prices', {
         error: error instanceof Error ? error.message : error,
@@ -749,7 +793,7 @@ export class TradeRepublicClient {
   /**
    * Subscribe to real-time price updates
    */
-  public async subscribeToPrices(isin: string, callback: (data: any) => void): Promise<string | undefined> {
+  public async subscribeToPrices(isin: string, callback: (data: TRTicker) => void): Promise<string | undefined> {
     if (!this.websocketManager) {
       logger.error('WebSocket not initialized. Call initializeWebSocket() first.');
       return undefined;
@@ -761,7 +805,7 @@ export class TradeRepublicClient {
   /**
    * Subscribe to portfolio updates
    */
-  public async subscribeToPortfolio(callback: (data: any) => void): Promise<string | undefined> {
+  public async subscribeToPortfolio(callback: (data: TRCompactPortfolio) => void): Promise<string | undefined> {
     if (!this.websocketManager) {
       logger.error('WebSocket not initialized. Call initializeWebSocket() first.');
       return undefined;
@@ -774,6 +818,13 @@ export class TradeRepublicClient {
    * Unsubscribe from a WebSocket subscription
    */
   public async unsubscribe(subscriptionId: string): Promise<void> {
+    const timer = this.marketStatusTimers.get(subscriptionId);
+    if (timer) {
+      clearInterval(timer);
+      this.marketStatusTimers.delete(subscriptionId);
+      return;
+    }
+
     if (!this.websocketManager) {
       logger.error('WebSocket not initialized');
       return;
@@ -800,11 +851,24 @@ export class TradeRepublicClient {
    * Disconnect WebSocket
    */
   public disconnectWebSocket(): void {
+    this.marketStatusTimers.forEach(timer => clearInterval(timer));
+    this.marketStatusTimers.clear();
+
     if (this.websocketManager) {
       this.websocketManager.disconnect();
     }
   }
 
+  /**
+   * Disconnect the WebSocket and close the price cache database; the client cannot
+   * be used afterwards
+   */
+  public destroy(): void {
+    this.disconnectWebSocket();
+    this.database?.close();
+    this.database = undefined;
+  }
+
   /**
    * Check if WebSocket is connected
    */
@@ -817,71 +881,95 @@ export class TradeRepublicClient {
   // =================
 
   /**
-   * Subscribe to order updates (simplified)
+   * Subscribe to order updates
    */
-  public async subscribeToOrders(callback: (message: OrderUpdateMessage) => void): Promise<string | undefined> {
+  public async subscribeToOrders(callback: (data: TROrders) => void): Promise<string | undefined> {
     if (!this.websocketManager) {
       logger.error('WebSocket not initialized. Call initializeWebSocket() first.');
       return undefined;
     }
 
-    // For now, use a basic subscription type that might work with TR
-    return await this.websocketManager.subscribe('orders', { type: 'orders' }, callback);
+    return await this.websocketManager.subscribe('orders', {}, callback);
   }
 
   /**
-   * Subscribe to trade executions (simplified)
+   * Subscribe to trade executions, derived from the orders topic
+   * (TR has no separate executions topic)
    */
-  public async subscribeToExecutions(callback: (message: ExecutionMessage) => void): Promise<string | undefined> {
+  public async subscribeToExecutions(callback: (orders: TROrder[]) => void): Promise<string | undefined> {
     if (!this.websocketManager) {
       logger.error('WebSocket not initialized. Call initializeWebSocket() first.');
       return undefined;
     }
 
-    return await this.websocketManager.subscribe('executions', { type: 'executions' }, callback);
+    return await this.websocketManager.subscribe('orders', {}, data => {
+      const executed = (data.orders ?? []).filter(order => Number(order.executedSize ?? 0) > 0);
+      if (executed.length > 0) {
+        callback(executed);
+      }
+    });
   }
 
   /**
-   * Subscribe to market status updates (simplified)
+   * Subscribe to market status changes of a venue, derived from its trading hours.
+   * The callback runs right away and whenever the venue opens or closes.
+   * @deprecated TR has no market status topic; use getTradingSession() instead
    */
-  public async subscribeToMarketStatus(venue: string, callback: (message: MarketStatusMessage) => void): Promise<string | undefined> {
-    if (!this.websocketManager) {
-      logger.error('WebSocket not initialized. Call initializeWebSocket() first.');
+  public async subscribeToMarketStatus(venue: string, callback: (status: MarketStatus) => void): Promise<string | undefined> {
+    const statusVenue = MARKET_STATUS_VENUES.find(known => known === venue);
+    if (!statusVenue) {
+      logger.error('No trading hours known for venue', { venue });
       return undefined;
     }
 
-    return await this.websocketManager.subscribe('marketStatus', { type: 'marketStatus', venue }, callback);
+    const subscriptionId = `marketStatus:${venue}:${++this.marketStatusCount}`;
+    let open: boolean | undefined;
+    const check = (): void => {
+      const session = getTradingSession(Date.now(), LSX_TRADING_HOURS);
+      if (open !== (session !== undefined)) {
+        open = session !== undefined;
+        callback({
+          venue: statusVenue,
+          status: open ? 'open' : 'closed',
+          nextClose: session ? new Date(session.close).toISOString() : undefined,
+          timezone: LSX_TRADING_HOURS.timezone,
+        });
+      }
+    };
+
+    check();
+    this.marketStatusTimers.set(subscriptionId, setInterval(check, MARKET_STATUS_INTERVAL));
+    return subscriptionId;
   }
 
   /**
-   * Subscribe to news updates (simplified)
+   * Subscribe to news for an instrument; TR has no general news feed
    */
-  public async subscribeToNews(callback: (message: NewsMessage) => void, isin?: string): Promise<string | undefined> {
+  public async subscribeToNews(callback: (data: TRNewsItem[]) => void, isin: string): Promise<string | undefined> {
     if (!this.websocketManager) {
       logger.error('WebSocket not initialized. Call initializeWebSocket() first.');
       return undefined;
     }
 
-    const payload = isin ? { type: 'neonNews', id: isin } : { type: 'neonNews' };
-    return await this.websocketManager.subscribe('news', payload, callback);
+    return await this.websocketManager.subscribe('neonNews', { isin }, callback);
   }
 
   /**
-   * Subscribe to watchlist updates (simplified)
+   * Subscribe to watchlist updates
    */
-  public async subscribeToWatchlistUpdates(callback: (message: WatchlistUpdateMessage) => void): Promise<string | undefined> {
+  public async subscribeToWatchlistUpdates(callback: (data: TRWatchlist) => void): Promise<string | undefined> {
     if (!this.websocketManager) {
       logger.error('WebSocket not initialized. Call initializeWebSocket() first.');
       return undefined;
     }
 
-    return await this.websocketManager.subscribe('watchlist', { type: 'watchlist' }, callback);
+    return await this.websocketManager.subscribe('watchlist', {}, callback);
   }
 
   /**
    * Bulk subscribe to price updates for multiple instruments
    */
-  public async subscribeToPricesBulk(isins: string[], callback: (message: PriceUpdateMessage) => void): Promise<string[]> {
+  public async subscribeToPricesBulk(isins: string[], callback: (data: TRTicker) => void): Promise<string[]> {
     if (!this.websocketManager) {
       logger.error('WebSocket not initialized. Call initializeWebSocket() first.');
       return [];
@@ -979,7 +1067,9 @@ export class TradeRepublicClient {
    * Ensure client is authenticated
    */
   private ensureAuthenticated(): void {
-    if (!this.isAuthenticated()) {
+    // An expired access token is fine when ensureValidToken() can refresh it
+    const refreshable = this.config.autoRefreshTokens && this.authManager.canRefreshSession();
+    if (!this.isAuthenticated() && !refreshable) {
       throw new AuthenticationError('Not authenticated. Please login first.');
     }
   }
@@ -989,10 +1079,7 @@ export class TradeRepublicClient {
    */
   private async ensureValidToken(): Promise<void> {
     try {
-      // Use the comprehensive session validation
-      await this.ensureValidSession();
-
-      // Check if token should be auto-refreshed
+      // Refresh first so an expired access token does not fail validation
       if (this.authManager.shouldRefreshToken()) {
         logger.debug('Token expires soon, attempting refresh');
         const refreshed = await this.authManager.autoRefreshIfNeeded();
@@ -1007,6 +1094,9 @@ export class TradeRepublicClient {
           );
         }
       }
+
+      // Use the comprehensive session validation
+      await this.ensureValidSession();
     } catch (error) {
       logger.error('Token validation failed', {
         error: error instanceof Error ? error.message : error,
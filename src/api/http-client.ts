@@ -7,6 +7,7 @@
 import axios from 'axios';
 import type { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
 import type { TradeRepublicConfig } from '../config/config';
+import type { SessionCookie } from '../types/auth';
 import { logger } from '../utils/logger';
 
 export class RateLimiter {
@@ -42,13 +43,122 @@ export class RateLimiter {
   }
 }
 
+export class CookieJar {
+  private cookies = new Map<string, SessionCookie>();
+
+  /**
+   * Store cookies from Set-Cookie response headers
+   */
+  public capture(setCookieHeaders: string[] | string | undefined): void {
+    const headers = Array.isArray(setCookieHeaders) ? setCookieHeaders : [setCookieHeaders];
+    for (const header of headers) {
+      if (header) {
+        this.setCookie(header);
+      }
+    }
+  }
+
+  /**
+   * Store a single Set-Cookie header; Max-Age=0 or a past Expires removes the cookie
+   */
+  public setCookie(header: string, now: number = Date.now()): void {
+    const [pair = '', ...attributes] = header.split(';');
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      return;
+    }
+
+    const cookie: SessionCookie = {
+      name: pair.substring(0, separator).trim(),
+      value: pair.substring(separator + 1).trim(),
+    };
+
+    for (const attribute of attributes) {
+      const [key = '', ...rest] = attribute.trim().split('=');
+      const value = rest.join('=');
+      switch (key.toLowerCase()) {
+        case 'max-age':
+          cookie.expiresAt = now + Number(value) * 1000;
+          break;
+        case 'expires':
+          // Max-Age wins over Expires
+          if (!/max-age/i.test(header)) {
+            cookie.expiresAt = Date.parse(value);
+          }
+          break;
+        case 'path':
+          cookie.path = value;
+          break;
+      }
+    }
+
+    if (cookie.expiresAt !== undefined && cookie.expiresAt <= now) {
+      this.cookies.delete(cookie.name);
+    } else {
+      this.cookies.set(cookie.name, cookie);
+    }
+  }
+
+  /**
+   * Get the value of an unexpired cookie
+   */
+  public get(name: string): string | undefined {
+    return this.getCookie(name)?.value;
+  }
+
+  /**
+   * Get an unexpired cookie including its expiry
+   */
+  public getCookie(name: string): SessionCookie | undefined {
+    const cookie = this.cookies.get(name);
+    if (cookie?.expiresAt !== undefined && cookie.expiresAt <= Date.now()) {
+      this.cookies.delete(name);
+      return undefined;
+    }
+    return cookie;
+  }
+
+  /**
+   * Cookie request header value, or undefined when the jar is empty
+   */
+  public getCookieHeader(): string | undefined {
+    const header = this.toJSON()
+      .map(cookie => `${cookie.name}=${cookie.value}`)
+      .join('; ');
+    return header || undefined;
+  }
+
+  /**
+   * Replace the jar contents with persisted cookies
+   */
+  public load(cookies: SessionCookie[] = []): void {
+    this.cookies.clear();
+    cookies.forEach(cookie => this.cookies.set(cookie.name, { ...cookie }));
+  }
+
+  /**
+   * Unexpired cookies, for persistence
+   */
+  public toJSON(): SessionCookie[] {
+    return [...this.cookies.keys()]
+      .map(name => this.getCookie(name))
+      .filter((cookie): cookie is SessionCookie => cookie !== undefined);
+  }
+
+  public clear(): void {
+    this.cookies.clear();
+  }
+}
+
 export class HttpClient {
   private client: AxiosInstance;
   private rateLimiter: RateLimiter;
   private config: TradeRepublicConfig;
+  private cookieJar: CookieJar;
 
-  constructor(config: TradeRepublicConfig) {
+  constructor(config: TradeRepublicConfig, cookieJar: CookieJar = new CookieJar()) {
     this.config = config;
+    this.cookieJar = cookieJar;
     this.rateLimiter = new RateLimiter(config.rateLimitRequests, config.rateLimitWindow);
 
     this.client = axios.create({
@@ -72,6 +182,12 @@ export class HttpClient {
         // Add request ID for tracing
         config.headers['X-Request-ID'] = this.generateRequestId();
 
+        // Replay session cookies unless the caller set its own
+        const cookieHeader = this.cookieJar.getCookieHeader();
+        if (cookieHeader && !config.headers.Cookie) {
+          config.headers.Cookie = cookieHeader;
+        }
+
         logger.debug('HTTP Request', {
           method: config.method?.toUpperCase(),
           url: config.url,
@@ -89,6 +205,7 @@ export class HttpClient {
     // Response interceptor for logging and error handling
     this.client.interceptors.response.use(
       response => {
+        this.cookieJar.capture(response.headers['set-cookie']);
         logger.debug('HTTP Response', {
           status: response.status,
           requestId: response.config.headers['X-Request-ID'],
@@ -98,6 +215,7 @@ export class HttpClient {
       },
       error => {
         if (error.response) {
+          this.cookieJar.capture(error.response.headers?.['set-cookie']);
           logger.warn('HTTP Error Response', {
             status: error.response.status,
             statusText: error.response.statusText,
@@ -118,6 +236,13 @@ export class HttpClient {
     );
   }
 
+  /**
+   * Cookie jar replayed on every request
+   */
+  public get cookies(): CookieJar {
+    return this.cookieJar;
+  }
+
   /**
    * Set authorization header
    */
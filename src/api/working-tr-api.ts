@@ -4,11 +4,20 @@
  * Based on discovered working endpoints from API testing
  */
 
-import { HttpClient } from './http-client.js';
+import { HttpClient, CookieJar } from './http-client.js';
 import { DEFAULT_CONFIG } from '../config/config.js';
 import type { TradeRepublicConfig } from '../config/config.js';
-import type { LoginCredentials, AuthSession, MFAChallenge, MFAResponse } from '../types/auth.js';
+import type {
+  LoginCredentials,
+  AuthSession,
+  AuthToken,
+  DeviceKeys,
+  MFAChallenge,
+  MFAResponse,
+} from '../types/auth.js';
+import { AuthenticationError, SessionExpiredError } from '../types/auth.js';
 import { logger } from '../utils/logger.js';
+import { generateDeviceKeys, createSignedHeaders } from '../auth/device-keys.js';
 
 export interface TRAuthResponse {
   processId?: string;
@@ -16,6 +25,7 @@ export interface TRAuthResponse {
   '2fa'?: string;
   accessToken?: string;
   refreshToken?: string;
+  sessionToken?: string;
   tokenType?: string;
   expiresIn?: number;
   errors?: Array<{
@@ -25,17 +35,44 @@ export interface TRAuthResponse {
   }>;
 }
 
+/**
+ * Result of the signed app login, errors are returned rather than thrown
+ */
+export interface TRDeviceLoginResponse {
+  data?: {
+    sessionToken: string;
+    refreshToken: string;
+    trackingId?: string;
+  };
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+/**
+ * Lifetime TR gives web session tokens when the response does not say otherwise
+ */
+const DEFAULT_SESSION_SECONDS = 290;
+
 export class WorkingTradeRepublicAPI {
   private httpClient: HttpClient;
   private config: TradeRepublicConfig;
   private baseUrl: string;
 
-  constructor(config?: Partial<TradeRepublicConfig>) {
+  constructor(config?: Partial<TradeRepublicConfig>, cookieJar?: CookieJar) {
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.httpClient = new HttpClient(this.config);
+    this.httpClient = new HttpClient(this.config, cookieJar);
     this.baseUrl = this.config.apiUrl;
   }
 
+  /**
+   * Session cookies captured from login and refresh responses
+   */
+  get cookies(): CookieJar {
+    return this.httpClient.cookies;
+  }
+
   /**
    * Initiate authentication - triggers 2FA (SMS or APP)
    */
@@ -59,6 +96,7 @@ export class WorkingTradeRepublicAPI {
       });
 
       const data: TRAuthResponse = await response.json();
+      this.cookies.capture(response.headers.getSetCookie());
       
       if (!response.ok) {
         if (data.errors && data.errors[0]?.errorCode === 'TOO_MANY_REQUESTS') {
@@ -115,16 +153,20 @@ export class WorkingTradeRepublicAPI {
         })
       });
 
-      const data: TRAuthResponse = await response.json();
+      const data: TRAuthResponse = await response.json().catch(() => ({}));
+      this.cookies.capture(response.headers.getSetCookie());
+
+      // The web login hands out the session as cookies, older responses as JSON
+      const accessToken = data.accessToken ?? this.cookies.get('tr_session');
       
-      if (!response.ok || !data.accessToken) {
+      if (!response.ok || !accessToken) {
         throw new Error(`2FA completion failed: ${data.errors?.[0]?.errorCode || response.statusText}`);
       }
 
       // Extract user ID from JWT token
       let userId = 'unknown-user';
       try {
-        const tokenPayload = JSON.parse(atob(data.accessToken.split('.')[1]));
+        const tokenPayload = JSON.parse(atob(accessToken.split('.')[1]));
         userId = tokenPayload.sub || tokenPayload.userId || 'unknown-user';
       } catch (e) {
         logger.warn('Could not extract user ID from token');
@@ -132,15 +174,16 @@ export class WorkingTradeRepublicAPI {
 
       const session: AuthSession = {
         token: {
-          accessToken: data.accessToken,
-          refreshToken: data.refreshToken || '',
-          expiresAt: Date.now() + (data.expiresIn || 3600) * 1000,
+          accessToken,
+          refreshToken: data.refreshToken ?? this.cookies.get('tr_refresh') ?? '',
+          expiresAt: this.getExpiresAt(data, 3600),
           tokenType: 'Bearer' as const,
         },
         userId: userId,
         sessionId: processId,
         createdAt: Date.now(),
         lastActivity: Date.now(),
+        cookies: this.cookies.toJSON(),
       };
 
       logger.info('Authentication completed successfully', { userId: session.userId });
@@ -174,4 +217,244 @@ export class WorkingTradeRepublicAPI {
     // Step 4: Complete authentication
     return this.completeAuth(authResult.processId, code);
   }
+
+  /**
+   * Extend the web session with the refresh token
+   */
+  async refreshSession(token: AuthToken): Promise<AuthToken> {
+    logger.debug('Refreshing Trade Republic web session...');
+
+    const response = await fetch(`${this.baseUrl}/api/v1/auth/web/session`, {
+      method: 'GET',
+      headers: this.getHeaders({
+        Authorization: `Bearer ${token.refreshToken}`,
+        Cookie: this.cookies.getCookieHeader() ?? `tr_refresh=${token.refreshToken}`,
+      }),
+    });
+
+    const data: TRAuthResponse = await response.json().catch(() => ({}));
+    this.cookies.capture(response.headers.getSetCookie());
+
+    if (response.status === 401 || response.status === 403) {
+      throw new SessionExpiredError(
+        `Session refresh rejected: ${data.errors?.[0]?.errorCode ?? response.status}`
+      );
+    }
+
+    const accessToken = data.accessToken ?? data.sessionToken ?? this.cookies.get('tr_session');
+    if (!response.ok || !accessToken) {
+      throw new AuthenticationError(
+        `Session refresh failed: ${data.errors?.[0]?.errorCode ?? response.statusText}`,
+        'REFRESH_FAILED'
+      );
+    }
+
+    return {
+      accessToken,
+      refreshToken: data.refreshToken ?? this.cookies.get('tr_refresh') ?? token.refreshToken,
+      expiresAt: this.getExpiresAt(data, DEFAULT_SESSION_SECONDS),
+      tokenType: 'Bearer',
+    };
+  }
+
+  /**
+   * Invalidate the web session on the server
+   */
+  async logout(token: AuthToken): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/api/v1/auth/web/logout`, {
+      method: 'POST',
+      headers: this.getHeaders({
+        Authorization: `Bearer ${token.accessToken}`,
+        Cookie:
+          this.cookies.getCookieHeader() ??
+          `tr_session=${token.accessToken}; tr_refresh=${token.refreshToken}`,
+      }),
+    });
+    this.cookies.clear();
+
+    // An already expired session counts as logged out
+    if (!response.ok && response.status !== 401) {
+      throw new Error(`Logout failed: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Check whether an access token is still accepted by the server
+   */
+  async validateSession(accessToken: string): Promise<{ success: boolean; status: number }> {
+    const response = await fetch(`${this.baseUrl}/api/v2/auth/account`, {
+      method: 'GET',
+      headers: this.getHeaders({
+        Authorization: `Bearer ${accessToken}`,
+        Cookie: this.cookies.getCookieHeader() ?? `tr_session=${accessToken}`,
+      }),
+    });
+
+    return { success: response.ok, status: response.status };
+  }
+
+  /**
+   * Check whether the API host is reachable
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await fetch(this.baseUrl, { method: 'GET', headers: this.getHeaders() });
+      return true;
+    } catch (error) {
+      logger.warn('Trade Republic API not reachable', { error });
+      return false;
+    }
+  }
+
+  /**
+   * Start pairing this device; TR sends a 4-digit code to the app
+   */
+  async initiateDeviceReset(credentials: LoginCredentials): Promise<string> {
+    logger.info('Requesting device reset...');
+
+    const response = await fetch(`${this.baseUrl}/api/v1/auth/account/reset/device`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({
+        phoneNumber: credentials.username.replace(/\s/g, ''),
+        pin: credentials.password,
+      }),
+    });
+
+    const data: TRAuthResponse = await response.json().catch(() => ({}));
+
+    if (!response.ok || !data.processId) {
+      throw new AuthenticationError(
+        `Device reset failed: ${data.errors?.[0]?.errorCode ?? response.statusText}`,
+        'DEVICE_RESET_FAILED'
+      );
+    }
+
+    return data.processId;
+  }
+
+  /**
+   * Finish pairing with the code from the app and register a new device key
+   */
+  async completeDeviceReset(processId: string, code: string): Promise<DeviceKeys> {
+    const deviceKeys = generateDeviceKeys();
+
+    const response = await fetch(
+      `${this.baseUrl}/api/v1/auth/account/reset/device/${processId}/key`,
+      {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify({ code, deviceKey: deviceKeys.publicKey }),
+      }
+    );
+
+    if (!response.ok) {
+      const data: TRAuthResponse = await response.json().catch(() => ({}));
+      throw new AuthenticationError(
+        `Device pairing failed: ${data.errors?.[0]?.errorCode ?? response.statusText}`,
+        'DEVICE_PAIRING_FAILED'
+      );
+    }
+
+    logger.info('Device key registered', { deviceId: deviceKeys.deviceId });
+    return deviceKeys;
+  }
+
+  /**
+   * App login signed with the paired device key, no 2FA prompt needed
+   */
+  async loginWithDeviceKeys(
+    credentials: LoginCredentials,
+    deviceKeys: DeviceKeys
+  ): Promise<TRDeviceLoginResponse> {
+    const body = JSON.stringify({
+      phoneNumber: credentials.username.replace(/\s/g, ''),
+      pin: credentials.password,
+    });
+
+    const response = await fetch(`${this.baseUrl}/api/v1/auth/login`, {
+      method: 'POST',
+      headers: this.getHeaders({ ...createSignedHeaders(deviceKeys, body) }),
+      body,
+    });
+
+    const data: TRAuthResponse = await response.json().catch(() => ({}));
+
+    if (!response.ok || !data.sessionToken) {
+      const errorCode = data.errors?.[0]?.errorCode ?? `HTTP_${response.status}`;
+      return {
+        error: {
+          code: errorCode,
+          message: data.errors?.[0]?.errorMessage ?? `Device login failed: ${errorCode}`,
+        },
+      };
+    }
+
+    return {
+      data: {
+        sessionToken: data.sessionToken,
+        refreshToken: data.refreshToken ?? '',
+        trackingId: response.headers.get('x-tracking-id') ?? undefined,
+      },
+    };
+  }
+
+  /**
+   * Extend an app session, signed with the device key
+   */
+  async refreshDeviceSession(token: AuthToken, deviceKeys: DeviceKeys): Promise<AuthToken> {
+    const response = await fetch(`${this.baseUrl}/api/v1/auth/session`, {
+      method: 'GET',
+      headers: this.getHeaders({
+        ...createSignedHeaders(deviceKeys, ''),
+        Authorization: `Bearer ${token.refreshToken}`,
+      }),
+    });
+
+    const data: TRAuthResponse = await response.json().catch(() => ({}));
+
+    if (response.status === 401 || response.status === 403) {
+      throw new SessionExpiredError(
+        `Session refresh rejected: ${data.errors?.[0]?.errorCode ?? response.status}`
+      );
+    }
+
+    if (!response.ok || !data.sessionToken) {
+      throw new AuthenticationError(
+        `Session refresh failed: ${data.errors?.[0]?.errorCode ?? response.statusText}`,
+        'REFRESH_FAILED'
+      );
+    }
+
+    return {
+      accessToken: data.sessionToken,
+      refreshToken: data.refreshToken ?? token.refreshToken,
+      expiresAt: Date.now() + (data.expiresIn ?? DEFAULT_SESSION_SECONDS) * 1000,
+      tokenType: 'Bearer',
+    };
+  }
+
+  /**
+   * Access token expiry from the response body, else from the tr_session cookie
+   */
+  private getExpiresAt(data: TRAuthResponse, fallbackSeconds: number): number {
+    if (data.expiresIn !== undefined) {
+      return Date.now() + data.expiresIn * 1000;
+    }
+    return this.cookies.getCookie('tr_session')?.expiresAt ?? Date.now() + fallbackSeconds * 1000;
+  }
+
+  /**
+   * Headers the web app sends with every request
+   */
+  private getHeaders(extra: Record<string, string> = {}): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'User-Agent': 'Trade-Republic-Connector/1.0.0',
+      Accept: 'application/json',
+      Origin: 'https://app.traderepublic.com',
+      Referer: 'https://app.traderepublic.com/',
+      ...extra,
+    };
+  }
 }
@@ -0,0 +1,176 @@
+/**
+ * Credential Store
+ *
+ * Pluggable persistence for sessions and device keys, with AES-256-GCM
+ * encryption at rest keyed by TR_ENCRYPTION_KEY
+ */
+
+import { readFile, writeFile, mkdir, unlink } from 'fs/promises';
+import { dirname } from 'path';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { CredentialStoreError } from '../types/auth.js';
+import { logger } from '../utils/logger.js';
+
+export type CredentialKey = 'session' | 'deviceKeys';
+
+export interface CredentialStore {
+  read<T>(key: CredentialKey): Promise<T | null>;
+  write<T>(key: CredentialKey, value: T): Promise<void>;
+  delete(key: CredentialKey): Promise<void>;
+}
+
+interface EncryptedEnvelope {
+  version: 1;
+  algorithm: 'aes-256-gcm';
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const ALGORITHM = 'aes-256-gcm';
+
+/**
+ * Keeps credentials in memory only, for tests and short-lived processes
+ */
+export class MemoryCredentialStore implements CredentialStore {
+  private values = new Map<CredentialKey, string>();
+
+  public async read<T>(key: CredentialKey): Promise<T | null> {
+    const value = this.values.get(key);
+    return value === undefined ? null : (JSON.parse(value) as T);
+  }
+
+  public async write<T>(key: CredentialKey, value: T): Promise<void> {
+    this.values.set(key, JSON.stringify(value));
+  }
+
+  public async delete(key: CredentialKey): Promise<void> {
+    this.values.delete(key);
+  }
+}
+
+/**
+ * Stores each credential as a plaintext JSON file readable only by the owner
+ */
+export class FileCredentialStore implements CredentialStore {
+  protected paths: Record<CredentialKey, string>;
+
+  constructor(paths: Record<CredentialKey, string>) {
+    this.paths = paths;
+  }
+
+  public async read<T>(key: CredentialKey): Promise<T | null> {
+    let contents: string;
+    try {
+      contents = await readFile(this.paths[key], 'utf-8');
+    } catch {
+      // File doesn't exist or is not readable
+      return null;
+    }
+
+    return this.deserialize<T>(key, contents);
+  }
+
+  public async write<T>(key: CredentialKey, value: T): Promise<void> {
+    const path = this.paths[key];
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, this.serialize(value), { mode: 0o600 });
+  }
+
+  public async delete(key: CredentialKey): Promise<void> {
+    try {
+      await unlink(this.paths[key]);
+    } catch {
+      // File might not exist
+    }
+  }
+
+  protected serialize<T>(value: T): string {
+    return JSON.stringify(value, null, 2);
+  }
+
+  protected async deserialize<T>(_key: CredentialKey, contents: string): Promise<T> {
+    return JSON.parse(contents) as T;
+  }
+}
+
+/**
+ * Encrypts each credential file with AES-256-GCM.
+ * Plaintext files written by earlier versions are re-written encrypted when first read.
+ */
+export class EncryptedFileCredentialStore extends FileCredentialStore {
+  private encryptionKey: string;
+
+  constructor(paths: Record<CredentialKey, string>, encryptionKey: string) {
+    super(paths);
+    if (!encryptionKey) {
+      throw new CredentialStoreError('An encryption key is required');
+    }
+    this.encryptionKey = encryptionKey;
+  }
+
+  protected serialize<T>(value: T): string {
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(ALGORITHM, this.deriveKey(salt), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(value), 'utf-8'), cipher.final()]);
+
+    const envelope: EncryptedEnvelope = {
+      version: 1,
+      algorithm: ALGORITHM,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+    return JSON.stringify(envelope);
+  }
+
+  protected async deserialize<T>(key: CredentialKey, contents: string): Promise<T> {
+    const parsed = JSON.parse(contents) as Partial<EncryptedEnvelope>;
+
+    if (parsed.algorithm !== ALGORITHM) {
+      logger.info('Migrating plaintext credentials to encrypted storage', { key });
+      await this.write(key, parsed);
+      return parsed as T;
+    }
+
+    try {
+      const decipher = createDecipheriv(
+        ALGORITHM,
+        this.deriveKey(Buffer.from(parsed.salt ?? '', 'base64')),
+        Buffer.from(parsed.iv ?? '', 'base64')
+      );
+      decipher.setAuthTag(Buffer.from(parsed.tag ?? '', 'base64'));
+      const data = Buffer.concat([
+        decipher.update(Buffer.from(parsed.data ?? '', 'base64')),
+        decipher.final(),
+      ]);
+      return JSON.parse(data.toString('utf-8')) as T;
+    } catch {
+      throw new CredentialStoreError(
+        `Cannot decrypt stored ${key}, was TR_ENCRYPTION_KEY changed?`
+      );
+    }
+  }
+
+  private deriveKey(salt: Buffer): Buffer {
+    return scryptSync(this.encryptionKey, salt, 32);
+  }
+}
+
+/**
+ * Encrypted file storage when a key is available, plaintext files otherwise
+ */
+export function createCredentialStore(
+  paths: Record<CredentialKey, string>,
+  encryptionKey?: string
+): CredentialStore {
+  if (encryptionKey) {
+    return new EncryptedFileCredentialStore(paths, encryptionKey);
+  }
+
+  logger.warn('TR_ENCRYPTION_KEY not set, credentials are stored unencrypted');
+  return new FileCredentialStore(paths);
+}
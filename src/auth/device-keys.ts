@@ -0,0 +1,88 @@
+/**
+ * Device Keys
+ *
+ * P-256 key pairs and request signing for the Trade Republic app login,
+ * following pytr: signatures are ECDSA/SHA-512 over "{timestamp}.{payload}"
+ */
+
+import { createPublicKey, createSign, createVerify, generateKeyPairSync, randomUUID } from 'crypto';
+import type { DeviceKeys } from '../types/auth.js';
+
+export interface SignedRequestHeaders {
+  'X-Zeta-Timestamp': string;
+  'X-Zeta-Signature': string;
+}
+
+/**
+ * Generate a new device key pair.
+ * The private key is kept as PKCS#8 PEM, the public key is the base64 uncompressed
+ * point TR expects when pairing.
+ */
+export function generateDeviceKeys(): DeviceKeys {
+  const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  const jwk = publicKey.export({ format: 'jwk' });
+
+  const point = Buffer.concat([
+    Buffer.from([0x04]),
+    Buffer.from(jwk.x ?? '', 'base64url'),
+    Buffer.from(jwk.y ?? '', 'base64url'),
+  ]);
+
+  return {
+    privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }).toString(),
+    publicKey: point.toString('base64'),
+    deviceId: randomUUID(),
+  };
+}
+
+/**
+ * Sign a request body with the device private key (DER signature, base64)
+ */
+export function signPayload(privateKey: string, timestamp: number, payload: string): string {
+  const signer = createSign('SHA512');
+  signer.update(`${timestamp}.${payload}`);
+  return signer.sign(privateKey).toString('base64');
+}
+
+/**
+ * Headers for a request signed the way the mobile app signs them
+ */
+export function createSignedHeaders(
+  deviceKeys: DeviceKeys,
+  payload: string,
+  timestamp: number = Date.now()
+): SignedRequestHeaders {
+  return {
+    'X-Zeta-Timestamp': String(timestamp),
+    'X-Zeta-Signature': signPayload(deviceKeys.privateKey, timestamp, payload),
+  };
+}
+
+/**
+ * Verify a signature against a base64 uncompressed public key
+ */
+export function verifySignature(
+  publicKey: string,
+  timestamp: number,
+  payload: string,
+  signature: string
+): boolean {
+  const point = Buffer.from(publicKey, 'base64');
+  if (point.length !== 65 || point[0] !== 0x04) {
+    return false;
+  }
+
+  const key = createPublicKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: point.subarray(1, 33).toString('base64url'),
+      y: point.subarray(33).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+
+  const verifier = createVerify('SHA512');
+  verifier.update(`${timestamp}.${payload}`);
+  return verifier.verify(key, Buffer.from(signature, 'base64'));
+}
@@ -4,8 +4,7 @@
  * Handles Trade Republic authentication, token management, and session persistence
  */
 
-import { writeFile, readFile, access } from 'fs/promises';
-import { join } from 'path';
+import { dirname, join } from 'path';
 import { homedir } from 'os';
 import type {
   LoginCredentials,
@@ -17,53 +16,78 @@ import type {
 } from '../types/auth';
 import { 
   AuthenticationError, 
-  TwoFactorRequiredError
+  TwoFactorRequiredError,
+  CredentialStoreError
 } from '../types/auth';
 import { DEFAULT_CONFIG } from '../config/config.js';
-import { HttpClient } from '../api/http-client.js';
+import type { TradeRepublicConfig } from '../config/config.js';
+import { HttpClient, CookieJar } from '../api/http-client.js';
+import { WorkingTradeRepublicAPI } from '../api/working-tr-api.js';
+import { loadEnvironmentConfig } from '../config/environment.js';
+import { createCredentialStore } from './credential-store.js';
+import type { CredentialStore } from './credential-store.js';
 import { logger } from '../utils/logger.js';
 
 export class AuthManager {
   private session?: AuthSession;
   private deviceKeys?: DeviceKeys;
   private credentialsPath: string;
-  private deviceKeysPath: string;
+  private store: CredentialStore;
   private httpClient: HttpClient;
+  private config: TradeRepublicConfig;
+  private api?: WorkingTradeRepublicAPI;
+  private cookieJar = new CookieJar();
 
-  constructor(credentialsPath?: string) {
+  constructor(credentialsPath?: string, config?: Partial<TradeRepublicConfig>) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
     this.credentialsPath = credentialsPath ?? join(homedir(), '.tr-connector', 'session.json');
-    this.deviceKeysPath = join(homedir(), '.tr-connector', 'device-keys.json');
-    this.httpClient = new HttpClient(DEFAULT_CONFIG);
+    // Device keys are kept next to the session file
+    this.store =
+      this.config.credentialStore ??
+      createCredentialStore(
+        {
+          session: this.credentialsPath,
+          deviceKeys: join(dirname(this.credentialsPath), 'device-keys.json'),
+        },
+        this.config.encryptionKey ?? loadEnvironmentConfig().encryptionKey
+      );
+    this.httpClient = new HttpClient(this.config, this.cookieJar);
+  }
+
+  /**
+   * Trade Republic HTTP API, created on first use
+   */
+  private get trApi(): WorkingTradeRepublicAPI {
+    this.api ??= new WorkingTradeRepublicAPI(this.config, this.cookieJar);
+    return this.api;
   }
 
   /**
-   * Initialize authentication - load device keys or guide through pairing
+   * Initialize authentication - load device keys and a persisted session
    */
   public async initialize(): Promise<void> {
     try {
-      // Try to load existing device keys
+      // Device keys are optional, the web login works without them
       const storedKeys = await this.loadDeviceKeys();
       this.deviceKeys = storedKeys || undefined;
       if (this.deviceKeys) {
         logger.info('✅ Device keys loaded from storage');
-      } else {
-        logger.info('⚠️  No device keys found. Device pairing required.');
-        throw new AuthenticationError(
-          'Device not paired. Please run the pairing process first.',
-          'DEVICE_NOT_PAIRED'
-        );
       }
 
-      // Try to load existing session
+      // Try to load existing session, extending it if only the access token expired
       const storedSession = await this.loadSession();
       if (storedSession && this.isSessionValid(storedSession)) {
         this.session = storedSession;
+        this.cookieJar.load(storedSession.cookies);
         logger.info('✅ Valid session loaded from storage');
+      } else if (storedSession?.token.refreshToken) {
+        this.session = storedSession;
+        this.cookieJar.load(storedSession.cookies);
+        if (await this.autoRefreshIfNeeded()) {
+          logger.info('✅ Stored session refreshed');
+        }
       }
     } catch (error) {
-      if (error instanceof AuthenticationError && error.code === 'DEVICE_NOT_PAIRED') {
-        throw error;
-      }
       logger.warn('Failed to initialize authentication', { error });
     }
   }
@@ -94,6 +118,7 @@ export class AuthManager {
         type: 'APP',
         message: 'Enter the 4-digit code from your Trade Republic app',
         expiresAt: Date.now() + 5 * 60 * 1000, // 5 minutes
+        length: 4,
       };
 
       return challenge;
@@ -117,11 +142,12 @@ export class AuthManager {
           type: 'APP',
           message: 'Enter the 4-digit code from your Trade Republic app',
           expiresAt: Date.now() + 5 * 60 * 1000,
+          length: 4,
         });
       }
 
-      // Complete device reset with TR API
-      const deviceKeys = await this.trApi.completeDeviceReset(response.code);
+      // Register a freshly generated device key; the process id is the challenge id
+      const deviceKeys = await this.trApi.completeDeviceReset(response.challengeId, response.code);
 
       // Store device keys securely
       this.deviceKeys = deviceKeys;
@@ -136,12 +162,13 @@ export class AuthManager {
   }
 
   /**
-   * Login with device keys (after pairing)
+   * Login with phone number and PIN.
+   * Paired devices log in directly with their signed device key; otherwise the web
+   * login ends in a TwoFactorRequiredError carrying the challenge for handleMFA().
+   * Device keys the server rejects are cleared and the web login is used instead.
    */
   public async login(credentials: LoginCredentials): Promise<AuthSession> {
     try {
-      logger.info('🔓 Logging in with device keys...');
-
       // Validate credentials format first
       if (!this.isValidPhoneNumber(credentials.username)) {
         throw new AuthenticationError('Invalid phone number format', 'INVALID_PHONE');
@@ -151,60 +178,99 @@ export class AuthManager {
         throw new AuthenticationError('Invalid PIN format', 'INVALID_PIN');
       }
 
-      // Check if device is paired
-      if (!this.deviceKeys) {
-        await this.initialize();
-        if (!this.deviceKeys) {
-          throw new AuthenticationError(
-            'Device not paired. Please run the pairing process first.',
-            'DEVICE_NOT_PAIRED'
-          );
+      this.deviceKeys ??= (await this.loadDeviceKeys()) ?? undefined;
+
+      if (this.deviceKeys) {
+        try {
+          return await this.loginWithDeviceKeys(credentials, this.deviceKeys);
+        } catch (error) {
+          if (!(error instanceof AuthenticationError)) {
+            throw error;
+          }
+          logger.warn('Device login rejected, clearing device keys', { code: error.code });
+          this.deviceKeys = undefined;
+          await this.clearPersistedDeviceKeys();
         }
       }
 
-      // Login with device keys
-      const response = await this.trApi.loginWithDeviceKeys(credentials, this.deviceKeys);
+      logger.info('🔓 Starting Trade Republic web login...');
 
-      if (response.error) {
-        throw new AuthenticationError(response.error.message, response.error.code);
-      }
+      const result = await this.trApi.initiateAuth({
+        ...credentials,
+        username: credentials.username.replace(/\s/g, ''),
+      });
+      const type = result.method === 'SMS' ? 'SMS' : 'APP';
 
-      if (!response.data) {
-        throw new AuthenticationError('No session data received', 'INVALID_RESPONSE');
-      }
+      const challenge: MFAChallenge = {
+        challengeId: result.processId,
+        type,
+        message: this.getMFAMessage(type),
+        expiresAt: Date.now() + result.countdown * 1000,
+        length: 4,
+      };
 
-      // Extract user ID from JWT token
-      let userId = 'unknown-user';
-      try {
-        const tokenPayload = JSON.parse(atob(response.data.sessionToken.split('.')[1]));
-        userId = tokenPayload.sub || 'unknown-user';
-      } catch (e) {
-        logger.warn('Could not extract user ID from token, using fallback');
+      logger.info('2FA challenge sent', { type, challengeId: challenge.challengeId });
+      throw new TwoFactorRequiredError('MFA authentication required', challenge);
+    } catch (error) {
+      if (!(error instanceof TwoFactorRequiredError)) {
+        logger.error('Login failed', { error: error instanceof Error ? error.message : error });
       }
+      throw error;
+    }
+  }
 
-      // Create session from response
-      const session: AuthSession = {
-        token: {
-          accessToken: response.data.sessionToken,
-          refreshToken: response.data.refreshToken,
-          expiresAt: Date.now() + 290 * 1000, // 290 seconds like Python implementation
-          tokenType: 'Bearer',
-        },
-        userId: userId,
-        sessionId: response.data.trackingId || `session-${Date.now()}`,
-        createdAt: Date.now(),
-        lastActivity: Date.now(),
-      };
+  /**
+   * App login signed with the paired device key
+   */
+  private async loginWithDeviceKeys(
+    credentials: LoginCredentials,
+    deviceKeys: DeviceKeys
+  ): Promise<AuthSession> {
+    logger.info('🔓 Logging in with device keys...');
 
-      this.session = session;
-      await this.persistSession(session);
+    const response = await this.trApi.loginWithDeviceKeys(
+      { ...credentials, username: credentials.username.replace(/\s/g, '') },
+      deviceKeys
+    );
 
-      logger.info('✅ Login successful with device keys');
-      return session;
-    } catch (error) {
-      logger.error('Login failed', { error: error instanceof Error ? error.message : error });
-      throw error;
+    if (response.error) {
+      throw new AuthenticationError(response.error.message, response.error.code);
+    }
+
+    if (!response.data) {
+      throw new AuthenticationError('No session data received', 'INVALID_RESPONSE');
     }
+
+    // Extract user ID from JWT token
+    let userId = 'unknown-user';
+    try {
+      const tokenPayload = JSON.parse(
+        Buffer.from(response.data.sessionToken.split('.')[1] ?? '', 'base64url').toString()
+      );
+      userId = tokenPayload.sub ?? 'unknown-user';
+    } catch {
+      logger.warn('Could not extract user ID from token, using fallback');
+    }
+
+    const session: AuthSession = {
+      token: {
+        accessToken: response.data.sessionToken,
+        refreshToken: response.data.refreshToken,
+        expiresAt: Date.now() + 290 * 1000, // 290 seconds like the Python implementation
+        tokenType: 'Bearer',
+      },
+      userId,
+      sessionId: response.data.trackingId ?? `session-${Date.now()}`,
+      createdAt: Date.now(),
+      lastActivity: Date.now(),
+      authMethod: 'device',
+    };
+
+    this.session = session;
+    await this.persistSession(session);
+
+    logger.info('✅ Login successful with device keys');
+    return session;
   }
 
   /**
@@ -213,11 +279,16 @@ export class AuthManager {
   public async logout(): Promise<void> {
     try {
       if (this.session) {
-        // Invalidate token on server
-        await this.invalidateToken(this.session.token);
+        // Invalidate token on server; the local session is dropped either way
+        await this.invalidateToken(this.session.token).catch(error => {
+          logger.warn('Server-side logout failed', {
+            error: error instanceof Error ? error.message : error,
+          });
+        });
 
-        // Clear local session
+        // Clear local session and its cookies
         this.session = undefined;
+        this.cookieJar.clear();
 
         // Remove persisted session
         await this.clearPersistedSession();
@@ -243,8 +314,9 @@ export class AuthManager {
 
       const refreshedToken = await this.performTokenRefresh(this.session.token);
 
-      // Update session with new token
+      // Update session with new token and the cookies that came with it
       this.session.token = refreshedToken;
+      this.session.cookies = this.cookieJar.toJSON();
       this.session.lastActivity = Date.now();
 
       // Persist updated session
@@ -256,7 +328,10 @@ export class AuthManager {
       logger.error('Token refresh failed', {
         error: error instanceof Error ? error.message : error,
       });
-      throw new AuthenticationError('Token refresh failed');
+      throw new AuthenticationError(
+        'Token refresh failed',
+        error instanceof AuthenticationError ? error.code : 'TOKEN_REFRESH_FAILED'
+      );
     }
   }
 
@@ -276,16 +351,14 @@ export class AuthManager {
         throw new AuthenticationError('MFA challenge expired');
       }
 
-      // Submit MFA response
-      const mfaResult = await this.submitMFA(response);
+      if (!this.isValidMFACode(response.code)) {
+        throw new AuthenticationError('Invalid MFA code format', 'INVALID_MFA_CODE');
+      }
 
-      // Create session after successful MFA
+      // Complete the web login; the process id is the challenge id
       const session: AuthSession = {
-        token: mfaResult.token,
-        userId: mfaResult.userId,
-        sessionId: mfaResult.sessionId,
-        createdAt: Date.now(),
-        lastActivity: Date.now(),
+        ...(await this.trApi.completeAuth(challenge.challengeId, response.code)),
+        authMethod: 'web',
       };
 
       this.session = session;
@@ -316,94 +389,34 @@ export class AuthManager {
   }
 
   /**
-   * Get authorization header value
+   * Session cookies, shared with every HTTP client of this manager
    */
-  public getAuthHeader(): string | null {
-    if (!this.session) {
-      return null;
-    }
-    return `${this.session.token.tokenType} ${this.session.token.accessToken}`;
+  public get cookies(): CookieJar {
+    return this.cookieJar;
   }
 
   /**
-   * Validate credentials format
+   * Cookie header value for the WebSocket handshake
    */
-  private validateCredentials(credentials: LoginCredentials): void {
-    if (!credentials.username || !credentials.password) {
-      throw new AuthenticationError('Username and password are required');
-    }
-
-    if (credentials.username.length < 3) {
-      throw new AuthenticationError('Invalid username format');
-    }
-
-    if (credentials.password.length < 6) {
-      throw new AuthenticationError('Password too short');
-    }
+  public getCookieHeader(): string | null {
+    return this.cookieJar.getCookieHeader() ?? null;
   }
 
   /**
-   * Perform initial login with phone number and PIN
+   * Check if the session can be extended with its refresh token
    */
-  private async performLogin(credentials: LoginCredentials): Promise<{
-    token?: AuthToken;
-    userId?: string;
-    sessionId?: string;
-    requiresMFA: boolean;
-    challenge?: MFAChallenge;
-  }> {
-    logger.debug('Initiating Trade Republic login', {
-      username: credentials.username.replace(/\d{4}$/, '****'),
-    });
-
-    try {
-      // Basic validation first
-      if (!credentials.username || !credentials.password) {
-        throw new AuthenticationError('Username and password are required', 'MISSING_CREDENTIALS');
-      }
-
-      // This would be the real Trade Republic API endpoint
-      // For now, we'll simulate the 2FA flow that TR actually uses
-      
-      // Step 1: Validate phone number and PIN format
-      if (!this.isValidPhoneNumber(credentials.username)) {
-        throw new AuthenticationError('Invalid phone number format', 'INVALID_PHONE');
-      }
-
-      if (!this.isValidPIN(credentials.password)) {
-        throw new AuthenticationError('Invalid PIN format', 'INVALID_PIN');
-      }
-
-      // Step 2: Send credentials to TR API (simulated)
-      // In reality, this would make an HTTP request to TR's auth endpoint
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
-      // Step 3: Generate MFA challenge based on user preference
-      const mfaMethod = credentials.preferredMfaMethod || 'APP'; // Default to APP
-      const challenge: MFAChallenge = {
-        challengeId: 'mfa_' + Date.now(),
-        type: mfaMethod,
-        message: this.getMFAMessage(mfaMethod),
-        expiresAt: Date.now() + 5 * 60 * 1000, // 5 minutes
-        length: mfaMethod === 'APP' ? 4 : 6 // APP codes are 4 digits, SMS are 6
-      };
-
-      logger.info('2FA challenge sent', { 
-        type: challenge.type,
-        challengeId: challenge.challengeId 
-      });
-
-      return {
-        requiresMFA: true,
-        challenge,
-      };
+  public canRefreshSession(): boolean {
+    return !!this.session?.token.refreshToken;
+  }
 
-    } catch (error) {
-      logger.error('Login request failed', { 
-        error: error instanceof Error ? error.message : error 
-      });
-      throw error;
+  /**
+   * Get authorization header value
+   */
+  public getAuthHeader(): string | null {
+    if (!this.session) {
+      return null;
     }
+    return `${this.session.token.tokenType} ${this.session.token.accessToken}`;
   }
 
   /**
@@ -427,72 +440,25 @@ export class AuthManager {
   /**
    * Invalidate token on server
    */
-  private async invalidateToken(_token: AuthToken): Promise<void> {
-    await new Promise(resolve => setTimeout(resolve, 200));
+  private async invalidateToken(token: AuthToken): Promise<void> {
+    await this.trApi.logout(token);
     logger.debug('Token invalidated on server');
   }
 
   /**
-   * Perform token refresh
+   * Perform token refresh against the web session endpoint
    */
   private async performTokenRefresh(token: AuthToken): Promise<AuthToken> {
-    await new Promise(resolve => setTimeout(resolve, 300));
-
-    return {
-      accessToken: 'refreshed_access_token_' + Date.now(),
-      refreshToken: token.refreshToken,
-      expiresAt: Date.now() + 60 * 60 * 1000,
-      tokenType: 'Bearer',
-    };
-  }
-
-  /**
-   * Submit MFA response (SMS/App token)
-   */
-  private async submitMFA(response: MFAResponse): Promise<{
-    token: AuthToken;
-    userId: string;
-    sessionId: string;
-  }> {
-    logger.debug('Submitting MFA response', { challengeId: response.challengeId });
-
-    try {
-      // Validate MFA code format
-      if (!this.isValidMFACode(response.code)) {
-        throw new AuthenticationError('Invalid MFA code format', 'INVALID_MFA_CODE');
-      }
-
-      // TODO: Send MFA response to actual Trade Republic API
-      // For now, simulate the API call
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      // Simulate successful MFA verification
-      // In reality, this would validate the code with TR's servers
-      if (response.code === '0000') {
-        throw new AuthenticationError('Invalid MFA code', 'MFA_CODE_INVALID');
-      }
-
-      // Generate realistic tokens after successful MFA
-      const userId = this.generateUserId(response.challengeId);
-      
-      return {
-        token: {
-          accessToken: 'tr_access_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9),
-          refreshToken: 'tr_refresh_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9),
-          expiresAt: Date.now() + 60 * 60 * 1000, // 1 hour
-          tokenType: 'Bearer',
-        },
-        userId,
-        sessionId: 'tr_session_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9),
-      };
+    if (!token.refreshToken) {
+      throw new AuthenticationError('No refresh token available', 'NO_REFRESH_TOKEN');
+    }
 
-    } catch (error) {
-      logger.error('MFA submission failed', {
-        error: error instanceof Error ? error.message : error,
-        challengeId: response.challengeId,
-      });
-      throw error;
+    // App sessions refresh with a signed request, web sessions through their cookies
+    if (this.session?.authMethod === 'device' && this.deviceKeys) {
+      return this.trApi.refreshDeviceSession(token, this.deviceKeys);
     }
+
+    return this.trApi.refreshSession(token);
   }
 
   /**
@@ -505,29 +471,12 @@ export class AuthManager {
   }
 
   /**
-   * Generate user ID from challenge
-   */
-  private generateUserId(challengeId: string): string {
-    // Extract timestamp and create a consistent user ID
-    const timestamp = challengeId.replace('mfa_', '');
-    return `user_${timestamp.substr(-8)}`;
-  }
-
-  /**
-   * Persist session to disk
+   * Persist session through the credential store
    */
   private async persistSession(session: AuthSession): Promise<void> {
     try {
-      const dir = this.credentialsPath.substring(0, this.credentialsPath.lastIndexOf('/'));
-
-      await import('fs/promises')
-        .then(fs => fs.mkdir(dir, { recursive: true }))
-        .catch(() => {});
-
-      const sessionData = JSON.stringify(session, null, 2);
-      await writeFile(this.credentialsPath, sessionData, { mode: 0o600 });
-
-      logger.debug('Session persisted to disk');
+      await this.store.write('session', session);
+      logger.debug('Session persisted');
     } catch (error) {
       logger.warn('Failed to persist session', {
         error: error instanceof Error ? error.message : error,
@@ -540,28 +489,20 @@ export class AuthManager {
    */
   private async clearPersistedSession(): Promise<void> {
     try {
-      await import('fs/promises').then(fs => fs.unlink(this.credentialsPath));
+      await this.store.delete('session');
       logger.debug('Persisted session cleared');
     } catch {
-      // File might not exist
+      // Nothing stored
     }
   }
 
   /**
-   * Persist device keys to disk
+   * Persist device keys through the credential store
    */
   private async persistDeviceKeys(deviceKeys: DeviceKeys): Promise<void> {
     try {
-      const dir = this.deviceKeysPath.substring(0, this.deviceKeysPath.lastIndexOf('/'));
-
-      await import('fs/promises')
-        .then(fs => fs.mkdir(dir, { recursive: true }))
-        .catch(() => {});
-
-      const keysData = JSON.stringify(deviceKeys, null, 2);
-      await writeFile(this.deviceKeysPath, keysData, { mode: 0o600 });
-
-      logger.debug('Device keys persisted to disk');
+      await this.store.write('deviceKeys', deviceKeys);
+      logger.debug('Device keys persisted');
     } catch (error) {
       logger.warn('Failed to persist device keys', {
         error: error instanceof Error ? error.message : error,
@@ -570,13 +511,14 @@ export class AuthManager {
   }
 
   /**
-   * Load device keys from disk
+   * Load device keys from the credential store
    */
   private async loadDeviceKeys(): Promise<DeviceKeys | null> {
     try {
-      await access(this.deviceKeysPath);
-      const keysData = await readFile(this.deviceKeysPath, 'utf-8');
-      const deviceKeys = JSON.parse(keysData) as DeviceKeys;
+      const deviceKeys = await this.store.read<DeviceKeys>('deviceKeys');
+      if (!deviceKeys) {
+        return null;
+      }
 
       // Validate device keys structure
       if (!deviceKeys.privateKey || !deviceKeys.publicKey) {
@@ -585,8 +527,10 @@ export class AuthManager {
       }
 
       return deviceKeys;
-    } catch {
-      // File doesn't exist or is not readable
+    } catch (error) {
+      if (error instanceof CredentialStoreError) {
+        logger.warn('Stored device keys unreadable', { error: error.message });
+      }
       return null;
     }
   }
@@ -596,21 +540,22 @@ export class AuthManager {
    */
   private async clearPersistedDeviceKeys(): Promise<void> {
     try {
-      await import('fs/promises').then(fs => fs.unlink(this.deviceKeysPath));
+      await this.store.delete('deviceKeys');
       logger.debug('Persisted device keys cleared');
     } catch {
-      // File might not exist
+      // Nothing stored
     }
   }
 
   /**
-   * Load session from disk
+   * Load session from the credential store
    */
   private async loadSession(): Promise<AuthSession | null> {
     try {
-      await access(this.credentialsPath);
-      const sessionData = await readFile(this.credentialsPath, 'utf-8');
-      const session = JSON.parse(sessionData) as AuthSession;
+      const session = await this.store.read<AuthSession>('session');
+      if (!session) {
+        return null;
+      }
 
       // Validate session structure
       if (!session.token || !session.userId || !session.sessionId) {
@@ -619,30 +564,24 @@ export class AuthManager {
       }
 
       return session;
-    } catch {
-      // File doesn't exist or is not readable
+    } catch (error) {
+      if (error instanceof CredentialStoreError) {
+        logger.warn('Stored session unreadable', { error: error.message });
+      }
       return null;
     }
   }
 
   /**
-   * Validate session integrity and expiration
+   * Validate session integrity and access token expiration.
+   * Sessions have no fixed maximum age, refreshing extends them for as long as TR allows.
    */
   private isSessionValid(session: AuthSession): boolean {
     if (!session.token || !session.userId || !session.sessionId) {
       return false;
     }
 
-    if (Date.now() >= session.token.expiresAt) {
-      return false;
-    }
-
-    const maxAge = 24 * 60 * 60 * 1000;
-    if (Date.now() - session.createdAt > maxAge) {
-      return false;
-    }
-
-    return true;
+    return Date.now() < session.token.expiresAt;
   }
 
   /**
@@ -780,18 +719,6 @@ export class AuthManager {
       this.session = undefined;
       await this.clearPersistedSession();
 
-      // Check if device is still paired
-      if (!this.deviceKeys) {
-        await this.initialize();
-        if (!this.deviceKeys) {
-          throw new AuthenticationError(
-            'Device pairing has been lost. Please complete device pairing again.',
-            'DEVICE_NOT_PAIRED'
-          );
-        }
-      }
-
-      // Attempt login with device keys
       try {
         const session = await this.login(credentials);
         logger.info('✅ Re-authentication successful');
@@ -854,14 +781,12 @@ export class AuthManager {
   /**
    * Get appropriate MFA message based on method
    */
-  private getMFAMessage(method: 'SMS' | 'APP' | 'EMAIL'): string {
+  private getMFAMessage(method: 'SMS' | 'APP'): string {
     switch (method) {
       case 'APP':
         return 'Enter the 4-digit code from your Trade Republic app';
       case 'SMS':
-        return 'Enter the 6-digit code sent to your phone via SMS';
-      case 'EMAIL':
-        return 'Enter the 6-digit code sent to your email';
+        return 'Enter the 4-digit code sent to your phone via SMS';
       default:
         return 'Enter the verification code';
     }
@@ -5,6 +5,7 @@
  */
 
 import type { TRWebSocketConfig } from '../websocket/tr-websocket';
+import type { CredentialStore } from '../auth/credential-store';
 
 export interface TradeRepublicConfig {
   // API Configuration
@@ -15,12 +16,17 @@ export interface TradeRepublicConfig {
 
   // Authentication
   credentialsPath?: string;
+  credentialStore?: CredentialStore; // Defaults to encrypted files when encryptionKey is set
+  encryptionKey?: string; // Falls back to TR_ENCRYPTION_KEY
   sessionPersistence: boolean;
   autoRefreshTokens: boolean;
 
   // WebSocket
   websocket: TRWebSocketConfig;
 
+  // Storage
+  databasePath?: string; // Production database used to cache historical prices
+
   // Rate Limiting
   rateLimitRequests: number;
   rateLimitWindow: number;
@@ -41,6 +47,7 @@ export const DEFAULT_CONFIG: TradeRepublicConfig = {
   timeout: 30000,
 
   credentialsPath: undefined,
+  databasePath: undefined,
   sessionPersistence: true,
   autoRefreshTokens: true,
 
@@ -50,6 +57,10 @@ export const DEFAULT_CONFIG: TradeRepublicConfig = {
     connectionTimeout: 30000,
     maxReconnectAttempts: 10,
     reconnectDelay: 5000,
+    maxReconnectDelay: 60000,
+    heartbeatInterval: 20000,
+    subscriptionTimeout: 0,
+    maxConcurrentSubscriptions: 50,
   },
 
   rateLimitRequests: 100,
@@ -9,6 +9,7 @@
 import Database from 'better-sqlite3';
 import { writeFile } from 'fs/promises';
 import path from 'path';
+import type { PriceTick } from '../types/market.js';
 
 export interface Asset {
   isin: string;
@@ -241,6 +242,47 @@ export class AssetDatabaseManager {
     console.log(`✅ Inserted ${priceDataList.length} price records`);
   }
 
+  /**
+   * Insert ticker quotes as price data, skipping ticks already stored for the same
+   * ISIN and time. The price is the last trade, or the bid/ask mid without one.
+   * Returns the number of rows written.
+   */
+  insertPriceTicks(ticks: PriceTick[], source: string = 'ticker'): number {
+    const stmt = this.db.prepare(`
+      INSERT INTO price_data (isin, timestamp, price, bid, ask, currency, source)
+      SELECT ?, ?, ?, ?, ?, 'EUR', ?
+      WHERE NOT EXISTS (
+        SELECT 1 FROM price_data WHERE isin = ? AND timestamp = ? AND source = ?
+      )
+    `);
+
+    const transaction = this.db.transaction((ticks: PriceTick[]) => {
+      let inserted = 0;
+      for (const tick of ticks) {
+        const mid =
+          tick.bid !== undefined && tick.ask !== undefined ? (tick.bid + tick.ask) / 2 : undefined;
+        const price = tick.last ?? mid;
+        if (price === undefined) {
+          continue;
+        }
+        inserted += stmt.run(
+          tick.isin,
+          tick.time,
+          price,
+          tick.bid ?? null,
+          tick.ask ?? null,
+          source,
+          tick.isin,
+          tick.time,
+          source
+        ).changes;
+      }
+      return inserted;
+    });
+
+    return transaction(ticks);
+  }
+
   /**
    * Get all assets
    */
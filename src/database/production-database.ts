@@ -14,6 +14,8 @@ import Database from 'better-sqlite3';
 import { writeFile } from 'fs/promises';
 import { join, dirname } from 'path';
 import { existsSync, mkdirSync } from 'fs';
+import type { Candle, PriceTick } from '../types/market.js';
+import type { LedgerQuery, LedgerTransaction } from '../types/ledger.js';
 
 // Comprehensive interfaces for production data
 export interface Account {
@@ -78,6 +80,19 @@ export interface Execution {
   createdAt?: string;
 }
 
+/**
+ * An execution joined with its order, as read by the cost-basis engine
+ */
+export interface TradeExecution {
+  id: string;
+  isin: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  fees: number;
+  timestamp: string;
+}
+
 export interface Instrument {
   isin: string;
   name: string;
@@ -130,6 +145,19 @@ export interface HistoricalPrice {
   createdAt?: string;
 }
 
+/**
+ * What a cached historical price request covered: its first aggregate and the end
+ * of its last closed aggregate
+ */
+export interface HistoryCoverage {
+  isin: string;
+  period: string;
+  timeframe: HistoricalPrice['timeframe'];
+  firstTimestamp: number;
+  lastEnd: number;
+  fetchedAt?: string;
+}
+
 export interface PortfolioPerformance {
   id?: number;
   accountId: string;
@@ -142,6 +170,27 @@ export interface PortfolioPerformance {
   createdAt?: string;
 }
 
+/**
+ * Holdings as captured on a day. Snapshots are only ever appended, unlike positions.
+ */
+export interface PortfolioSnapshot {
+  id?: number;
+  accountId: string;
+  date: string; // Local day, YYYY-MM-DD
+  cash?: number;
+  totalValue: number;
+  positions: SnapshotPosition[];
+  capturedAt?: string;
+}
+
+export interface SnapshotPosition {
+  isin: string;
+  quantity: number;
+  price: number;
+  marketValue: number;
+  averagePrice?: number;
+}
+
 export interface WatchlistItem {
   id?: number;
   accountId: string;
@@ -184,6 +233,7 @@ export interface CollectionLog {
   errorsCount: number;
   durationMs: number;
   errorDetails?: string;
+  checkpoint?: string; // Last item finished by a resumable run
   startedAt: string;
   completedAt?: string;
 }
@@ -283,6 +333,28 @@ export class ProductionDatabaseManager {
         FOREIGN KEY (order_id) REFERENCES orders(id)
       );
 
+      -- 4b. Account Transactions (timeline ledger)
+      CREATE TABLE IF NOT EXISTS transactions (
+        id TEXT PRIMARY KEY,
+        type TEXT,
+        event_type TEXT,
+        status TEXT,
+        timestamp TIMESTAMP,
+        title TEXT,
+        isin TEXT,
+        amount REAL,
+        currency TEXT,
+        quantity REAL,
+        price REAL,
+        fees REAL,
+        taxes REAL,
+        capital_gains_tax REAL,
+        solidarity_surcharge REAL,
+        church_tax REAL,
+        withholding_tax REAL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
       -- 5. Instruments Master Data
       CREATE TABLE IF NOT EXISTS instruments (
         isin TEXT PRIMARY KEY,
@@ -336,11 +408,23 @@ export class ProductionDatabaseManager {
         close REAL,
         volume REAL,
         adjusted_close REAL,
+        source TEXT DEFAULT 'server', -- 'live' for candles aggregated from ticks
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         FOREIGN KEY (isin) REFERENCES instruments(isin),
         UNIQUE(isin, timeframe, timestamp)
       );
 
+      -- 7b. Historical price requests served from prices_historical
+      CREATE TABLE IF NOT EXISTS price_history_coverage (
+        isin TEXT,
+        period TEXT,
+        timeframe TEXT,
+        first_timestamp INTEGER,
+        last_end INTEGER,
+        fetched_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (isin, period, timeframe)
+      );
+
       -- 8. Portfolio Performance History
       CREATE TABLE IF NOT EXISTS portfolio_performance (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -355,6 +439,29 @@ export class ProductionDatabaseManager {
         FOREIGN KEY (account_id) REFERENCES accounts(id)
       );
 
+      -- 8b. Daily Portfolio Snapshots (append-only)
+      CREATE TABLE IF NOT EXISTS portfolio_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        account_id TEXT,
+        snapshot_date TEXT,
+        cash REAL,
+        total_value REAL,
+        captured_at TIMESTAMP,
+        FOREIGN KEY (account_id) REFERENCES accounts(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS portfolio_snapshot_positions (
+        snapshot_id INTEGER,
+        isin TEXT,
+        quantity REAL,
+        price REAL,
+        market_value REAL,
+        average_price REAL,
+        PRIMARY KEY (snapshot_id, isin),
+        FOREIGN KEY (snapshot_id) REFERENCES portfolio_snapshots(id),
+        FOREIGN KEY (isin) REFERENCES instruments(isin)
+      );
+
       -- 9. Watchlist
       CREATE TABLE IF NOT EXISTS watchlist (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -405,6 +512,7 @@ export class ProductionDatabaseManager {
         errors_count INTEGER,
         duration_ms INTEGER,
         error_details TEXT,
+        checkpoint TEXT,
         started_at TIMESTAMP,
         completed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       );
@@ -421,12 +529,34 @@ export class ProductionDatabaseManager {
       CREATE INDEX IF NOT EXISTS idx_prices_historical_timestamp ON prices_historical(timestamp);
       CREATE INDEX IF NOT EXISTS idx_news_published ON news(published_at);
       CREATE INDEX IF NOT EXISTS idx_watchlist_account ON watchlist(account_id);
+      CREATE INDEX IF NOT EXISTS idx_transactions_timestamp ON transactions(timestamp);
+      CREATE INDEX IF NOT EXISTS idx_transactions_isin ON transactions(isin);
+      CREATE INDEX IF NOT EXISTS idx_portfolio_snapshots_account_date ON portfolio_snapshots(account_id, snapshot_date);
     `;
 
     this.db.exec(schema);
+    this.addMissingColumns();
     console.log('✅ Production database tables initialized');
   }
 
+  /**
+   * Columns added after a table was first created; CREATE TABLE IF NOT EXISTS leaves
+   * existing databases untouched
+   */
+  private addMissingColumns(): void {
+    const added: [table: string, column: string, definition: string][] = [
+      ['collection_logs', 'checkpoint', 'TEXT'],
+      ['prices_historical', 'source', "TEXT DEFAULT 'server'"],
+    ];
+
+    for (const [table, column, definition] of added) {
+      const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+      if (!columns.some(existing => existing.name === column)) {
+        this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      }
+    }
+  }
+
   // Account Methods
   insertAccount(account: Account): void {
     const stmt = this.db.prepare(`
@@ -578,8 +708,185 @@ export class ProductionDatabaseManager {
     );
   }
 
+  /**
+   * Insert ticker quotes, skipping ticks already stored for the same ISIN and time.
+   * Returns the number of rows written.
+   */
+  insertPriceTicks(ticks: PriceTick[]): number {
+    const ensureInstrument = this.db.prepare('INSERT OR IGNORE INTO instruments (isin) VALUES (?)');
+    const stmt = this.db.prepare(`
+      INSERT INTO prices_realtime (isin, bid, ask, last, spread, timestamp)
+      SELECT ?, ?, ?, ?, ?, ?
+      WHERE NOT EXISTS (SELECT 1 FROM prices_realtime WHERE isin = ? AND timestamp = ?)
+    `);
+
+    const transaction = this.db.transaction((ticks: PriceTick[]) => {
+      let inserted = 0;
+      for (const tick of ticks) {
+        const timestamp = new Date(tick.time).toISOString();
+        const spread =
+          tick.bid !== undefined && tick.ask !== undefined ? tick.ask - tick.bid : null;
+        ensureInstrument.run(tick.isin);
+        inserted += stmt.run(
+          tick.isin,
+          tick.bid ?? null,
+          tick.ask ?? null,
+          tick.last ?? null,
+          spread,
+          timestamp,
+          tick.isin,
+          timestamp
+        ).changes;
+      }
+      return inserted;
+    });
+
+    return transaction(ticks);
+  }
+
+  /**
+   * Store closed live candles in prices_historical, marked with source 'live'; candles
+   * already stored are kept. They may cover only part of their period, so historical
+   * price reads leave them out and server aggregates replace them. Returns the number
+   * of rows written.
+   */
+  insertCandles(candles: Candle[]): number {
+    const ensureInstrument = this.db.prepare('INSERT OR IGNORE INTO instruments (isin) VALUES (?)');
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO prices_historical
+      (isin, timeframe, timestamp, open, high, low, close, volume, source)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'live')
+    `);
+
+    const transaction = this.db.transaction((candles: Candle[]) => {
+      let inserted = 0;
+      for (const candle of candles) {
+        ensureInstrument.run(candle.isin);
+        inserted += stmt.run(
+          candle.isin,
+          candle.timeframe,
+          new Date(candle.timestamp).toISOString(),
+          candle.open,
+          candle.high,
+          candle.low,
+          candle.close,
+          candle.volume ?? null
+        ).changes;
+      }
+      return inserted;
+    });
+
+    return transaction(candles);
+  }
+
+  /**
+   * Store the closed aggregates of a historical price request together with what it
+   * covered, replacing earlier values for the same candles
+   */
+  saveHistoricalPrices(prices: HistoricalPrice[], coverage: HistoryCoverage): void {
+    const ensureInstrument = this.db.prepare('INSERT OR IGNORE INTO instruments (isin) VALUES (?)');
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO prices_historical
+      (isin, timeframe, timestamp, open, high, low, close, volume, adjusted_close)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const coverageStmt = this.db.prepare(`
+      INSERT OR REPLACE INTO price_history_coverage
+      (isin, period, timeframe, first_timestamp, last_end, fetched_at)
+      VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+
+    const transaction = this.db.transaction((prices: HistoricalPrice[]) => {
+      ensureInstrument.run(coverage.isin);
+      for (const price of prices) {
+        stmt.run(
+          price.isin,
+          price.timeframe,
+          price.timestamp,
+          price.open,
+          price.high,
+          price.low,
+          price.close,
+          price.volume ?? null,
+          price.adjustedClose ?? null
+        );
+      }
+      coverageStmt.run(
+        coverage.isin,
+        coverage.period,
+        coverage.timeframe,
+        coverage.firstTimestamp,
+        coverage.lastEnd
+      );
+    });
+
+    transaction(prices);
+  }
+
+  getHistoryCoverage(
+    isin: string,
+    period: string,
+    timeframe: HistoricalPrice['timeframe']
+  ): HistoryCoverage | undefined {
+    const stmt = this.db.prepare(`
+      SELECT isin, period, timeframe, first_timestamp AS firstTimestamp, last_end AS lastEnd,
+             fetched_at AS fetchedAt
+      FROM price_history_coverage
+      WHERE isin = ? AND period = ? AND timeframe = ?
+    `);
+    return stmt.get(isin, period, timeframe) as HistoryCoverage | undefined;
+  }
+
+  /**
+   * Stored server candles of one timeframe starting in [from, until), oldest first
+   */
+  getHistoricalPrices(
+    isin: string,
+    timeframe: HistoricalPrice['timeframe'],
+    from: number,
+    until: number
+  ): HistoricalPrice[] {
+    return this.getStoredCandles(isin, timeframe, from, until, false);
+  }
+
+  /**
+   * Live candles from insertCandles starting in [from, until), oldest first
+   */
+  getLiveCandles(
+    isin: string,
+    timeframe: HistoricalPrice['timeframe'],
+    from: number,
+    until: number
+  ): HistoricalPrice[] {
+    return this.getStoredCandles(isin, timeframe, from, until, true);
+  }
+
+  private getStoredCandles(
+    isin: string,
+    timeframe: HistoricalPrice['timeframe'],
+    from: number,
+    until: number,
+    live: boolean
+  ): HistoricalPrice[] {
+    const stmt = this.db.prepare(`
+      SELECT isin, timeframe, timestamp, open, high, low, close, volume,
+             adjusted_close AS adjustedClose
+      FROM prices_historical
+      WHERE isin = ? AND timeframe = ? AND timestamp >= ? AND timestamp < ?
+        AND source ${live ? "= 'live'" : "IS NOT 'live'"}
+      ORDER BY timestamp
+    `);
+    return stmt.all(
+      isin,
+      timeframe,
+      new Date(from).toISOString(),
+      new Date(until).toISOString()
+    ) as HistoricalPrice[];
+  }
+
   // Bulk insert methods for efficiency
   insertHistoricalPricesBulk(prices: HistoricalPrice[]): void {
+    const ensureInstrument = this.db.prepare('INSERT OR IGNORE INTO instruments (isin) VALUES (?)');
     const stmt = this.db.prepare(`
       INSERT OR IGNORE INTO prices_historical 
       (isin, timeframe, timestamp, open, high, low, close, volume, adjusted_close)
@@ -588,6 +895,7 @@ export class ProductionDatabaseManager {
     
     const transaction = this.db.transaction((prices: HistoricalPrice[]) => {
       for (const price of prices) {
+        ensureInstrument.run(price.isin);
         stmt.run(
           price.isin,
           price.timeframe,
@@ -605,6 +913,336 @@ export class ProductionDatabaseManager {
     transaction(prices);
   }
 
+  // Ledger Methods
+  /**
+   * Store timeline transactions, keeping rows already stored. Executed trades are also
+   * written to orders and executions. Returns the number of new transactions.
+   */
+  insertTransactions(transactions: LedgerTransaction[]): number {
+    const ensureInstrument = this.db.prepare('INSERT OR IGNORE INTO instruments (isin) VALUES (?)');
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO transactions
+      (id, type, event_type, status, timestamp, title, isin, amount, currency, quantity, price,
+       fees, taxes, capital_gains_tax, solidarity_surcharge, church_tax, withholding_tax)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const orderStmt = this.db.prepare(`
+      INSERT OR IGNORE INTO orders
+      (id, isin, order_type, side, status, quantity, executed_quantity, executed_price,
+       total_value, fees, order_timestamp, execution_timestamp)
+      VALUES (?, ?, 'market', ?, 'executed', ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const executionStmt = this.db.prepare(`
+      INSERT OR IGNORE INTO executions
+      (id, order_id, price, quantity, value, fees, execution_timestamp)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const transaction = this.db.transaction((transactions: LedgerTransaction[]) => {
+      let inserted = 0;
+      for (const tx of transactions) {
+        const changes = stmt.run(
+          tx.id,
+          tx.type,
+          tx.eventType ?? null,
+          tx.status ?? null,
+          tx.timestamp,
+          tx.title,
+          tx.isin ?? null,
+          tx.amount,
+          tx.currency,
+          tx.quantity ?? null,
+          tx.price ?? null,
+          tx.fees,
+          tx.taxes,
+          tx.capitalGainsTax ?? null,
+          tx.solidaritySurcharge ?? null,
+          tx.churchTax ?? null,
+          tx.withholdingTax ?? null
+        ).changes;
+        inserted += changes;
+
+        const isTrade = tx.type === 'buy' || tx.type === 'sell' || tx.type === 'savings_plan';
+        if (changes === 0 || !isTrade || !tx.isin || tx.quantity === undefined) {
+          continue;
+        }
+
+        // Without a price the gross value is rebuilt from the cash amount: fees and
+        // taxes are added to the cost of a buy and deducted from the proceeds of a sell
+        const side = tx.type === 'sell' ? 'sell' : 'buy';
+        const price = tx.price ?? null;
+        const gross =
+          side === 'sell'
+            ? tx.amount + tx.fees + tx.taxes
+            : Math.abs(tx.amount) - tx.fees - tx.taxes;
+        const value = price !== null ? price * tx.quantity : gross;
+        ensureInstrument.run(tx.isin);
+        orderStmt.run(
+          tx.id,
+          tx.isin,
+          side,
+          tx.quantity,
+          tx.quantity,
+          price,
+          Math.abs(tx.amount),
+          tx.fees,
+          tx.timestamp,
+          tx.timestamp
+        );
+        executionStmt.run(tx.id, tx.id, price, tx.quantity, value, tx.fees, tx.timestamp);
+      }
+      return inserted;
+    });
+
+    return transaction(transactions);
+  }
+
+  /**
+   * Stored transactions matching a query, oldest first
+   */
+  getTransactions(query: LedgerQuery = {}): LedgerTransaction[] {
+    const conditions: string[] = [];
+    const params: string[] = [];
+    if (query.isin) {
+      conditions.push('isin = ?');
+      params.push(query.isin);
+    }
+    if (query.types && query.types.length > 0) {
+      conditions.push(`type IN (${query.types.map(() => '?').join(',')})`);
+      params.push(...query.types);
+    }
+    if (query.from) {
+      conditions.push('timestamp >= ?');
+      params.push(query.from);
+    }
+    if (query.until) {
+      conditions.push('timestamp < ?');
+      params.push(query.until);
+    }
+
+    const stmt = this.db.prepare(`
+      SELECT id, type, event_type AS eventType, status, timestamp, title, isin, amount, currency,
+             quantity, price, fees, taxes, capital_gains_tax AS capitalGainsTax,
+             solidarity_surcharge AS solidaritySurcharge, church_tax AS churchTax,
+             withholding_tax AS withholdingTax
+      FROM transactions
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY timestamp, id
+    `);
+    return stmt.all(...params) as LedgerTransaction[];
+  }
+
+  /**
+   * Executed buys and sells, oldest first
+   */
+  getTradeExecutions(isin?: string): TradeExecution[] {
+    const stmt = this.db.prepare(`
+      SELECT e.id, o.isin, o.side, e.quantity, COALESCE(e.price, e.value / e.quantity) AS price,
+             COALESCE(e.fees, 0) AS fees, e.execution_timestamp AS timestamp
+      FROM executions e
+      JOIN orders o ON o.id = e.order_id
+      ${isin ? 'WHERE o.isin = ?' : ''}
+      ORDER BY e.execution_timestamp, e.id
+    `);
+    return (isin ? stmt.all(isin) : stmt.all()) as TradeExecution[];
+  }
+
+  getLatestTransactionTimestamp(): string | undefined {
+    const row = this.db.prepare('SELECT MAX(timestamp) AS timestamp FROM transactions').get() as {
+      timestamp: string | null;
+    };
+    return row.timestamp ?? undefined;
+  }
+
+  // Performance Methods
+  /**
+   * Store performance records, replacing earlier ones for the same account,
+   * timeframe and timestamp. Returns the number of rows written.
+   */
+  savePortfolioPerformance(records: PortfolioPerformance[]): number {
+    const ensureAccount = this.db.prepare('INSERT OR IGNORE INTO accounts (id) VALUES (?)');
+    const deleteStmt = this.db.prepare(`
+      DELETE FROM portfolio_performance
+      WHERE account_id = ? AND timeframe = ? AND timestamp = ?
+    `);
+    const stmt = this.db.prepare(`
+      INSERT INTO portfolio_performance
+      (account_id, timeframe, value, return_absolute, return_percentage, benchmark_return, timestamp)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const transaction = this.db.transaction((records: PortfolioPerformance[]) => {
+      let inserted = 0;
+      for (const record of records) {
+        ensureAccount.run(record.accountId);
+        deleteStmt.run(record.accountId, record.timeframe, record.timestamp);
+        inserted += stmt.run(
+          record.accountId,
+          record.timeframe,
+          record.value,
+          record.returnAbsolute,
+          record.returnPercentage,
+          record.benchmarkReturn ?? null,
+          record.timestamp
+        ).changes;
+      }
+      return inserted;
+    });
+
+    return transaction(records);
+  }
+
+  getPortfolioPerformance(
+    accountId: string,
+    timeframe: PortfolioPerformance['timeframe']
+  ): PortfolioPerformance[] {
+    const stmt = this.db.prepare(`
+      SELECT id, account_id AS accountId, timeframe, value, return_absolute AS returnAbsolute,
+             return_percentage AS returnPercentage, benchmark_return AS benchmarkReturn, timestamp
+      FROM portfolio_performance
+      WHERE account_id = ? AND timeframe = ?
+      ORDER BY timestamp
+    `);
+    return stmt.all(accountId, timeframe) as PortfolioPerformance[];
+  }
+
+  // Snapshot Methods
+  /**
+   * Append a snapshot with its positions; returns its id
+   */
+  insertPortfolioSnapshot(snapshot: PortfolioSnapshot): number {
+    const ensureAccount = this.db.prepare('INSERT OR IGNORE INTO accounts (id) VALUES (?)');
+    const ensureInstrument = this.db.prepare('INSERT OR IGNORE INTO instruments (isin) VALUES (?)');
+    const snapshotStmt = this.db.prepare(`
+      INSERT INTO portfolio_snapshots (account_id, snapshot_date, cash, total_value, captured_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    const positionStmt = this.db.prepare(`
+      INSERT INTO portfolio_snapshot_positions
+      (snapshot_id, isin, quantity, price, market_value, average_price)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    const transaction = this.db.transaction((snapshot: PortfolioSnapshot) => {
+      ensureAccount.run(snapshot.accountId);
+      const id = Number(
+        snapshotStmt.run(
+          snapshot.accountId,
+          snapshot.date,
+          snapshot.cash ?? null,
+          snapshot.totalValue,
+          snapshot.capturedAt ?? new Date().toISOString()
+        ).lastInsertRowid
+      );
+      for (const position of snapshot.positions) {
+        ensureInstrument.run(position.isin);
+        positionStmt.run(
+          id,
+          position.isin,
+          position.quantity,
+          position.price,
+          position.marketValue,
+          position.averagePrice ?? null
+        );
+      }
+      return id;
+    });
+
+    return transaction(snapshot);
+  }
+
+  /**
+   * The last snapshot captured on or before a day
+   */
+  getLatestPortfolioSnapshot(accountId: string, date: string): PortfolioSnapshot | undefined {
+    const snapshotStmt = this.db.prepare(`
+      SELECT id, account_id AS accountId, snapshot_date AS date, cash, total_value AS totalValue,
+             captured_at AS capturedAt
+      FROM portfolio_snapshots
+      WHERE account_id = ? AND snapshot_date <= ?
+      ORDER BY snapshot_date DESC, captured_at DESC, id DESC
+      LIMIT 1
+    `);
+    const positionStmt = this.db.prepare(`
+      SELECT isin, quantity, price, market_value AS marketValue, average_price AS averagePrice
+      FROM portfolio_snapshot_positions
+      WHERE snapshot_id = ?
+      ORDER BY isin
+    `);
+
+    const snapshot = snapshotStmt.get(accountId, date) as PortfolioSnapshot | undefined;
+    if (!snapshot) {
+      return undefined;
+    }
+
+    const positions = positionStmt.all(snapshot.id) as SnapshotPosition[];
+    return {
+      ...snapshot,
+      cash: snapshot.cash ?? undefined,
+      positions: positions.map(position => ({
+        ...position,
+        averagePrice: position.averagePrice ?? undefined,
+      })),
+    };
+  }
+
+  // Collection Log Methods
+  insertCollectionLog(log: CollectionLog): number {
+    const stmt = this.db.prepare(`
+      INSERT INTO collection_logs
+      (collection_type, status, records_collected, errors_count, duration_ms, error_details,
+       checkpoint, started_at, completed_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const result = stmt.run(
+      log.collectionType,
+      log.status,
+      log.recordsCollected,
+      log.errorsCount,
+      log.durationMs,
+      log.errorDetails ?? null,
+      log.checkpoint ?? null,
+      log.startedAt,
+      log.completedAt ?? null
+    );
+    return Number(result.lastInsertRowid);
+  }
+
+  updateCollectionLog(id: number, log: CollectionLog): void {
+    const stmt = this.db.prepare(`
+      UPDATE collection_logs
+      SET status = ?, records_collected = ?, errors_count = ?, duration_ms = ?,
+          error_details = ?, checkpoint = ?, completed_at = ?
+      WHERE id = ?
+    `);
+
+    stmt.run(
+      log.status,
+      log.recordsCollected,
+      log.errorsCount,
+      log.durationMs,
+      log.errorDetails ?? null,
+      log.checkpoint ?? null,
+      log.completedAt ?? null,
+      id
+    );
+  }
+
+  getLatestCollectionLog(collectionType: string): CollectionLog | undefined {
+    const stmt = this.db.prepare(`
+      SELECT id, collection_type AS collectionType, status, records_collected AS recordsCollected,
+             errors_count AS errorsCount, duration_ms AS durationMs,
+             error_details AS errorDetails, checkpoint, started_at AS startedAt,
+             completed_at AS completedAt
+      FROM collection_logs
+      WHERE collection_type = ?
+      ORDER BY id DESC
+      LIMIT 1
+    `);
+    return stmt.get(collectionType) as CollectionLog | undefined;
+  }
+
   // Query Methods
   getAccountSummary(accountId: string): Account | undefined {
     const stmt = this.db.prepare('SELECT * FROM accounts WHERE id = ?');
@@ -626,6 +1264,16 @@ export class ProductionDatabaseManager {
     return stmt.all(accountId, limit) as Order[];
   }
 
+  getInstrument(isin: string): Pick<Instrument, 'isin' | 'name' | 'type'> | undefined {
+    const stmt = this.db.prepare('SELECT isin, name, type FROM instruments WHERE isin = ?');
+    return stmt.get(isin) as Pick<Instrument, 'isin' | 'name' | 'type'> | undefined;
+  }
+
+  getInstrumentIsins(): string[] {
+    const stmt = this.db.prepare('SELECT isin FROM instruments WHERE is_active IS NOT 0 ORDER BY isin');
+    return (stmt.all() as { isin: string }[]).map(row => row.isin);
+  }
+
   getLatestPrices(isins: string[]): RealtimePrice[] {
     const placeholders = isins.map(() => '?').join(',');
     const stmt = this.db.prepare(`
@@ -720,8 +1368,8 @@ export class ProductionDatabaseManager {
   // Utility Methods
   getDatabaseStats(): any {
     const tables = [
-      'accounts', 'positions', 'orders', 'executions', 'instruments',
-      'prices_realtime', 'prices_historical', 'portfolio_performance',
+      'accounts', 'positions', 'orders', 'executions', 'transactions', 'instruments',
+      'prices_realtime', 'prices_historical', 'portfolio_performance', 'portfolio_snapshots',
       'watchlist', 'news', 'cash_positions', 'collection_logs'
     ];
     
@@ -7,6 +7,7 @@
 
 // Main exports
 export { TradeRepublicClient } from './api/client';
+export { SimplifiedTradeRepublicClient } from './api/client-simplified';
 export type { TradeRepublicConfig } from './config/config';
 
 // Configuration exports
@@ -15,18 +16,33 @@ export type { EnvironmentConfig } from './config/environment';
 
 // Authentication exports
 export { AuthManager } from './auth/manager';
+export {
+  MemoryCredentialStore,
+  FileCredentialStore,
+  EncryptedFileCredentialStore,
+  createCredentialStore,
+} from './auth/credential-store';
+export type { CredentialStore, CredentialKey } from './auth/credential-store';
+export {
+  generateDeviceKeys,
+  signPayload,
+  createSignedHeaders,
+  verifySignature,
+} from './auth/device-keys';
+export type { SignedRequestHeaders } from './auth/device-keys';
 export { 
   AuthenticationError, 
   TwoFactorRequiredError, 
   RateLimitError, 
-  SessionExpiredError 
+  SessionExpiredError,
+  CredentialStoreError
 } from './types/auth';
 
 // HTTP client exports
-export { HttpClient, RateLimiter } from './api/http-client';
+export { HttpClient, RateLimiter, CookieJar } from './api/http-client';
 
 // Portfolio exports
-// export { PortfolioManager } from './portfolio/manager'; // TODO: Create this
+export { PortfolioManager } from './portfolio/manager';
 
 // Utility exports
 export { logger } from './utils/logger';
@@ -37,7 +53,8 @@ export type { LogLevel } from './utils/logger';
 // export type { WebSocketConfig, Subscription } from './websocket/manager';
 
 // Trading exports
-// export { TradingManager } from './trading/manager'; // TODO: Create this
+export { TradingManager } from './trading/manager';
+export type { HistoricalPriceStore } from './trading/manager';
 export type {
   BuyOrderData,
   SellOrderData,
@@ -45,6 +62,8 @@ export type {
   OrderHistory,
   OrderHistoryFilters,
   RealTimePrice,
+  HistoricalPricePeriod,
+  HistoricalPriceResolution,
   HistoricalPricesResponse,
   MarketNewsResponse,
   WatchlistResponse,
@@ -60,7 +79,94 @@ export {
   InsufficientFundsError,
   MarketClosedError,
   InvalidOrderError,
+  OrderStatusUnknownError,
 } from './types/trading';
+export {
+  TRSubscriptionError,
+  TRRequestTimeoutError,
+  TRRequestQueueTimeoutError,
+  TRRequestInterruptedError,
+} from './types/websocket';
+export { SubscriptionStream } from './websocket/subscription-stream';
+export type { StreamOptions, StreamOverflowPolicy } from './websocket/subscription-stream';
+
+// Market data exports
+export { TickRecorder } from './market/tick-recorder';
+export { CandleAggregator } from './market/candle-aggregator';
+export type {
+  CandleSink,
+  CandleAggregatorOptions,
+  CandleAggregatorStats,
+} from './market/candle-aggregator';
+export { HistoricalBackfill } from './market/historical-backfill';
+export { getTradingSession, getLocalDate, LSX_TRADING_HOURS } from './market/trading-hours';
+export type { TradingSession } from './market/trading-hours';
+export type {
+  TickSource,
+  TickSink,
+  TickRecorderOptions,
+  TickRecorderStats,
+} from './market/tick-recorder';
+export type {
+  BackfillStore,
+  BackfillResult,
+  DateGap,
+  HistoricalBackfillOptions,
+} from './market/historical-backfill';
+
+// Ledger exports
+export {
+  TimelineImporter,
+  classifyTimelineEvent,
+  toLedgerTransaction,
+} from './ledger/timeline-importer';
+export type {
+  LedgerStore,
+  TimelineImporterOptions,
+  TimelineImportResult,
+} from './ledger/timeline-importer';
+
+// Analytics exports
+export { CostBasisEngine, calculateCostBasis } from './analytics/cost-basis';
+export { TaxReportGenerator } from './analytics/tax-report';
+export { toTaxReportJson, toTaxReportCsv, toTaxReportHtml } from './analytics/tax-report-format';
+export { PerformanceAnalyzer, xirr } from './analytics/performance';
+export type {
+  PortfolioHistoryStore,
+  PortfolioHistoryOptions,
+  PriceSource,
+  HistoricalHolding,
+  PortfolioState,
+  HoldingChange,
+  PortfolioDiff,
+} from './analytics/portfolio-history';
+export { PortfolioHistory } from './analytics/portfolio-history';
+export type {
+  TaxAssetClass,
+  FundType,
+  TaxReportStore,
+  TaxReportOptions,
+  TaxReport,
+  TaxReportLine,
+  TaxReportSale,
+  LossPot,
+  WithheldTaxes,
+  TaxEstimate,
+} from './analytics/tax-report';
+export type {
+  CostBasisMethod,
+  CostBasisOptions,
+  ExecutionStore,
+  Lot,
+  RealizedGain,
+  PositionCostBasis,
+} from './analytics/cost-basis';
+export type {
+  PerformanceStore,
+  PerformanceOptions,
+  EquityPoint,
+  PerformanceResult,
+} from './analytics/performance';
 
 // Asset data collection exports  
 // export { ComprehensiveAssetDataCollector } from './data/asset-collector'; // TODO: Check this
@@ -80,6 +186,7 @@ export type * from './types/portfolio';
 export type * from './types/market';
 export type * from './types/websocket';
 export type * from './types/trading';
+export type * from './types/ledger';
 
 // Version info
 export const VERSION = '1.0.0';
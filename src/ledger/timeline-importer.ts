@@ -0,0 +1,391 @@
+/**
+ * Timeline Importer
+ *
+ * Pages through the account timeline, loads each event's details and stores it as
+ * a normalized ledger transaction. Reruns stop paging at the cutoff checkpointed in
+ * collection_logs: the newest event of the last complete run, or the oldest event
+ * that was still pending then. A run cut short by maxPages or an error keeps its
+ * cursor, and the next run continues from there before the cutoff moves.
+ */
+
+import { logger } from '../utils/logger.js';
+import type { TradeRepublicWebSocket } from '../websocket/tr-websocket.js';
+import type {
+  TRTimelineDetail,
+  TRTimelineDetailSection,
+  TRTimelineTransaction,
+} from '../types/websocket.js';
+import type { LedgerEventType, LedgerTransaction } from '../types/ledger.js';
+import type { CollectionLog } from '../database/production-database.js';
+
+/**
+ * Transaction and progress storage; implemented by ProductionDatabaseManager
+ */
+export interface LedgerStore {
+  getLatestTransactionTimestamp(): string | undefined;
+  insertTransactions(transactions: LedgerTransaction[]): number;
+  insertCollectionLog(log: CollectionLog): number;
+  updateCollectionLog(id: number, log: CollectionLog): void;
+  getLatestCollectionLog(collectionType: string): CollectionLog | undefined;
+}
+
+export interface TimelineImporterOptions {
+  maxPages?: number; // Stop after this many timeline pages
+}
+
+export interface TimelineImportResult {
+  pages: number;
+  events: number;
+  imported: number;
+  skipped: number; // Cancelled, rejected or pending events
+  pending: number; // Not final yet; read again by the next run
+  complete: boolean; // False when maxPages ended the run before the cutoff
+}
+
+/**
+ * Progress of the import, stored as JSON in the collection log checkpoint
+ */
+interface TimelineCheckpoint {
+  cutoff?: string; // Events before this are all stored
+  after?: string; // Cursor of the next page of an unfinished run
+  newest?: string; // Newest event of the unfinished run
+  pending?: string; // Oldest event of the unfinished run that was not final
+}
+
+/**
+ * A row of a detail table, e.g. { title: 'Gebühr', detail: { text: '1,00 €' } }
+ */
+interface DetailRow {
+  title?: string;
+  detail?: { text?: string; displayValue?: { text?: string } };
+}
+
+/**
+ * Detail figures read from the tables of an event
+ */
+type DetailFigures = Pick<
+  LedgerTransaction,
+  'quantity' | 'price' | 'capitalGainsTax' | 'solidaritySurcharge' | 'churchTax' | 'withholdingTax'
+> & { fees?: number; taxes?: number };
+
+const TRADE_EVENTS = [
+  'ORDER_EXECUTED',
+  'TRADE_INVOICE',
+  'TRADE_CORRECTED',
+  'trading_trade_executed',
+];
+
+const EVENT_TYPES: Record<string, LedgerEventType> = {
+  SAVINGS_PLAN_EXECUTED: 'savings_plan',
+  SAVINGS_PLAN_INVOICE_CREATED: 'savings_plan',
+  trading_savingsplan_executed: 'savings_plan',
+  benefits_saveback_execution: 'savings_plan',
+  benefits_spare_change_execution: 'savings_plan',
+  CREDIT: 'dividend',
+  ssp_corporate_action_invoice_cash: 'dividend',
+  INTEREST_PAYOUT: 'interest',
+  INTEREST_PAYOUT_CREATED: 'interest',
+  INCOMING_TRANSFER: 'deposit',
+  INCOMING_TRANSFER_DELEGATION: 'deposit',
+  PAYMENT_INBOUND: 'deposit',
+  PAYMENT_INBOUND_SEPA_DIRECT_DEBIT: 'deposit',
+  PAYMENT_INBOUND_APPLE_PAY: 'deposit',
+  PAYMENT_INBOUND_GOOGLE_PAY: 'deposit',
+  PAYMENT_INBOUND_CREDIT_CARD: 'deposit',
+  OUTGOING_TRANSFER: 'withdrawal',
+  OUTGOING_TRANSFER_DELEGATION: 'withdrawal',
+  PAYMENT_OUTBOUND: 'withdrawal',
+  card_successful_atm_withdrawal: 'withdrawal',
+  card_successful_transaction: 'card_payment',
+  card_refund: 'card_payment',
+  card_order_billed: 'fee',
+  card_atm_fee: 'fee',
+  TAX_REFUND: 'tax',
+  ssp_tax_correction_invoice: 'tax',
+  PRE_DETERMINED_TAX_BASE: 'tax',
+  ssp_corporate_action_invoice_shares: 'corporate_action',
+  SHAREBOOKING: 'corporate_action',
+  SHAREBOOKING_TRANSACTIONAL: 'corporate_action',
+};
+
+/**
+ * Detail table row titles (German and English app languages) per figure
+ */
+const ROW_TITLES: Record<keyof DetailFigures, string[]> = {
+  quantity: ['aktien', 'anteile', 'anzahl', 'stück', 'shares', 'quantity'],
+  price: [
+    'aktienkurs',
+    'anteilspreis',
+    'kurs',
+    'preis',
+    'dividende pro aktie',
+    'share price',
+    'price',
+    'dividend per share',
+  ],
+  fees: ['gebühr', 'gebühren', 'fremdkostenzuschlag', 'fee', 'fees'],
+  taxes: ['steuer', 'steuern', 'tax', 'taxes'],
+  capitalGainsTax: ['kapitalertragsteuer', 'kapitalertragssteuer', 'capital gains tax'],
+  solidaritySurcharge: ['solidaritätszuschlag', 'solidarity surcharge'],
+  churchTax: ['kirchensteuer', 'church tax'],
+  withholdingTax: ['quellensteuer', 'withholding tax'],
+};
+
+const COLLECTION_TYPE = 'timeline_import';
+const EXECUTED_STATUSES = ['executed'];
+const FINAL_STATUSES = ['canceled', 'cancelled', 'rejected', 'failed', 'expired'];
+
+export class TimelineImporter {
+  private websocket: TradeRepublicWebSocket;
+  private store: LedgerStore;
+  private maxPages: number;
+
+  constructor(
+    websocket: TradeRepublicWebSocket,
+    store: LedgerStore,
+    options: TimelineImporterOptions = {}
+  ) {
+    this.websocket = websocket;
+    this.store = store;
+    this.maxPages = options.maxPages ?? Infinity;
+  }
+
+  /**
+   * Import timeline events from the cutoff on, newest first. Each page is stored and
+   * checkpointed as it is read; the cutoff only moves once a run reaches it or the
+   * end of the timeline.
+   */
+  public async run(): Promise<TimelineImportResult> {
+    const started = Date.now();
+    const previous = this.store.getLatestCollectionLog(COLLECTION_TYPE);
+    const saved = parseCheckpoint(previous?.checkpoint);
+    const resumed =
+      previous?.id !== undefined && !previous.completedAt && saved.after ? previous : undefined;
+
+    // Ledgers imported before checkpoints existed start at their newest event
+    const state: TimelineCheckpoint = resumed
+      ? saved
+      : { cutoff: saved.cutoff ?? this.store.getLatestTransactionTimestamp() };
+    const log: CollectionLog = resumed
+      ? { ...resumed }
+      : {
+          collectionType: COLLECTION_TYPE,
+          status: 'partial',
+          recordsCollected: 0,
+          errorsCount: 0,
+          durationMs: 0,
+          startedAt: new Date(started).toISOString(),
+        };
+    const runId = resumed?.id ?? this.store.insertCollectionLog(log);
+    const previousDuration = log.durationMs;
+
+    const cutoff = state.cutoff ? Date.parse(state.cutoff) : -Infinity;
+    const result: TimelineImportResult = {
+      pages: 0,
+      events: 0,
+      imported: 0,
+      skipped: 0,
+      pending: 0,
+      complete: false,
+    };
+
+    let after = state.after;
+    while (!result.complete && result.pages < this.maxPages) {
+      const page = await this.websocket.request('timelineTransactions', after ? { after } : {});
+      result.pages++;
+
+      // The timeline is newest first; events at the cutoff time are re-read and ignored
+      const items = page.items.filter(item => toTimestamp(item.timestamp) >= cutoff);
+      const executed = items.filter(item => getStatus(item) === 'executed');
+      const pending = items.filter(item => getStatus(item) === 'pending');
+      result.events += items.length;
+      result.skipped += items.length - executed.length;
+      result.pending += pending.length;
+
+      const details = await Promise.all(
+        executed.map(item => this.websocket.request('timelineDetailV2', { id: item.id }))
+      );
+      const imported = this.store.insertTransactions(
+        executed.map((item, index) => toLedgerTransaction(item, details[index]))
+      );
+      result.imported += imported;
+      log.recordsCollected += imported;
+
+      for (const item of items) {
+        const timestamp = new Date(toTimestamp(item.timestamp)).toISOString();
+        if (!state.newest || timestamp > state.newest) {
+          state.newest = timestamp;
+        }
+        if (pending.includes(item) && (!state.pending || timestamp < state.pending)) {
+          state.pending = timestamp;
+        }
+      }
+
+      after = page.cursors?.after;
+      result.complete = !after || page.items.some(item => toTimestamp(item.timestamp) <= cutoff);
+      state.after = result.complete ? undefined : after;
+      log.checkpoint = JSON.stringify(state);
+      log.durationMs = previousDuration + Date.now() - started;
+      this.store.updateCollectionLog(runId, log);
+    }
+
+    if (result.complete) {
+      // Pending events stay behind the cutoff until they are final
+      log.checkpoint = JSON.stringify({ cutoff: state.pending ?? state.newest ?? state.cutoff });
+      log.status = 'success';
+      log.completedAt = new Date().toISOString();
+      this.store.updateCollectionLog(runId, log);
+    }
+
+    logger.info('📒 Timeline imported', result);
+    return result;
+  }
+}
+
+/**
+ * Ledger event type of a timeline event; trades are told apart by the sign of the
+ * cash amount
+ */
+export function classifyTimelineEvent(item: TRTimelineTransaction): LedgerEventType {
+  const eventType = item.eventType ?? '';
+  if (TRADE_EVENTS.includes(eventType)) {
+    return (item.amount?.value ?? 0) < 0 ? 'buy' : 'sell';
+  }
+  return EVENT_TYPES[eventType] ?? 'other';
+}
+
+/**
+ * Normalize a timeline event and its details into a ledger row
+ */
+export function toLedgerTransaction(
+  item: TRTimelineTransaction,
+  detail?: TRTimelineDetail
+): LedgerTransaction {
+  const figures = readDetailFigures(detail?.sections ?? []);
+  const taxParts = [
+    figures.capitalGainsTax,
+    figures.solidaritySurcharge,
+    figures.churchTax,
+    figures.withholdingTax,
+  ].filter((value): value is number => value !== undefined);
+
+  return {
+    id: item.id,
+    type: classifyTimelineEvent(item),
+    eventType: item.eventType,
+    status: item.status,
+    timestamp: new Date(toTimestamp(item.timestamp)).toISOString(),
+    title: item.title,
+    isin: getIsin(item, detail),
+    amount: item.amount?.value ?? 0,
+    currency: item.amount?.currency ?? 'EUR',
+    quantity: figures.quantity,
+    price: figures.price,
+    fees: figures.fees ?? 0,
+    taxes: taxParts.length > 0 ? sum(taxParts) : (figures.taxes ?? 0),
+    capitalGainsTax: figures.capitalGainsTax,
+    solidaritySurcharge: figures.solidaritySurcharge,
+    churchTax: figures.churchTax,
+    withholdingTax: figures.withholdingTax,
+  };
+}
+
+/**
+ * Figures from the detail tables. Fees and taxes are unsigned; a "12 × 110,03 €"
+ * transaction row gives both quantity and price.
+ */
+function readDetailFigures(sections: TRTimelineDetailSection[]): DetailFigures {
+  const figures: DetailFigures = {};
+  const rows = sections
+    .filter(section => section.type === 'table' && Array.isArray(section.data))
+    .flatMap(section => section.data as DetailRow[]);
+
+  for (const row of rows) {
+    const title = row.title?.trim().toLowerCase() ?? '';
+    const text = row.detail?.text ?? row.detail?.displayValue?.text ?? '';
+
+    const trade = text.match(/^([\d.,]+)\s*[×x]\s*(.+)$/);
+    if (trade?.[1] && trade[2]) {
+      figures.quantity ??= parseNumber(trade[1]);
+      figures.price ??= parseNumber(trade[2]);
+      continue;
+    }
+
+    const figure = (Object.keys(ROW_TITLES) as (keyof DetailFigures)[]).find(key =>
+      ROW_TITLES[key].includes(title)
+    );
+    const value = parseNumber(text);
+    if (figure && value !== undefined && figures[figure] === undefined) {
+      figures[figure] = figure === 'quantity' || figure === 'price' ? value : Math.abs(value);
+    }
+  }
+  return figures;
+}
+
+/**
+ * ISIN from the instrument link of the header, or the logo path
+ * ("logos/US0378331005/v2")
+ */
+function getIsin(item: TRTimelineTransaction, detail?: TRTimelineDetail): string | undefined {
+  const candidates = [
+    ...(detail?.sections ?? []).map(section => section.action?.payload),
+    item.action?.payload,
+    item.icon,
+  ];
+  for (const candidate of candidates) {
+    const isin = typeof candidate === 'string' ? candidate.match(/[A-Z]{2}[A-Z0-9]{9}\d/) : null;
+    if (isin) {
+      return isin[0];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse a displayed amount such as "1.234,56 €", "-€1,234.56" or "0.5". The last
+ * separator is the decimal one when both appear; a lone comma is decimal.
+ */
+function parseNumber(text: string): number | undefined {
+  const cleaned = text.replace(/[^\d.,-]/g, '');
+  if (!/\d/.test(cleaned)) {
+    return undefined;
+  }
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  const normalized =
+    lastComma > lastDot ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned.replace(/,/g, '');
+
+  const value = Number(normalized);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Executed, final without a booking (cancelled, rejected ...) or still pending
+ */
+function getStatus(item: TRTimelineTransaction): 'executed' | 'final' | 'pending' {
+  const status = item.status?.toLowerCase();
+  if (status === undefined || EXECUTED_STATUSES.includes(status)) {
+    return 'executed';
+  }
+  return FINAL_STATUSES.includes(status) ? 'final' : 'pending';
+}
+
+function parseCheckpoint(checkpoint: string | undefined): TimelineCheckpoint {
+  try {
+    return checkpoint ? (JSON.parse(checkpoint) as TimelineCheckpoint) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Timeline timestamps use a "+0000" offset, which not every parser accepts
+ */
+function toTimestamp(timestamp: string): number {
+  return Date.parse(timestamp.replace(/([+-]\d{2})(\d{2})$/, '$1:$2'));
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
@@ -0,0 +1,348 @@
+/**
+ * Candle Aggregator
+ *
+ * Builds 1m to 1d OHLC candles from live ticks. Buckets are aligned to the
+ * session open of the exchange trading hours and close on event time: once the
+ * newest tick is allowedLateness past a bucket's end. The same ticks in the same
+ * order always produce the same candles.
+ */
+
+import { EventEmitter } from 'events';
+import { logger } from '../utils/logger.js';
+import { getTradingSession, LSX_TRADING_HOURS } from './trading-hours.js';
+import type { TradingSession } from './trading-hours.js';
+import { toPriceTick } from './tick-recorder.js';
+import type { TradeRepublicWebSocket } from '../websocket/tr-websocket.js';
+import type { TradingHours } from '../types/comprehensive-asset.js';
+import type { Candle, CandleTimeframe, PriceTick } from '../types/market.js';
+
+/**
+ * Where closed candles are written; implemented by ProductionDatabaseManager
+ */
+export interface CandleSink {
+  insertCandles(candles: Candle[]): number;
+}
+
+export interface CandleAggregatorOptions {
+  timeframes?: CandleTimeframe[];
+  tradingHours?: TradingHours;
+  allowedLateness?: number; // How long a bucket stays open after its end (ms)
+  fillGaps?: boolean; // Emit flat candles for empty buckets inside a session
+  sink?: CandleSink;
+}
+
+export interface CandleAggregatorStats {
+  ticks: number;
+  lateTicks: number; // Ticks for buckets that were already closed
+  outsideHours: number;
+  closedCandles: number;
+}
+
+interface Bucket {
+  start: number;
+  end: number;
+  session: TradingSession;
+}
+
+interface OpenCandle {
+  candle: Candle;
+  bucket: Bucket;
+}
+
+interface TimeframeState {
+  open: Map<number, OpenCandle>; // bucket start -> candle
+  closedUntil: number; // Ticks before this time are late
+  lastCandle?: Candle;
+  lastBucket?: Bucket;
+}
+
+const TIMEFRAME_MINUTES: Record<Exclude<CandleTimeframe, '1d'>, number> = {
+  '1m': 1,
+  '5m': 5,
+  '15m': 15,
+  '1h': 60,
+};
+
+const ALL_TIMEFRAMES: CandleTimeframe[] = ['1m', '5m', '15m', '1h', '1d'];
+const DEFAULT_ALLOWED_LATENESS = 2000;
+const DEFAULT_EXCHANGE = 'LSX';
+
+export class CandleAggregator extends EventEmitter {
+  private timeframes: CandleTimeframe[];
+  private tradingHours: TradingHours;
+  private allowedLateness: number;
+  private fillGaps: boolean;
+  private sink?: CandleSink;
+  private states = new Map<string, Map<CandleTimeframe, TimeframeState>>(); // isin -> timeframe
+  private watermark = -Infinity;
+  private handles: string[] = [];
+  private websocket?: TradeRepublicWebSocket;
+  private clockTimer?: ReturnType<typeof setInterval>;
+  private stats = { ticks: 0, lateTicks: 0, outsideHours: 0, closedCandles: 0 };
+
+  constructor(options: CandleAggregatorOptions = {}) {
+    super();
+    this.timeframes = options.timeframes ?? ALL_TIMEFRAMES;
+    this.tradingHours = options.tradingHours ?? LSX_TRADING_HOURS;
+    this.allowedLateness = options.allowedLateness ?? DEFAULT_ALLOWED_LATENESS;
+    this.fillGaps = options.fillGaps ?? false;
+    this.sink = options.sink;
+  }
+
+  /**
+   * Feed ticker updates for the given ISINs into the aggregator. Quiet instruments
+   * are closed by the wall clock once their bucket plus allowedLateness has passed.
+   */
+  public async attach(
+    websocket: TradeRepublicWebSocket,
+    isins: string[],
+    exchange: string = DEFAULT_EXCHANGE
+  ): Promise<void> {
+    this.websocket = websocket;
+
+    for (const isin of isins) {
+      const handle = await websocket.subscribe(
+        'ticker',
+        { id: `${isin}.${exchange}` },
+        ticker => this.addTick(toPriceTick(isin, ticker)),
+        { priority: 'high' }
+      );
+      this.handles.push(handle);
+    }
+
+    this.clockTimer ??= setInterval(() => this.advanceTo(Date.now()), 1000);
+    logger.info('🕯️ Candle aggregator attached', { isins: isins.length, exchange });
+  }
+
+  /**
+   * Unsubscribe and close every open candle
+   */
+  public async detach(): Promise<Candle[]> {
+    clearInterval(this.clockTimer);
+    this.clockTimer = undefined;
+
+    const handles = this.handles.splice(0);
+    const websocket = this.websocket;
+    if (websocket) {
+      await Promise.all(handles.map(handle => websocket.unsubscribe(handle)));
+    }
+    return this.flush();
+  }
+
+  /**
+   * Add a tick to the open candle of each timeframe. Ticks outside trading hours and
+   * ticks for buckets already closed are dropped.
+   */
+  public addTick(tick: PriceTick): void {
+    const price = getTickPrice(tick);
+    if (price === undefined) {
+      return;
+    }
+
+    this.stats.ticks++;
+    const session = getTradingSession(tick.time, this.tradingHours);
+    if (!session) {
+      this.stats.outsideHours++;
+      return;
+    }
+
+    let late = false;
+    for (const timeframe of this.timeframes) {
+      const state = this.getState(tick.isin, timeframe);
+      const bucket = getBucket(tick.time, timeframe, session);
+
+      if (bucket.start < state.closedUntil) {
+        late = true;
+        continue;
+      }
+
+      let entry = state.open.get(bucket.start);
+      if (!entry) {
+        entry = {
+          bucket,
+          candle: {
+            isin: tick.isin,
+            timeframe,
+            timestamp: bucket.start,
+            open: price,
+            high: price,
+            low: price,
+            close: price,
+            ticks: 0,
+          },
+        };
+        state.open.set(bucket.start, entry);
+      }
+
+      const candle = entry.candle;
+      candle.high = Math.max(candle.high, price);
+      candle.low = Math.min(candle.low, price);
+      candle.close = price;
+      candle.ticks++;
+    }
+
+    if (late) {
+      this.stats.lateTicks++;
+      this.emit('lateTick', tick);
+    }
+
+    this.watermark = Math.max(this.watermark, tick.time);
+    this.publish(this.closeExpired(this.watermark));
+  }
+
+  /**
+   * Close candles whose bucket ended more than allowedLateness before the given time
+   */
+  public advanceTo(time: number): Candle[] {
+    this.watermark = Math.max(this.watermark, time);
+    const closed = this.closeExpired(this.watermark);
+    this.publish(closed);
+    return closed;
+  }
+
+  /**
+   * Close every open candle, e.g. on shutdown
+   */
+  public flush(): Candle[] {
+    const closed = this.closeExpired(Infinity);
+    this.publish(closed);
+    return closed;
+  }
+
+  /**
+   * Candles still being built, optionally for one ISIN
+   */
+  public getOpenCandles(isin?: string): Candle[] {
+    const entries = isin ? [this.states.get(isin)] : [...this.states.values()];
+    return entries.flatMap(states =>
+      [...(states?.values() ?? [])].flatMap(state =>
+        [...state.open.values()].map(entry => ({ ...entry.candle }))
+      )
+    );
+  }
+
+  public getStats(): CandleAggregatorStats {
+    return { ...this.stats };
+  }
+
+  private getState(isin: string, timeframe: CandleTimeframe): TimeframeState {
+    let states = this.states.get(isin);
+    if (!states) {
+      states = new Map();
+      this.states.set(isin, states);
+    }
+
+    let state = states.get(timeframe);
+    if (!state) {
+      state = { open: new Map(), closedUntil: -Infinity };
+      states.set(timeframe, state);
+    }
+    return state;
+  }
+
+  /**
+   * Close, oldest first, the candles whose bucket ended allowedLateness before the watermark
+   */
+  private closeExpired(watermark: number): Candle[] {
+    const closed: Candle[] = [];
+    for (const states of this.states.values()) {
+      for (const state of states.values()) {
+        const expired = [...state.open.values()]
+          .filter(entry => entry.bucket.end + this.allowedLateness <= watermark)
+          .sort((a, b) => a.bucket.start - b.bucket.start);
+
+        for (const entry of expired) {
+          if (this.fillGaps) {
+            closed.push(...this.fillGap(state, entry.bucket));
+          }
+          state.open.delete(entry.bucket.start);
+          state.closedUntil = entry.bucket.end;
+          state.lastCandle = entry.candle;
+          state.lastBucket = entry.bucket;
+          closed.push(entry.candle);
+        }
+      }
+    }
+    return closed;
+  }
+
+  /**
+   * Flat candles at the last close for the empty buckets between the last closed
+   * candle and the next one. Gaps are only filled within a session.
+   */
+  private fillGap(state: TimeframeState, next: Bucket): Candle[] {
+    const { lastCandle, lastBucket } = state;
+    if (!lastCandle || !lastBucket || lastBucket.session.open !== next.session.open) {
+      return [];
+    }
+
+    const filled: Candle[] = [];
+    let gap = lastBucket;
+    while (gap.end < next.start) {
+      gap = getBucket(gap.end, lastCandle.timeframe, gap.session);
+      filled.push({
+        isin: lastCandle.isin,
+        timeframe: lastCandle.timeframe,
+        timestamp: gap.start,
+        open: lastCandle.close,
+        high: lastCandle.close,
+        low: lastCandle.close,
+        close: lastCandle.close,
+        ticks: 0,
+      });
+    }
+
+    state.lastBucket = gap;
+    return filled;
+  }
+
+  /**
+   * Emit closed candles and hand them to the sink in one batch
+   */
+  private publish(candles: Candle[]): void {
+    if (candles.length === 0) {
+      return;
+    }
+
+    this.stats.closedCandles += candles.length;
+    candles.forEach(candle => this.emit('candle', candle));
+
+    if (this.sink) {
+      try {
+        this.sink.insertCandles(candles);
+      } catch (error) {
+        logger.error('Failed to store candles', {
+          candles: candles.length,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Last trade price, or the bid/ask mid without one
+ */
+function getTickPrice(tick: PriceTick): number | undefined {
+  if (tick.last !== undefined) {
+    return tick.last;
+  }
+  if (tick.bid !== undefined && tick.ask !== undefined) {
+    return (tick.bid + tick.ask) / 2;
+  }
+  return tick.bid ?? tick.ask;
+}
+
+/**
+ * Bucket of a timeframe containing a time; intraday buckets count from the session
+ * open and the last one is cut at the close
+ */
+function getBucket(time: number, timeframe: CandleTimeframe, session: TradingSession): Bucket {
+  if (timeframe === '1d') {
+    return { start: session.open, end: session.close, session };
+  }
+
+  const size = TIMEFRAME_MINUTES[timeframe] * 60000;
+  const start = session.open + Math.floor((time - session.open) / size) * size;
+  return { start, end: Math.min(start + size, session.close), session };
+}
@@ -0,0 +1,314 @@
+/**
+ * Historical Backfill
+ *
+ * Fills missing daily candles in prices_historical. Per ISIN it works out which
+ * trading days are neither stored nor covered by an earlier backfill and requests
+ * only the smallest history range reaching back to the oldest gap. Progress is
+ * checkpointed in collection_logs, so an interrupted run resumes after the last
+ * finished ISIN and a rerun without gaps sends no requests.
+ */
+
+import { logger } from '../utils/logger.js';
+import { getLocalDate, LSX_TRADING_HOURS } from './trading-hours.js';
+import type { TradeRepublicWebSocket } from '../websocket/tr-websocket.js';
+import type { TRHistoryRange } from '../types/websocket.js';
+import type {
+  CollectionLog,
+  HistoricalPrice,
+  HistoryCoverage,
+} from '../database/production-database.js';
+
+/**
+ * Candle and progress storage; implemented by ProductionDatabaseManager
+ */
+export interface BackfillStore {
+  getHistoricalPrices(
+    isin: string,
+    timeframe: HistoricalPrice['timeframe'],
+    from: number,
+    until: number
+  ): HistoricalPrice[];
+  getHistoryCoverage(
+    isin: string,
+    period: string,
+    timeframe: HistoricalPrice['timeframe']
+  ): HistoryCoverage | undefined;
+  saveHistoricalPrices(prices: HistoricalPrice[], coverage: HistoryCoverage): void;
+  insertCollectionLog(log: CollectionLog): number;
+  updateCollectionLog(id: number, log: CollectionLog): void;
+  getLatestCollectionLog(collectionType: string): CollectionLog | undefined;
+}
+
+export interface HistoricalBackfillOptions {
+  days?: number; // How many calendar days of daily candles to keep
+  exchange?: string;
+  timeZone?: string; // Decides which trading day a candle belongs to
+}
+
+/**
+ * Consecutive missing trading days, as inclusive YYYY-MM-DD dates
+ */
+export interface DateGap {
+  from: string;
+  to: string;
+}
+
+export interface BackfillResult {
+  runId: number;
+  resumedAfter?: string; // Checkpointed ISIN of the interrupted run that was resumed
+  processed: number;
+  requests: number;
+  gaps: number;
+  inserted: number;
+  errors: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DAYS = 30;
+const DEFAULT_EXCHANGE = 'LSX';
+const COVERAGE_PERIOD = 'backfill';
+
+/**
+ * History ranges by how many days they reach back at least, smallest first; a
+ * calendar month can be as short as 28 days and three as short as 89
+ */
+const RANGE_DAYS: [TRHistoryRange, number][] = [
+  ['5d', 5],
+  ['1m', 28],
+  ['3m', 89],
+  ['1y', 365],
+];
+const RANGE_MARGIN_DAYS = 1; // Leeway for the open day and time zone offsets
+
+export class HistoricalBackfill {
+  private websocket: TradeRepublicWebSocket;
+  private store: BackfillStore;
+  private days: number;
+  private exchange: string;
+  private timeZone: string;
+
+  constructor(
+    websocket: TradeRepublicWebSocket,
+    store: BackfillStore,
+    options: HistoricalBackfillOptions = {}
+  ) {
+    this.websocket = websocket;
+    this.store = store;
+    this.days = options.days ?? DEFAULT_DAYS;
+    this.exchange = options.exchange ?? DEFAULT_EXCHANGE;
+    this.timeZone = options.timeZone ?? LSX_TRADING_HOURS.timezone;
+  }
+
+  /**
+   * collection_logs type of this backfill; runs with another window are tracked apart
+   */
+  public get collectionType(): string {
+    return `historical_backfill_${this.days}d`;
+  }
+
+  /**
+   * Backfill the given ISINs in sorted order, resuming an unfinished run of the same
+   * window. Failed ISINs are counted and retried by the next run; the run stops when
+   * the connection gives up, leaving its checkpoint for a resume.
+   */
+  public async run(isins: string[]): Promise<BackfillResult> {
+    const started = Date.now();
+    const previous = this.store.getLatestCollectionLog(this.collectionType);
+    const resumed = previous?.id !== undefined && !previous.completedAt ? previous : undefined;
+
+    const log: CollectionLog = resumed
+      ? { ...resumed }
+      : {
+          collectionType: this.collectionType,
+          status: 'partial',
+          recordsCollected: 0,
+          errorsCount: 0,
+          durationMs: 0,
+          startedAt: new Date(started).toISOString(),
+        };
+    const runId = resumed?.id ?? this.store.insertCollectionLog(log);
+    const resumedAfter = resumed?.checkpoint ?? undefined; // null in the database
+    const previousDuration = log.durationMs;
+
+    const ordered = [...new Set(isins)].sort();
+    const pending = resumedAfter ? ordered.filter(isin => isin > resumedAfter) : ordered;
+    const tradingDays = this.getTradingDays(started);
+
+    const result: BackfillResult = {
+      runId,
+      resumedAfter,
+      processed: 0,
+      requests: 0,
+      gaps: 0,
+      inserted: 0,
+      errors: 0,
+    };
+    logger.info('📚 Historical backfill started', {
+      isins: pending.length,
+      days: this.days,
+      resumedAfter,
+    });
+
+    for (const isin of pending) {
+      try {
+        const { gaps, inserted } = await this.backfill(isin, tradingDays);
+        result.gaps += gaps.length;
+        result.requests += gaps.length > 0 ? 1 : 0;
+        result.inserted += inserted;
+        log.recordsCollected += inserted;
+      } catch (error) {
+        // Without a connection every further ISIN would fail; stop and resume later
+        if (this.websocket.connectionState === 'failed') {
+          throw error;
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+        result.errors++;
+        log.errorsCount++;
+        log.errorDetails = `${isin}: ${message}`;
+        logger.warn('Historical backfill failed', { isin, error: message });
+      }
+
+      result.processed++;
+      log.checkpoint = isin;
+      log.durationMs = previousDuration + Date.now() - started;
+      this.store.updateCollectionLog(runId, log);
+    }
+
+    log.status = log.errorsCount > 0 ? 'partial' : 'success';
+    log.completedAt = new Date().toISOString();
+    this.store.updateCollectionLog(runId, log);
+
+    logger.info('📚 Historical backfill finished', result);
+    return result;
+  }
+
+  /**
+   * Fetch and store the missing candles of one ISIN
+   */
+  private async backfill(
+    isin: string,
+    tradingDays: string[]
+  ): Promise<{ gaps: DateGap[]; inserted: number }> {
+    const [firstDay] = tradingDays;
+    const today = getLocalDate(Date.now(), this.timeZone);
+    if (!firstDay) {
+      return { gaps: [], inserted: 0 };
+    }
+
+    // Stored candles may start before local midnight in UTC, so look one day further
+    const stored = new Set(
+      this.store
+        .getHistoricalPrices(isin, '1d', Date.parse(firstDay) - DAY_MS, Date.parse(today))
+        .map(price => getLocalDate(Date.parse(price.timestamp), this.timeZone))
+    );
+    const coverage = this.store.getHistoryCoverage(isin, COVERAGE_PERIOD, '1d');
+    const missing = tradingDays.filter(day => !stored.has(day) && !isCovered(day, coverage));
+    const [oldest] = missing;
+    if (!oldest) {
+      return { gaps: [], inserted: 0 };
+    }
+
+    const gaps = toGaps(tradingDays, missing);
+    const history = await this.websocket.request('aggregateHistoryLight', {
+      id: `${isin}.${this.exchange}`,
+      range: getRange(oldest, today),
+      resolution: DAY_MS,
+    });
+
+    // Only closed days that are missing; days without an aggregate are holidays
+    const wanted = new Set(missing);
+    const prices = (history.aggregates ?? [])
+      .filter(aggregate => wanted.has(getLocalDate(aggregate.time, this.timeZone)))
+      .map(
+        (aggregate): HistoricalPrice => ({
+          isin,
+          timeframe: '1d',
+          timestamp: new Date(aggregate.time).toISOString(),
+          open: Number(aggregate.open),
+          high: Number(aggregate.high),
+          low: Number(aggregate.low),
+          close: Number(aggregate.close),
+          volume: Number(aggregate.volume ?? 0),
+        })
+      );
+
+    // Coverage is kept as day keys (UTC midnight of the local date) and starts where
+    // the response does, so days the range did not reach are requested again
+    const [earliest] = (history.aggregates ?? [])
+      .map(aggregate => getLocalDate(aggregate.time, this.timeZone))
+      .sort();
+    if (!earliest) {
+      logger.debug('No historical prices returned', { isin, gaps });
+      return { gaps, inserted: 0 };
+    }
+
+    const firstTimestamp = Date.parse(earliest > firstDay ? earliest : firstDay);
+    const keepsEarlier = coverage !== undefined && coverage.lastEnd >= firstTimestamp;
+    this.store.saveHistoricalPrices(prices, {
+      isin,
+      period: COVERAGE_PERIOD,
+      timeframe: '1d',
+      firstTimestamp: keepsEarlier
+        ? Math.min(coverage.firstTimestamp, firstTimestamp)
+        : firstTimestamp,
+      lastEnd: Date.parse(today),
+    });
+
+    logger.debug('Backfilled historical prices', { isin, gaps, inserted: prices.length });
+    return { gaps, inserted: prices.length };
+  }
+
+  /**
+   * Weekdays of the window up to yesterday; today's candle is still open
+   */
+  private getTradingDays(now: number): string[] {
+    const [year = 0, month = 1, day = 1] = getLocalDate(now, this.timeZone).split('-').map(Number);
+
+    const days: string[] = [];
+    for (let offset = this.days; offset >= 1; offset--) {
+      const date = new Date(Date.UTC(year, month - 1, day - offset));
+      if (date.getUTCDay() % 6 !== 0) {
+        days.push(date.toISOString().slice(0, 10));
+      }
+    }
+    return days;
+  }
+}
+
+/**
+ * Whether an earlier backfill already fetched a day, so a missing candle is a holiday
+ */
+function isCovered(day: string, coverage?: HistoryCoverage): boolean {
+  const time = Date.parse(day);
+  return coverage !== undefined && time >= coverage.firstTimestamp && time < coverage.lastEnd;
+}
+
+/**
+ * Group missing days into runs of consecutive trading days
+ */
+function toGaps(tradingDays: string[], missing: string[]): DateGap[] {
+  const wanted = new Set(missing);
+  const gaps: DateGap[] = [];
+  let current: DateGap | undefined;
+
+  for (const day of tradingDays) {
+    if (!wanted.has(day)) {
+      current = undefined;
+    } else if (current) {
+      current.to = day;
+    } else {
+      current = { from: day, to: day };
+      gaps.push(current);
+    }
+  }
+  return gaps;
+}
+
+/**
+ * Smallest history range reaching back to a day
+ */
+function getRange(oldest: string, today: string): TRHistoryRange {
+  const age = (Date.parse(today) - Date.parse(oldest)) / DAY_MS + RANGE_MARGIN_DAYS;
+  return RANGE_DAYS.find(([, days]) => age <= days)?.[0] ?? 'max';
+}
@@ -0,0 +1,217 @@
+/**
+ * Tick Recorder
+ *
+ * Long-running service that subscribes to ticker topics for a set of ISINs and
+ * batch-writes bid/ask/last quotes into a database
+ */
+
+import { logger } from '../utils/logger.js';
+import type { TradeRepublicWebSocket } from '../websocket/tr-websocket.js';
+import type { TRPricePoint, TRTicker } from '../types/websocket.js';
+import type { PriceTick } from '../types/market.js';
+
+/**
+ * Which ISINs to record: an explicit list, the watchlist or the held positions
+ */
+export type TickSource =
+  | { type: 'isins'; isins: string[] }
+  | { type: 'watchlist' }
+  | { type: 'positions' };
+
+/**
+ * Where ticks are written; implemented by both database managers
+ */
+export interface TickSink {
+  insertPriceTicks(ticks: PriceTick[]): number;
+}
+
+export interface TickRecorderOptions {
+  source: TickSource;
+  exchange?: string;
+  flushInterval?: number; // Milliseconds between batch writes
+  maxBatchSize?: number; // Pending ticks that trigger an early write
+}
+
+export interface TickRecorderStats {
+  isins: number;
+  received: number;
+  coalesced: number; // Updates merged into a pending tick with the same time
+  duplicates: number; // Replays of ticks already recorded, e.g. after a reconnect
+  written: number;
+  pending: number;
+  failedFlushes: number;
+}
+
+const DEFAULT_EXCHANGE = 'LSX';
+const DEFAULT_FLUSH_INTERVAL = 1000;
+const DEFAULT_MAX_BATCH_SIZE = 500;
+
+export class TickRecorder {
+  private websocket: TradeRepublicWebSocket;
+  private sink: TickSink;
+  private source: TickSource;
+  private exchange: string;
+  private flushInterval: number;
+  private maxBatchSize: number;
+  private isins: string[] = [];
+  private handles: string[] = [];
+  private pending = new Map<string, PriceTick>(); // "isin:time" -> latest update
+  private lastTimes = new Map<string, number>();
+  private flushTimer?: ReturnType<typeof setInterval>;
+  private stats = { received: 0, coalesced: 0, duplicates: 0, written: 0, failedFlushes: 0 };
+
+  constructor(websocket: TradeRepublicWebSocket, sink: TickSink, options: TickRecorderOptions) {
+    this.websocket = websocket;
+    this.sink = sink;
+    this.source = options.source;
+    this.exchange = options.exchange ?? DEFAULT_EXCHANGE;
+    this.flushInterval = options.flushInterval ?? DEFAULT_FLUSH_INTERVAL;
+    this.maxBatchSize = options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+  }
+
+  /**
+   * Resolve the ISIN set and subscribe to its tickers; returns the recorded ISINs
+   */
+  public async start(): Promise<string[]> {
+    if (this.flushTimer) {
+      return this.isins;
+    }
+
+    this.isins = await this.resolveIsins();
+    this.flushTimer = setInterval(() => this.flush(), this.flushInterval);
+
+    for (const isin of this.isins) {
+      const handle = await this.websocket.subscribe(
+        'ticker',
+        { id: `${isin}.${this.exchange}` },
+        ticker => this.record(isin, ticker),
+        { priority: 'high' }
+      );
+      this.handles.push(handle);
+    }
+
+    logger.info('🎙️ Tick recorder started', { isins: this.isins.length, exchange: this.exchange });
+    return this.isins;
+  }
+
+  /**
+   * Unsubscribe and write the remaining ticks
+   */
+  public async stop(): Promise<void> {
+    clearInterval(this.flushTimer);
+    this.flushTimer = undefined;
+
+    const handles = this.handles.splice(0);
+    await Promise.all(handles.map(handle => this.websocket.unsubscribe(handle)));
+    this.flush();
+
+    logger.info('🎙️ Tick recorder stopped', this.getStats());
+  }
+
+  /**
+   * Write pending ticks in one batch; on failure they are kept for the next attempt
+   */
+  public flush(): number {
+    if (this.pending.size === 0) {
+      return 0;
+    }
+
+    const ticks = [...this.pending.values()];
+    try {
+      const written = this.sink.insertPriceTicks(ticks);
+      this.pending.clear();
+      this.stats.written += written;
+      logger.debug('Recorded ticks', { ticks: ticks.length, written });
+      return written;
+    } catch (error) {
+      this.stats.failedFlushes++;
+      logger.error('Failed to write ticks', {
+        ticks: ticks.length,
+        error: error instanceof Error ? error.message : error,
+      });
+      return 0;
+    }
+  }
+
+  public getStats(): TickRecorderStats {
+    return { isins: this.isins.length, pending: this.pending.size, ...this.stats };
+  }
+
+  /**
+   * Queue a ticker update. Updates with the time of a pending tick replace it; older
+   * or already written times are replays (the server resends the current quote on
+   * every (re)subscribe) and are dropped.
+   */
+  private record(isin: string, ticker: TRTicker): void {
+    this.stats.received++;
+    const tick = toPriceTick(isin, ticker);
+    const key = `${isin}:${tick.time}`;
+
+    if (this.pending.has(key)) {
+      this.pending.set(key, tick);
+      this.stats.coalesced++;
+      return;
+    }
+
+    if (tick.time <= (this.lastTimes.get(isin) ?? -Infinity)) {
+      this.stats.duplicates++;
+      return;
+    }
+
+    this.pending.set(key, tick);
+    this.lastTimes.set(isin, tick.time);
+
+    if (this.pending.size >= this.maxBatchSize) {
+      this.flush();
+    }
+  }
+
+  /**
+   * ISINs for the configured source, without duplicates
+   */
+  private async resolveIsins(): Promise<string[]> {
+    let isins: string[];
+    switch (this.source.type) {
+      case 'isins':
+        isins = this.source.isins;
+        break;
+      case 'watchlist': {
+        const watchlist = await this.websocket.request('watchlist', {});
+        isins = (watchlist.watchlist ?? []).map(entry => entry.instrumentId);
+        break;
+      }
+      case 'positions': {
+        const portfolio = await this.websocket.request('compactPortfolio', {});
+        isins = (portfolio.positions ?? []).map(position => position.instrumentId);
+        break;
+      }
+    }
+    return [...new Set(isins)];
+  }
+}
+
+/**
+ * Map a ticker payload to a tick; without quote times the arrival time is used
+ */
+export function toPriceTick(isin: string, ticker: TRTicker): PriceTick {
+  const points = [ticker.bid, ticker.ask, ticker.last].filter(
+    (point): point is TRPricePoint => point !== undefined
+  );
+  const times = points.map(point => point.time).filter(time => Number.isFinite(time));
+
+  return {
+    isin,
+    time: times.length > 0 ? Math.max(...times) : Date.now(),
+    bid: toNumber(ticker.bid),
+    ask: toNumber(ticker.ask),
+    last: toNumber(ticker.last),
+  };
+}
+
+function toNumber(point?: TRPricePoint): number | undefined {
+  if (!point) {
+    return undefined;
+  }
+  const value = Number(point.price);
+  return Number.isFinite(value) ? value : undefined;
+}
@@ -0,0 +1,129 @@
+/**
+ * Trading Hours
+ *
+ * Resolves exchange trading sessions, given as local wall-clock times in the
+ * exchange time zone, to UTC timestamps
+ */
+
+import type { TradingHours } from '../types/comprehensive-asset.js';
+
+export interface TradingSession {
+  open: number; // UTC ms
+  close: number; // UTC ms
+}
+
+/**
+ * Lang & Schwarz, Trade Republic's default venue
+ */
+export const LSX_TRADING_HOURS: TradingHours = {
+  openTime: '07:30',
+  closeTime: '23:00',
+  timezone: 'Europe/Berlin',
+};
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock fields of a UTC timestamp in a time zone
+ */
+function getZonedParts(time: number, timeZone: string): ZonedParts {
+  const values = new Map<string, number>();
+  for (const part of getFormatter(timeZone).formatToParts(time)) {
+    values.set(part.type, Number(part.value));
+  }
+
+  const get = (type: Intl.DateTimeFormatPartTypes): number => values.get(type) ?? 0;
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+/**
+ * Local calendar day of a timestamp in a time zone, as YYYY-MM-DD
+ */
+export function getLocalDate(time: number, timeZone: string): string {
+  const { year, month, day } = getZonedParts(time, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Offset of a time zone from UTC at a given instant, in ms
+ */
+function getTimeZoneOffset(time: number, timeZone: string): number {
+  const parts = getZonedParts(time, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return asUtc - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * UTC timestamp of a local wall-clock time ("HH:MM") on a local calendar day
+ */
+function zonedTimeToUtc(day: number, clock: string, timeZone: string): number {
+  const [hours = 0, minutes = 0] = clock.split(':').map(Number);
+  const local = day + (hours * 60 + minutes) * 60000;
+  const offset = getTimeZoneOffset(local, timeZone);
+  // Re-check once: the offset may differ on the other side of a DST switch
+  const corrected = getTimeZoneOffset(local - offset, timeZone);
+  return local - corrected;
+}
+
+/**
+ * The trading session containing a timestamp, or undefined outside trading hours and
+ * during breaks. Sessions are assumed to open and close on the same local day.
+ */
+export function getTradingSession(time: number, hours: TradingHours): TradingSession | undefined {
+  const parts = getZonedParts(time, hours.timezone);
+  const day = Date.UTC(parts.year, parts.month - 1, parts.day);
+
+  const open = zonedTimeToUtc(day, hours.openTime, hours.timezone);
+  const close = zonedTimeToUtc(day, hours.closeTime, hours.timezone);
+  if (time < open || time >= close) {
+    return undefined;
+  }
+
+  const inBreak = (hours.breaks ?? []).some(
+    pause =>
+      time >= zonedTimeToUtc(day, pause.startTime, hours.timezone) &&
+      time < zonedTimeToUtc(day, pause.endTime, hours.timezone)
+  );
+  return inBreak ? undefined : { open, close };
+}
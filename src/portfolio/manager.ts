@@ -0,0 +1,273 @@
+/**
+ * Portfolio Manager
+ *
+ * Reads portfolio, cash and performance data from the Trade Republic WebSocket
+ * and maps it into the connector's portfolio types
+ */
+
+import { logger } from '../utils/logger.js';
+import type { TradeRepublicWebSocket } from '../websocket/tr-websocket.js';
+import type {
+  TRCashEntry,
+  TRCompactPosition,
+  TRHistoryRange,
+  TRInstrument,
+  TRSearchResults,
+  TRTopic,
+  TRTopicRequest,
+  TRTopicResponse,
+} from '../types/websocket.js';
+import type {
+  Portfolio,
+  Position,
+  CashPosition,
+  PortfolioSummary,
+  PortfolioPerformance,
+} from '../types/portfolio.js';
+
+type PerformanceTimeframe = PortfolioPerformance['timeframe'];
+
+/**
+ * TR aggregate history ranges used for each performance timeframe
+ */
+const TIMEFRAME_RANGES: Record<PerformanceTimeframe, { range: TRHistoryRange; days?: number }> = {
+  '1D': { range: '1d' },
+  '1W': { range: '5d' },
+  '1M': { range: '1m' },
+  '3M': { range: '3m' },
+  '6M': { range: '1y', days: 183 },
+  '1Y': { range: '1y' },
+  ALL: { range: 'max' },
+};
+
+const DEFAULT_EXCHANGE = 'LSX';
+const DEFAULT_TIMEOUT = 15000;
+
+export class PortfolioManager {
+  private websocket: TradeRepublicWebSocket;
+  private timeoutMs: number;
+
+  constructor(websocket: TradeRepublicWebSocket, timeoutMs: number = DEFAULT_TIMEOUT) {
+    this.websocket = websocket;
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Get the complete portfolio with priced positions and cash
+   */
+  public async getPortfolio(): Promise<Portfolio> {
+    const [positions, cashEntries, status] = await Promise.all([
+      this.getPositions(),
+      this.request('cash', {}),
+      this.request('portfolioStatus', {}),
+    ]);
+
+    const cash = this.mapCash(cashEntries);
+    const totalValue = positions.reduce((sum, position) => sum + position.marketValue, 0);
+    const totalCost = positions.reduce((sum, position) => sum + (position.totalCost ?? 0), 0);
+    const totalReturn = totalValue - totalCost;
+
+    logger.debug('Portfolio status received', { status: status.status });
+
+    return {
+      id: cashEntries[0]?.accountNumber ?? 'default',
+      totalValue,
+      totalCost,
+      totalReturn,
+      totalReturnPercentage: totalCost > 0 ? (totalReturn / totalCost) * 100 : 0,
+      positions,
+      cash,
+      status: status.status,
+      lastUpdated: Date.now(),
+    };
+  }
+
+  /**
+   * Get all positions, priced with the latest ticker data
+   */
+  public async getPositions(): Promise<Position[]> {
+    const portfolio = await this.request('compactPortfolio', {});
+    const compactPositions = portfolio.positions ?? [];
+
+    logger.debug('Pricing portfolio positions', { count: compactPositions.length });
+
+    return Promise.all(compactPositions.map(position => this.mapPosition(position)));
+  }
+
+  /**
+   * Get a single position by ISIN
+   */
+  public async getPosition(isin: string): Promise<Position | undefined> {
+    const positions = await this.getPositions();
+    return positions.find(position => position.instrumentId === isin);
+  }
+
+  /**
+   * Get the cash position
+   */
+  public async getCash(): Promise<CashPosition> {
+    const cashEntries = await this.request('cash', {});
+    return this.mapCash(cashEntries);
+  }
+
+  /**
+   * Get a summary of the portfolio
+   */
+  public async getSummary(): Promise<PortfolioSummary> {
+    const portfolio = await this.getPortfolio();
+
+    return {
+      totalValue: portfolio.totalValue,
+      totalInvested: portfolio.totalCost,
+      totalPnL: portfolio.totalReturn,
+      totalPnLPercent: portfolio.totalReturnPercentage,
+      availableCash: portfolio.cash.amount,
+      currency: portfolio.cash.currency,
+      positionCount: portfolio.positions.length,
+      lastUpdated: new Date(portfolio.lastUpdated),
+      totalReturn: portfolio.totalReturn,
+      totalReturnPercentage: portfolio.totalReturnPercentage,
+    };
+  }
+
+  /**
+   * Get portfolio value history and change for a timeframe
+   */
+  public async getPerformance(
+    timeframe: PerformanceTimeframe = '1D'
+  ): Promise<PortfolioPerformance> {
+    const { range, days } = TIMEFRAME_RANGES[timeframe];
+    const history = await this.request('portfolioAggregateHistory', { range });
+
+    const cutoff = days ? Date.now() - days * 24 * 60 * 60 * 1000 : 0;
+    const data = (history.aggregates ?? [])
+      .filter(aggregate => aggregate.time >= cutoff)
+      .map(aggregate => ({ timestamp: new Date(aggregate.time), value: Number(aggregate.close) }));
+
+    const first = data[0]?.value ?? 0;
+    const last = data[data.length - 1]?.value ?? 0;
+
+    return {
+      timeframe,
+      absoluteChange: last - first,
+      percentChange: first > 0 ? ((last - first) / first) * 100 : 0,
+      data,
+    };
+  }
+
+  /**
+   * Get instrument details by ISIN
+   */
+  public async getInstrumentInfo(isin: string): Promise<TRInstrument> {
+    return this.request('instrument', { id: isin });
+  }
+
+  /**
+   * Search instruments by name, symbol or ISIN
+   */
+  public async searchInstruments(query: string): Promise<TRSearchResults> {
+    return this.request('neonSearch', { data: { q: query, page: 1, pageSize: 20, filter: [] } });
+  }
+
+  /**
+   * Get positions with at least the given market value
+   */
+  public async getPositionsByValue(minValue: number = 0): Promise<Position[]> {
+    const positions = await this.getPositions();
+    return positions
+      .filter(position => position.marketValue >= minValue)
+      .sort((a, b) => b.marketValue - a.marketValue);
+  }
+
+  /**
+   * Get positions with an unrealized gain
+   */
+  public async getWinningPositions(): Promise<Position[]> {
+    const positions = await this.getPositions();
+    return positions
+      .filter(position => position.unrealizedPnL > 0)
+      .sort((a, b) => b.unrealizedPnL - a.unrealizedPnL);
+  }
+
+  /**
+   * Get positions with an unrealized loss
+   */
+  public async getLosingPositions(): Promise<Position[]> {
+    const positions = await this.getPositions();
+    return positions
+      .filter(position => position.unrealizedPnL < 0)
+      .sort((a, b) => a.unrealizedPnL - b.unrealizedPnL);
+  }
+
+  /**
+   * Enrich a compact position with instrument details and the current price
+   */
+  private async mapPosition(compact: TRCompactPosition): Promise<Position> {
+    const isin = compact.instrumentId;
+    const quantity = Number(compact.netSize);
+    const averagePrice = Number(compact.averageBuyIn);
+
+    const instrument = await this.request('instrument', { id: isin }).catch(
+      error => {
+        logger.warn('Instrument details unavailable', { isin, error: error.message });
+        return undefined;
+      }
+    );
+    const exchange = instrument?.exchangeIds?.includes(DEFAULT_EXCHANGE)
+      ? DEFAULT_EXCHANGE
+      : (instrument?.exchangeIds?.[0] ?? DEFAULT_EXCHANGE);
+
+    const ticker = await this.request('ticker', {
+      id: `${isin}.${exchange}`,
+    }).catch(error => {
+      logger.warn('Ticker unavailable, using average price', { isin, error: error.message });
+      return undefined;
+    });
+    const currentPrice = Number(ticker?.last?.price ?? ticker?.bid?.price ?? averagePrice);
+
+    const marketValue = quantity * currentPrice;
+    const totalCost = quantity * averagePrice;
+    const unrealizedPnL = marketValue - totalCost;
+    const unrealizedPnLPercentage = totalCost > 0 ? (unrealizedPnL / totalCost) * 100 : 0;
+
+    return {
+      instrumentId: isin,
+      isin,
+      name: instrument?.name ?? instrument?.shortName,
+      quantity,
+      averagePrice,
+      currentPrice,
+      marketValue,
+      totalValue: marketValue,
+      totalCost,
+      unrealizedPnL,
+      unrealizedPnLPercentage,
+      unrealizedPnLPercent: unrealizedPnLPercentage,
+      exchange,
+      exchangeIds: instrument?.exchangeIds,
+      currency: 'EUR',
+      lastUpdated: new Date(),
+    };
+  }
+
+  /**
+   * Map the cash topic to a single cash position (EUR account first)
+   */
+  private mapCash(entries: TRCashEntry[]): CashPosition {
+    const entry = entries.find(cash => cash.currencyId === 'EUR') ?? entries[0];
+    return {
+      currency: entry?.currencyId ?? 'EUR',
+      amount: Number(entry?.amount ?? 0),
+    };
+  }
+
+  /**
+   * Fetch the first payload of a topic
+   */
+  private request<T extends TRTopic>(
+    type: T,
+    payload: TRTopicRequest<T>
+  ): Promise<TRTopicResponse<T>> {
+    return this.websocket.request(type, payload, { timeoutMs: this.timeoutMs });
+  }
+}
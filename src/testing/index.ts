@@ -0,0 +1,15 @@
+/**
+ * Testing Utilities
+ *
+ * Entry point of the `trade-republic-connector/testing` subpath, kept out of the
+ * main bundle so applications do not ship the mock server
+ */
+
+export { MockTradeRepublicServer } from './mock-server';
+export type {
+  MockFrame,
+  MockTopicFixture,
+  MockAuthFixture,
+  MockServerOptions,
+  MockSubscription,
+} from './mock-server';
@@ -0,0 +1,615 @@
+/**
+ * Mock Trade Republic Server
+ *
+ * Local stand-in for the Trade Republic web login endpoints and WebSocket so the
+ * connector can be exercised end to end without a real account
+ */
+
+import { EventEmitter } from 'events';
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocketServer } from 'ws';
+import type WebSocket from 'ws';
+import { logger } from '../utils/logger.js';
+import type { TRAuthResponse } from '../api/working-tr-api.js';
+import { verifySignature } from '../auth/device-keys.js';
+
+/**
+ * A single frame sent for a subscription.
+ * Object payloads of 'D' frames are turned into a delta against the previous payload.
+ */
+export interface MockFrame {
+  code: 'A' | 'D' | 'C' | 'E';
+  payload?: unknown;
+  delayMs?: number;
+}
+
+export interface MockTopicFixture {
+  type: string;
+  match?: (payload: Record<string, unknown>) => boolean;
+  frames: MockFrame[] | ((payload: Record<string, unknown>) => MockFrame[]);
+}
+
+export interface MockAuthFixture {
+  phoneNumber: string;
+  pin: string;
+  tan: string;
+  processId: string;
+  method: 'SMS' | 'APP';
+  countdownInSeconds: number;
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+export interface MockServerOptions {
+  port?: number;
+  auth?: Partial<MockAuthFixture>;
+  fixtures?: MockTopicFixture[];
+  /** Where session tokens are returned: the web login uses cookies (default: both) */
+  sessionTransport?: 'json' | 'cookie' | 'both';
+}
+
+export interface MockSubscription {
+  id: string;
+  type: string;
+  payload: Record<string, unknown>;
+}
+
+interface MockConnection {
+  socket: WebSocket;
+  connected: boolean;
+  subscriptions: Map<string, MockSubscription>;
+  lastPayloads: Map<string, string>;
+  timers: Set<ReturnType<typeof setTimeout>>;
+}
+
+const DEFAULT_AUTH: MockAuthFixture = {
+  phoneNumber: '+491701234567',
+  pin: '1234',
+  tan: '1234',
+  processId: 'mock-process-id',
+  method: 'APP',
+  countdownInSeconds: 120,
+  accessToken: createMockToken('mock-user'),
+  refreshToken: 'mock-refresh-token',
+  expiresIn: 290,
+};
+
+/**
+ * Build an unsigned JWT whose subject the client can read as the user id
+ */
+function createMockToken(userId: string, serial: number = 0): string {
+  const encode = (value: object): string =>
+    Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'none', typ: 'JWT' })}.${encode({ sub: userId, jti: serial })}.mock`;
+}
+
+/**
+ * Encode the change between two payloads as TR delta instructions
+ */
+function createDelta(previous: string, next: string): string {
+  let prefix = 0;
+  while (prefix < previous.length && prefix < next.length && previous[prefix] === next[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < previous.length - prefix &&
+    suffix < next.length - prefix &&
+    previous[previous.length - 1 - suffix] === next[next.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const removed = previous.length - prefix - suffix;
+  const inserted = next.substring(prefix, next.length - suffix);
+  const instructions: string[] = [];
+
+  if (prefix > 0) instructions.push(`=${prefix}`);
+  if (removed > 0) instructions.push(`-${removed}`);
+  if (inserted) instructions.push(`+${encodeURIComponent(inserted).replace(/%20/g, '+')}`);
+  if (suffix > 0) instructions.push(`=${suffix}`);
+
+  return instructions.join('\t');
+}
+
+export class MockTradeRepublicServer extends EventEmitter {
+  private server: Server;
+  private wss: WebSocketServer;
+  private auth: MockAuthFixture;
+  private fixtures: MockTopicFixture[];
+  private connections = new Set<MockConnection>();
+  private accessTokens = new Set<string>();
+  private refreshTokens = new Set<string>();
+  private deviceKeys = new Set<string>();
+  private tokenSerial = 0;
+  private requestedPort: number;
+  private sessionTransport: 'json' | 'cookie' | 'both';
+  private port?: number;
+
+  /** Raw messages received from clients, in order */
+  public readonly received: string[] = [];
+
+  /** Cookies sent with each WebSocket handshake, in order */
+  public readonly handshakeCookies: Array<Record<string, string>> = [];
+
+  /** Turn off to simulate a half-open connection that never answers pings */
+  public answerPings = true;
+
+  constructor(options: MockServerOptions = {}) {
+    super();
+    this.requestedPort = options.port ?? 0;
+    this.sessionTransport = options.sessionTransport ?? 'both';
+    this.auth = { ...DEFAULT_AUTH, ...options.auth };
+    this.fixtures = [...(options.fixtures ?? [])];
+    this.server = createServer((req, res) => this.handleHttpRequest(req, res));
+    // Like TR, never select the 'echo-protocol' subprotocol the client offers
+    this.wss = new WebSocketServer({
+      server: this.server,
+      handleProtocols: (): false => false,
+      autoPong: false,
+    });
+    this.wss.on('connection', (socket: WebSocket, req: IncomingMessage): void => {
+      this.handshakeCookies.push(this.readCredentials(req).cookies);
+      this.handleConnection(socket);
+    });
+  }
+
+  /**
+   * Start listening; port 0 picks a free port
+   */
+  public async start(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.requestedPort, '127.0.0.1', () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.port = (this.server.address() as AddressInfo).port;
+    logger.info('Mock Trade Republic server listening', { apiUrl: this.apiUrl });
+  }
+
+  /**
+   * Close all connections and stop listening
+   */
+  public async stop(): Promise<void> {
+    this.closeConnections(1001);
+    await new Promise<void>(resolve => this.wss.close(() => resolve()));
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+    this.port = undefined;
+  }
+
+  /**
+   * Base URL to use as `apiUrl`
+   */
+  public get apiUrl(): string {
+    return `http://127.0.0.1:${this.getPort()}`;
+  }
+
+  /**
+   * URL to use as `websocketUrl`
+   */
+  public get websocketUrl(): string {
+    return `ws://127.0.0.1:${this.getPort()}`;
+  }
+
+  /**
+   * Credentials and tokens the mock accepts
+   */
+  public get credentials(): MockAuthFixture {
+    return { ...this.auth };
+  }
+
+  /**
+   * Expire every issued access token, as if their lifetime had passed
+   */
+  public expireAccessTokens(): void {
+    this.accessTokens.clear();
+  }
+
+  /**
+   * Register a topic fixture; later fixtures take precedence
+   */
+  public addFixture(fixture: MockTopicFixture): void {
+    this.fixtures.unshift(fixture);
+  }
+
+  /**
+   * Send a frame to every open subscription of a topic
+   */
+  public push(type: string, frame: MockFrame): number {
+    let sent = 0;
+    for (const connection of this.connections) {
+      for (const subscription of connection.subscriptions.values()) {
+        if (subscription.type === type) {
+          this.sendFrame(connection, subscription.id, frame);
+          sent++;
+        }
+      }
+    }
+    return sent;
+  }
+
+  /**
+   * Open subscriptions across all connections
+   */
+  public getSubscriptions(): MockSubscription[] {
+    return [...this.connections].flatMap(connection => [...connection.subscriptions.values()]);
+  }
+
+  /**
+   * Drop every client connection, e.g. to exercise reconnects
+   */
+  public closeConnections(code: number = 1006): void {
+    for (const connection of this.connections) {
+      connection.timers.forEach(timer => clearTimeout(timer));
+      if (code === 1006) {
+        connection.socket.terminate();
+      } else {
+        connection.socket.close(code);
+      }
+    }
+    this.connections.clear();
+  }
+
+  /**
+   * Public keys registered through device pairing
+   */
+  public get pairedDevices(): string[] {
+    return [...this.deviceKeys];
+  }
+
+  /**
+   * Serve the web login, device login, session and account endpoints
+   */
+  private handleHttpRequest(req: IncomingMessage, res: ServerResponse): void {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const url = req.url ?? '';
+      let request: Record<string, unknown> = {};
+      try {
+        request = body ? JSON.parse(body) : {};
+      } catch {
+        this.sendJson(res, 400, { errors: [{ errorCode: 'BAD_REQUEST' }] });
+        return;
+      }
+
+      this.emit('request', { method: req.method, url, body: request });
+
+      if (req.method === 'POST' && url === '/api/v1/auth/web/login') {
+        if (request.phoneNumber !== this.auth.phoneNumber || request.pin !== this.auth.pin) {
+          this.sendJson(res, 401, { errors: [{ errorCode: 'VALIDATION_ERROR' }] });
+          return;
+        }
+        this.sendJson(res, 200, {
+          processId: this.auth.processId,
+          countdownInSeconds: this.auth.countdownInSeconds,
+          '2fa': this.auth.method,
+        });
+        return;
+      }
+
+      if (req.method === 'POST' && url === `/api/v1/auth/web/login/${this.auth.processId}/tan`) {
+        if (request.tan !== this.auth.tan) {
+          this.sendJson(res, 401, { errors: [{ errorCode: 'TAN_INVALID' }] });
+          return;
+        }
+        this.refreshTokens.add(this.auth.refreshToken);
+        this.sendSession(res, this.issueAccessToken(), this.auth.refreshToken);
+        return;
+      }
+
+      if (req.method === 'POST' && url === '/api/v1/auth/account/reset/device') {
+        if (request.phoneNumber !== this.auth.phoneNumber || request.pin !== this.auth.pin) {
+          this.sendJson(res, 401, { errors: [{ errorCode: 'VALIDATION_ERROR' }] });
+          return;
+        }
+        this.sendJson(res, 200, { processId: this.auth.processId });
+        return;
+      }
+
+      if (
+        req.method === 'POST' &&
+        url === `/api/v1/auth/account/reset/device/${this.auth.processId}/key`
+      ) {
+        if (request.code !== this.auth.tan || typeof request.deviceKey !== 'string') {
+          this.sendJson(res, 401, { errors: [{ errorCode: 'TAN_INVALID' }] });
+          return;
+        }
+        this.deviceKeys.add(request.deviceKey);
+        this.sendJson(res, 200, {});
+        return;
+      }
+
+      if (req.method === 'POST' && url === '/api/v1/auth/login') {
+        if (!this.isSignedByPairedDevice(req, body)) {
+          this.sendJson(res, 401, { errors: [{ errorCode: 'SIGNATURE_INVALID' }] });
+          return;
+        }
+        if (request.phoneNumber !== this.auth.phoneNumber || request.pin !== this.auth.pin) {
+          this.sendJson(res, 401, { errors: [{ errorCode: 'VALIDATION_ERROR' }] });
+          return;
+        }
+        this.refreshTokens.add(this.auth.refreshToken);
+        this.sendJson(res, 200, {
+          sessionToken: this.issueAccessToken(),
+          refreshToken: this.auth.refreshToken,
+        });
+        return;
+      }
+
+      const { bearer, cookies } = this.readCredentials(req);
+
+      if (req.method === 'GET' && url === '/api/v1/auth/session') {
+        if (!this.isSignedByPairedDevice(req, '') || !bearer || !this.refreshTokens.has(bearer)) {
+          this.sendJson(res, 401, { errors: [{ errorCode: 'SESSION_EXPIRED' }] });
+          return;
+        }
+        this.sendJson(res, 200, { sessionToken: this.issueAccessToken(), refreshToken: bearer });
+        return;
+      }
+
+      if (req.method === 'GET' && url === '/api/v1/auth/web/session') {
+        const refreshToken = cookies.tr_refresh ?? bearer;
+        if (!refreshToken || !this.refreshTokens.has(refreshToken)) {
+          this.sendJson(res, 401, { errors: [{ errorCode: 'SESSION_EXPIRED' }] });
+          return;
+        }
+        this.sendSession(res, this.issueAccessToken(), refreshToken);
+        return;
+      }
+
+      if (req.method === 'POST' && url === '/api/v1/auth/web/logout') {
+        if (bearer) this.accessTokens.delete(bearer);
+        if (cookies.tr_session) this.accessTokens.delete(cookies.tr_session);
+        if (cookies.tr_refresh) this.refreshTokens.delete(cookies.tr_refresh);
+        this.sendJson(res, 200, {});
+        return;
+      }
+
+      if (req.method === 'GET' && url === '/api/v2/auth/account') {
+        const accessToken = cookies.tr_session ?? bearer;
+        if (!accessToken || !this.accessTokens.has(accessToken)) {
+          this.sendJson(res, 401, { errors: [{ errorCode: 'UNAUTHORIZED' }] });
+          return;
+        }
+        this.sendJson(res, 200, { phoneNumber: this.auth.phoneNumber });
+        return;
+      }
+
+      this.sendJson(res, 404, { errors: [{ errorCode: 'NOT_FOUND' }] });
+    });
+  }
+
+  /**
+   * The fixture access token first, then a fresh token per login or refresh
+   */
+  private issueAccessToken(): string {
+    const token =
+      this.tokenSerial === 0
+        ? this.auth.accessToken
+        : createMockToken('mock-user', this.tokenSerial);
+    this.tokenSerial++;
+    this.accessTokens.add(token);
+    return token;
+  }
+
+  /**
+   * Whether the X-Zeta signature headers verify against any paired device key
+   */
+  private isSignedByPairedDevice(req: IncomingMessage, payload: string): boolean {
+    const timestamp = Number(req.headers['x-zeta-timestamp']);
+    const signature = req.headers['x-zeta-signature'];
+    if (!timestamp || typeof signature !== 'string') {
+      return false;
+    }
+
+    return [...this.deviceKeys].some(publicKey =>
+      verifySignature(publicKey, timestamp, payload, signature)
+    );
+  }
+
+  /**
+   * Bearer token and cookies sent with a request
+   */
+  private readCredentials(req: IncomingMessage): {
+    bearer?: string;
+    cookies: Record<string, string>;
+  } {
+    const cookies: Record<string, string> = {};
+    for (const part of (req.headers.cookie ?? '').split(';')) {
+      const [name, ...value] = part.trim().split('=');
+      if (name) cookies[name] = value.join('=');
+    }
+
+    const authorization = req.headers.authorization ?? '';
+    const bearer = authorization.startsWith('Bearer ') ? authorization.substring(7) : undefined;
+
+    return { bearer, cookies };
+  }
+
+  /**
+   * Answer with session tokens as JSON, cookies or both
+   */
+  private sendSession(res: ServerResponse, accessToken: string, refreshToken: string): void {
+    if (this.sessionTransport !== 'json') {
+      res.setHeader('Set-Cookie', [
+        `tr_session=${accessToken}; Path=/; Max-Age=${this.auth.expiresIn}; HttpOnly; Secure`,
+        `tr_refresh=${refreshToken}; Path=/; Max-Age=${7 * 24 * 60 * 60}; HttpOnly; Secure`,
+      ]);
+    }
+
+    this.sendJson(
+      res,
+      200,
+      this.sessionTransport === 'cookie'
+        ? {}
+        : { accessToken, refreshToken, tokenType: 'Bearer', expiresIn: this.auth.expiresIn }
+    );
+  }
+
+  private sendJson(
+    res: ServerResponse,
+    status: number,
+    body: TRAuthResponse | Record<string, unknown>
+  ): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  /**
+   * Track a new WebSocket client
+   */
+  private handleConnection(socket: WebSocket): void {
+    const connection: MockConnection = {
+      socket,
+      connected: false,
+      subscriptions: new Map(),
+      lastPayloads: new Map(),
+      timers: new Set(),
+    };
+    this.connections.add(connection);
+
+    socket.on('message', data => this.handleMessage(connection, data.toString()));
+    socket.on('ping', data => {
+      if (this.answerPings) {
+        socket.pong(data);
+      }
+    });
+    socket.on('close', () => {
+      connection.timers.forEach(timer => clearTimeout(timer));
+      this.connections.delete(connection);
+    });
+  }
+
+  /**
+   * Handle connect, sub and unsub commands
+   */
+  private handleMessage(connection: MockConnection, message: string): void {
+    this.received.push(message);
+
+    const [command, id = '', ...rest] = message.split(' ');
+    const json = rest.join(' ');
+
+    if (command === 'connect') {
+      connection.connected = true;
+      connection.socket.send('connected');
+      return;
+    }
+
+    if (!connection.connected) {
+      connection.socket.close(1008, 'connect required');
+      return;
+    }
+
+    if (command === 'sub') {
+      let payload: Record<string, unknown>;
+      try {
+        payload = JSON.parse(json);
+      } catch {
+        this.sendFrame(connection, id, {
+          code: 'E',
+          payload: { errors: [{ errorCode: 'BAD_REQUEST' }] },
+        });
+        return;
+      }
+
+      const type = String(payload.type);
+      const fixture = this.fixtures.find(
+        candidate => candidate.type === type && (candidate.match?.(payload) ?? true)
+      );
+      if (!fixture) {
+        this.sendFrame(connection, id, {
+          code: 'E',
+          payload: { errors: [{ errorCode: 'BAD_SUBSCRIPTION_TYPE', errorMessage: type }] },
+        });
+        return;
+      }
+
+      connection.subscriptions.set(id, { id, type, payload });
+      this.emit('subscribe', { id, type, payload });
+
+      const frames =
+        typeof fixture.frames === 'function' ? fixture.frames(payload) : fixture.frames;
+      let delay = 0;
+      for (const frame of frames) {
+        delay += frame.delayMs ?? 0;
+        this.sendFrame(connection, id, { ...frame, delayMs: delay });
+      }
+      return;
+    }
+
+    if (command === 'unsub') {
+      connection.subscriptions.delete(id);
+      connection.lastPayloads.delete(id);
+      this.emit('unsubscribe', { id });
+      connection.socket.send(`${id} C`);
+      return;
+    }
+
+    logger.warn('Mock server received unknown command', { message });
+  }
+
+  /**
+   * Serialize and send a frame, optionally after a delay
+   */
+  private sendFrame(connection: MockConnection, id: string, frame: MockFrame): void {
+    const send = (): void => {
+      if (connection.socket.readyState !== connection.socket.OPEN) {
+        return;
+      }
+
+      if (frame.code === 'C') {
+        connection.subscriptions.delete(id);
+        connection.lastPayloads.delete(id);
+        connection.socket.send(`${id} C`);
+        return;
+      }
+
+      if (frame.code === 'E') {
+        connection.subscriptions.delete(id);
+        connection.socket.send(`${id} E ${JSON.stringify(frame.payload ?? {})}`);
+        return;
+      }
+
+      if (frame.code === 'D' && typeof frame.payload !== 'string') {
+        const next = JSON.stringify(frame.payload);
+        const previous = connection.lastPayloads.get(id) ?? '';
+        connection.lastPayloads.set(id, next);
+        connection.socket.send(`${id} D ${createDelta(previous, next)}`);
+        return;
+      }
+
+      const serialized =
+        typeof frame.payload === 'string' ? frame.payload : JSON.stringify(frame.payload ?? {});
+      if (frame.code === 'A') {
+        connection.lastPayloads.set(id, serialized);
+      }
+      connection.socket.send(`${id} ${frame.code} ${serialized}`);
+    };
+
+    if (!frame.delayMs) {
+      send();
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      connection.timers.delete(timer);
+      send();
+    }, frame.delayMs);
+    connection.timers.add(timer);
+  }
+
+  private getPort(): number {
+    if (this.port === undefined) {
+      throw new Error('Mock server is not running');
+    }
+    return this.port;
+  }
+}
@@ -0,0 +1,766 @@
+/**
+ * Trading Manager
+ *
+ * Validates and places orders through the Trade Republic WebSocket protocol
+ * and reads order, price, news and watchlist data
+ */
+
+import { randomUUID } from 'crypto';
+import { logger } from '../utils/logger.js';
+import {
+  TRRequestInterruptedError,
+  TRRequestQueueTimeoutError,
+  TRRequestTimeoutError,
+  TRSubscriptionError,
+} from '../types/websocket.js';
+import type {
+  TRCreateOrderRequest,
+  TRHistoryRange,
+  TROrder,
+  TRTopic,
+  TRTopicRequest,
+  TRTopicResponse,
+} from '../types/websocket.js';
+import type { TradeRepublicWebSocket } from '../websocket/tr-websocket.js';
+import type { HistoricalPrice, HistoryCoverage } from '../database/production-database.js';
+import {
+  TradingError,
+  InsufficientFundsError,
+  MarketClosedError,
+  InvalidOrderError,
+  OrderStatusUnknownError,
+} from '../types/trading.js';
+import type {
+  BuyOrderData,
+  SellOrderData,
+  OrderResponse,
+  OrderHistory,
+  OrderHistoryFilters,
+  OrderSide,
+  OrderStatus,
+  OrderType,
+  RealTimePrice,
+  HistoricalPricePeriod,
+  HistoricalPricePoint,
+  HistoricalPriceResolution,
+  HistoricalPricesResponse,
+  MarketNewsResponse,
+  WatchlistResponse,
+  WatchlistItem,
+  TradingVenue,
+} from '../types/trading.js';
+
+/**
+ * Exchange ids Trade Republic uses for each supported venue
+ */
+const VENUE_EXCHANGES: Partial<Record<TradingVenue, string>> = {
+  LANG_SCHWARZ: 'LSX',
+  TRADEGATE: 'TDG',
+};
+
+/**
+ * TR aggregate history ranges used for each price period
+ */
+const PERIOD_RANGES: Record<
+  HistoricalPricePeriod,
+  { range: TRHistoryRange; days?: number; resolution: HistoricalPriceResolution }
+> = {
+  '1d': { range: '1d', resolution: '5m' },
+  '5d': { range: '5d', resolution: '1h' },
+  '1m': { range: '1m', resolution: '1d' },
+  '3m': { range: '3m', resolution: '1d' },
+  '6m': { range: '1y', days: 183, resolution: '1d' },
+  '1y': { range: '1y', resolution: '1d' },
+  '5y': { range: 'max', days: 5 * 365, resolution: '1w' },
+  max: { range: 'max', resolution: '1w' },
+};
+
+const RESOLUTION_MS: Record<HistoricalPriceResolution, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+  '1w': 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Persistence for historical prices; implemented by ProductionDatabaseManager
+ */
+export interface HistoricalPriceStore {
+  getHistoryCoverage(
+    isin: string,
+    period: string,
+    timeframe: HistoricalPrice['timeframe']
+  ): HistoryCoverage | undefined;
+  getHistoricalPrices(
+    isin: string,
+    timeframe: HistoricalPrice['timeframe'],
+    from: number,
+    until: number
+  ): HistoricalPrice[];
+  saveHistoricalPrices(prices: HistoricalPrice[], coverage: HistoryCoverage): void;
+}
+
+/**
+ * Trade Republic status values mapped to connector order statuses
+ */
+const ORDER_STATUS: Record<string, OrderStatus> = {
+  open: 'pending',
+  pending: 'pending',
+  executed: 'executed',
+  partiallyExecuted: 'partial',
+  cancelled: 'cancelled',
+  canceled: 'cancelled',
+  expired: 'cancelled',
+  rejected: 'rejected',
+};
+
+const ORDER_FEE = 1; // Flat external cost per order in EUR
+// Order commands and their quotes go ahead of live subscriptions waiting for a slot
+const ORDER_TOPICS: TRTopic[] = [
+  'priceForOrder',
+  'availableCash',
+  'availableSize',
+  'simpleCreateOrder',
+  'cancelOrder',
+];
+// Commands that change orders are sent at most once, never again after a reconnect
+const ORDER_COMMANDS: TRTopic[] = ['simpleCreateOrder', 'cancelOrder'];
+const DEFAULT_TIMEOUT = 15000;
+const ISIN_PATTERN = /^[A-Z]{2}[A-Z0-9]{9}\d$/;
+
+export class TradingManager {
+  private websocket: TradeRepublicWebSocket;
+  private timeoutMs: number;
+  private priceStore?: HistoricalPriceStore;
+
+  constructor(
+    websocket: TradeRepublicWebSocket,
+    timeoutMs: number = DEFAULT_TIMEOUT,
+    priceStore?: HistoricalPriceStore
+  ) {
+    this.websocket = websocket;
+    this.timeoutMs = timeoutMs;
+    this.priceStore = priceStore;
+  }
+
+  /**
+   * Place a buy order
+   */
+  public async placeBuyOrder(orderData: BuyOrderData): Promise<OrderResponse> {
+    this.validateBuyOrder(orderData);
+    const exchangeId = this.getExchangeId(orderData.venue);
+
+    const quote = await this.request('priceForOrder', {
+      parameters: { exchangeId, instrumentId: orderData.isin, type: 'buy' },
+    });
+    const unitPrice = orderData.limitPrice ?? Number(quote.price);
+    const quantity = orderData.quantity ?? Math.floor((orderData.amount ?? 0) / unitPrice);
+
+    if (quantity <= 0) {
+      throw new InvalidOrderError(
+        `Amount ${orderData.amount} is below the price of one share (${unitPrice})`
+      );
+    }
+
+    const estimatedTotal = quantity * unitPrice + ORDER_FEE;
+    const currency = quote.currency ?? 'EUR';
+    const cashEntries = await this.request('availableCash', {});
+    const available = Number(
+      (cashEntries.find(cash => cash.currencyId === currency) ?? cashEntries[0])?.amount ?? 0
+    );
+
+    if (available < estimatedTotal) {
+      throw new InsufficientFundsError(estimatedTotal, available, currency);
+    }
+
+    const orderId = await this.createOrder('buy', { ...orderData, quantity }, exchangeId, {
+      estimatedTotal,
+      available,
+      currency,
+    });
+
+    return this.buildOrderResponse(
+      orderId,
+      'buy',
+      { ...orderData, quantity },
+      estimatedTotal,
+      currency
+    );
+  }
+
+  /**
+   * Place a sell order
+   */
+  public async placeSellOrder(orderData: SellOrderData): Promise<OrderResponse> {
+    this.validateSellOrder(orderData);
+    const exchangeId = this.getExchangeId(orderData.venue);
+
+    const availableSize = await this.request('availableSize', {
+      parameters: { exchangeId, instrumentId: orderData.isin },
+    });
+    const sellable = Number(availableSize.size ?? 0);
+
+    if (sellable < orderData.quantity) {
+      throw new InvalidOrderError(
+        `Cannot sell ${orderData.quantity} of ${orderData.isin}, only ${sellable} available`
+      );
+    }
+
+    const quote = await this.request('priceForOrder', {
+      parameters: { exchangeId, instrumentId: orderData.isin, type: 'sell' },
+    });
+    const unitPrice = orderData.limitPrice ?? Number(quote.price);
+    const estimatedTotal = orderData.quantity * unitPrice - ORDER_FEE;
+    const currency = quote.currency ?? 'EUR';
+
+    const orderId = await this.createOrder('sell', orderData, exchangeId, {
+      estimatedTotal,
+      available: 0,
+      currency,
+    });
+
+    return this.buildOrderResponse(orderId, 'sell', orderData, estimatedTotal, currency);
+  }
+
+  /**
+   * Cancel an open order
+   */
+  public async cancelOrder(orderId: string): Promise<boolean> {
+    if (!orderId) {
+      throw new InvalidOrderError('Order ID is required');
+    }
+
+    try {
+      await this.request('cancelOrder', { orderId });
+      logger.info('Order cancelled', { orderId });
+      return true;
+    } catch (error) {
+      if (error instanceof TRSubscriptionError) {
+        throw new TradingError(error.message, error.errorCode ?? 'CANCEL_FAILED', orderId);
+      }
+      if (isUnanswered(error)) {
+        throw new OrderStatusUnknownError('cancelOrder', orderId);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get orders known to Trade Republic, filtered locally
+   */
+  public async getOrderHistory(filters: OrderHistoryFilters = {}): Promise<OrderHistory[]> {
+    const response = await this.request('orders', {});
+    const startTime = filters.startDate ? new Date(filters.startDate).getTime() : undefined;
+    const endTime = filters.endDate ? new Date(filters.endDate).getTime() : undefined;
+
+    const orders = (response.orders ?? [])
+      .map(order => this.mapOrder(order))
+      .filter(order => {
+        const createdAt = new Date(order.createdAt).getTime();
+        return (
+          (!filters.status || order.status === filters.status) &&
+          (!filters.side || order.side === filters.side) &&
+          (!filters.isin || order.isin === filters.isin) &&
+          (startTime === undefined || createdAt >= startTime) &&
+          (endTime === undefined || createdAt <= endTime)
+        );
+      })
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    const offset = filters.offset ?? 0;
+    return orders.slice(offset, filters.limit !== undefined ? offset + filters.limit : undefined);
+  }
+
+  /**
+   * Get the current price of an instrument on Lang & Schwarz
+   */
+  public async getRealTimePrice(isin: string): Promise<RealTimePrice> {
+    this.validateIsin(isin);
+
+    const ticker = await this.request('ticker', { id: `${isin}.LSX` });
+    const bid = ticker.bid ? Number(ticker.bid.price) : undefined;
+    const ask = ticker.ask ? Number(ticker.ask.price) : undefined;
+    const price = Number(ticker.last?.price ?? bid ?? 0);
+    const previousClose = ticker.pre ? Number(ticker.pre.price) : price;
+    const change = price - previousClose;
+
+    return {
+      isin,
+      price,
+      currency: 'EUR',
+      change,
+      changePercent: previousClose > 0 ? (change / previousClose) * 100 : 0,
+      volume: Number(ticker.last?.size ?? 0),
+      timestamp: new Date(ticker.last?.time ?? Date.now()).toISOString(),
+      venue: 'LANG_SCHWARZ',
+      bid,
+      ask,
+      spread: bid !== undefined && ask !== undefined ? ask - bid : undefined,
+      marketStatus: ticker.qualityId === 'realtime' ? 'open' : 'closed',
+    };
+  }
+
+  /**
+   * Get the closed price candles of an instrument on Lang & Schwarz; the still-open
+   * aggregate is left out. With a price store, the candles are cached and repeat
+   * calls are answered from it.
+   */
+  public async getHistoricalPrices(
+    isin: string,
+    period: HistoricalPricePeriod,
+    resolution?: HistoricalPriceResolution
+  ): Promise<HistoricalPricesResponse> {
+    this.validateIsin(isin);
+
+    const { range, days, resolution: defaultResolution } = PERIOD_RANGES[period];
+    const timeframe = resolution ?? defaultResolution;
+    const resolutionMs = RESOLUTION_MS[timeframe];
+    const now = Date.now();
+
+    const cached = this.readCachedHistory(isin, period, timeframe, now);
+    if (cached) {
+      const data = cached.map(toHistoricalPricePoint);
+      return {
+        isin,
+        period,
+        resolution: timeframe,
+        currency: 'EUR',
+        data,
+        count: data.length,
+        cached: true,
+      };
+    }
+
+    const history = await this.request('aggregateHistoryLight', {
+      id: `${isin}.LSX`,
+      range,
+      resolution: resolutionMs,
+    });
+
+    const cutoff = days ? now - days * 24 * 60 * 60 * 1000 : 0;
+    const aggregateMs = history.resolution ?? resolutionMs;
+    const aggregates = (history.aggregates ?? []).filter(
+      aggregate => aggregate.time >= cutoff && aggregate.time + aggregateMs <= now
+    );
+    const prices = aggregates.map(
+      (aggregate): HistoricalPrice => ({
+        isin,
+        timeframe,
+        timestamp: new Date(aggregate.time).toISOString(),
+        open: Number(aggregate.open),
+        high: Number(aggregate.high),
+        low: Number(aggregate.low),
+        close: Number(aggregate.close),
+        volume: Number(aggregate.volume ?? 0),
+      })
+    );
+
+    this.cacheHistory(isin, period, timeframe, prices, aggregateMs);
+
+    const data = prices.map(toHistoricalPricePoint);
+    return {
+      isin,
+      period,
+      resolution: timeframe,
+      currency: 'EUR',
+      data,
+      count: data.length,
+      cached: false,
+    };
+  }
+
+  /**
+   * Cached candles for a request, as long as no new aggregate can have closed since
+   * the request was stored
+   */
+  private readCachedHistory(
+    isin: string,
+    period: HistoricalPricePeriod,
+    timeframe: HistoricalPriceResolution,
+    now: number
+  ): HistoricalPrice[] | undefined {
+    const coverage = this.priceStore?.getHistoryCoverage(isin, period, timeframe);
+    if (!coverage || now >= coverage.lastEnd + RESOLUTION_MS[timeframe]) {
+      return undefined;
+    }
+
+    logger.debug('Serving historical prices from cache', { isin, period, timeframe });
+    return this.priceStore?.getHistoricalPrices(
+      isin,
+      timeframe,
+      coverage.firstTimestamp,
+      coverage.lastEnd
+    );
+  }
+
+  /**
+   * Store the closed aggregates of a response; failures only cost the cache
+   */
+  private cacheHistory(
+    isin: string,
+    period: HistoricalPricePeriod,
+    timeframe: HistoricalPriceResolution,
+    prices: HistoricalPrice[],
+    resolutionMs: number
+  ): void {
+    const [first] = prices;
+    const last = prices[prices.length - 1];
+    if (!this.priceStore || !first || !last) {
+      return;
+    }
+
+    try {
+      this.priceStore.saveHistoricalPrices(prices, {
+        isin,
+        period,
+        timeframe,
+        firstTimestamp: Date.parse(first.timestamp),
+        lastEnd: Date.parse(last.timestamp) + resolutionMs,
+      });
+    } catch (error) {
+      logger.warn('Failed to cache historical prices', {
+        isin,
+        period,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  /**
+   * Get news for an instrument
+   */
+  public async getMarketNews(isin?: string, limit: number = 20): Promise<MarketNewsResponse> {
+    if (!isin) {
+      throw new TradingError('An ISIN is required to load news', 'INVALID_REQUEST');
+    }
+    this.validateIsin(isin);
+
+    const items = await this.request('neonNews', { isin });
+    const articles = items.slice(0, limit).map(item => ({
+      id: item.id,
+      title: item.headline,
+      summary: item.summary ?? '',
+      author: item.provider,
+      publishedAt: new Date(item.createdAt).toISOString(),
+      source: item.provider,
+      url: item.url,
+      instruments: [isin],
+    }));
+
+    return { articles, count: articles.length, hasMore: items.length > limit };
+  }
+
+  /**
+   * Get the watchlist with current prices
+   */
+  public async getWatchlist(): Promise<WatchlistResponse> {
+    const response = await this.request('watchlist', {});
+    const entries = response.watchlist ?? [];
+
+    const items = await Promise.all(
+      entries.map(async (entry): Promise<WatchlistItem> => {
+        const [instrument, price] = await Promise.all([
+          this.request('instrument', { id: entry.instrumentId }),
+          this.getRealTimePrice(entry.instrumentId),
+        ]);
+
+        return {
+          isin: entry.instrumentId,
+          instrumentName: instrument.name ?? instrument.shortName ?? entry.instrumentId,
+          symbol: instrument.intlSymbol ?? instrument.homeSymbol ?? '',
+          currentPrice: price.price,
+          currency: price.currency,
+          change: price.change,
+          changePercent: price.changePercent,
+          addedAt: new Date(entry.createdAt ?? Date.now()).toISOString(),
+        };
+      })
+    );
+
+    return { items, count: items.length, lastUpdated: new Date().toISOString() };
+  }
+
+  /**
+   * Add an instrument to the watchlist
+   */
+  public async addToWatchlist(isin: string): Promise<boolean> {
+    this.validateIsin(isin);
+    await this.request('addToWatchlist', { instrumentId: isin });
+    return true;
+  }
+
+  /**
+   * Remove an instrument from the watchlist
+   */
+  public async removeFromWatchlist(isin: string): Promise<boolean> {
+    this.validateIsin(isin);
+    await this.request('removeFromWatchlist', { instrumentId: isin });
+    return true;
+  }
+
+  /**
+   * Validate buy order data
+   */
+  private validateBuyOrder(orderData: BuyOrderData): void {
+    this.validateIsin(orderData.isin);
+
+    const hasQuantity = orderData.quantity !== undefined;
+    const hasAmount = orderData.amount !== undefined;
+
+    if (hasQuantity === hasAmount) {
+      throw new InvalidOrderError('Specify either quantity or amount, but not both');
+    }
+
+    if (hasQuantity && !(orderData.quantity! > 0)) {
+      throw new InvalidOrderError('Quantity must be greater than zero');
+    }
+
+    if (hasAmount && !(orderData.amount! > 0)) {
+      throw new InvalidOrderError('Amount must be greater than zero');
+    }
+
+    this.validateOrderType(orderData.orderType, orderData.limitPrice, orderData.expiryDate);
+  }
+
+  /**
+   * Validate sell order data
+   */
+  private validateSellOrder(orderData: SellOrderData): void {
+    this.validateIsin(orderData.isin);
+
+    if (!(orderData.quantity > 0)) {
+      throw new InvalidOrderError('Quantity must be greater than zero');
+    }
+
+    this.validateOrderType(orderData.orderType, orderData.limitPrice, orderData.expiryDate);
+  }
+
+  /**
+   * Validate limit price and expiry against the order type
+   */
+  private validateOrderType(orderType: OrderType, limitPrice?: number, expiryDate?: string): void {
+    if (orderType === 'limit') {
+      if (limitPrice === undefined || !(limitPrice > 0)) {
+        throw new InvalidOrderError('Limit orders require a limitPrice greater than zero');
+      }
+    } else if (limitPrice !== undefined) {
+      throw new InvalidOrderError('limitPrice is only valid for limit orders');
+    }
+
+    if (expiryDate !== undefined) {
+      if (orderType !== 'limit') {
+        throw new InvalidOrderError('expiryDate is only valid for limit orders');
+      }
+
+      const expiry = new Date(expiryDate);
+      if (Number.isNaN(expiry.getTime())) {
+        throw new InvalidOrderError(`Invalid expiryDate: ${expiryDate}`);
+      }
+
+      const today = new Date().toISOString().substring(0, 10);
+      if (expiry.toISOString().substring(0, 10) < today) {
+        throw new InvalidOrderError('expiryDate must not be in the past');
+      }
+    }
+  }
+
+  /**
+   * Validate ISIN format
+   */
+  private validateIsin(isin: string): void {
+    if (!ISIN_PATTERN.test(isin)) {
+      throw new InvalidOrderError(`Invalid ISIN: ${isin}`);
+    }
+  }
+
+  /**
+   * Resolve the Trade Republic exchange id for a venue
+   */
+  private getExchangeId(venue: TradingVenue): string {
+    const exchangeId = VENUE_EXCHANGES[venue];
+    if (!exchangeId) {
+      throw new InvalidOrderError(`Trading venue ${venue} is not supported by Trade Republic`);
+    }
+    return exchangeId;
+  }
+
+  /**
+   * Send the order creation message and return the order id
+   */
+  private async createOrder(
+    side: OrderSide,
+    orderData: SellOrderData | (BuyOrderData & { quantity: number }),
+    exchangeId: string,
+    funds: { estimatedTotal: number; available: number; currency: string }
+  ): Promise<string> {
+    const expiry: TRCreateOrderRequest['parameters']['expiry'] = orderData.expiryDate
+      ? { type: 'gtd', value: new Date(orderData.expiryDate).toISOString().substring(0, 10) }
+      : { type: orderData.orderType === 'limit' ? 'gtc' : 'gfd' };
+
+    const parameters: TRCreateOrderRequest['parameters'] = {
+      instrumentId: orderData.isin,
+      exchangeId,
+      expiry,
+      mode: orderData.orderType,
+      size: orderData.quantity,
+      type: side,
+    };
+
+    if (orderData.orderType === 'limit') {
+      parameters.limit = orderData.limitPrice;
+    }
+
+    if (side === 'sell') {
+      parameters.sellFractions = !Number.isInteger(orderData.quantity);
+    }
+
+    logger.info('Placing order', {
+      side,
+      isin: orderData.isin,
+      exchangeId,
+      size: orderData.quantity,
+    });
+
+    try {
+      const response = await this.request('simpleCreateOrder', {
+        clientProcessId: randomUUID(),
+        warningsShown: [],
+        parameters,
+      });
+
+      const orderId = response.orderId ?? response.id;
+      if (!orderId) {
+        throw new TradingError('No order ID received from Trade Republic', 'INVALID_RESPONSE');
+      }
+
+      logger.info('Order placed', { orderId, side, isin: orderData.isin });
+      return orderId;
+    } catch (error) {
+      if (error instanceof TRSubscriptionError) {
+        throw this.mapOrderError(error, orderData.venue, funds);
+      }
+      if (isUnanswered(error)) {
+        throw new OrderStatusUnknownError('simpleCreateOrder');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Translate an order error frame into a trading error
+   */
+  private mapOrderError(
+    error: TRSubscriptionError,
+    venue: TradingVenue,
+    funds: { estimatedTotal: number; available: number; currency: string }
+  ): TradingError {
+    const code = (error.errorCode ?? '').toUpperCase();
+
+    if (code.includes('CLOSED') || code.includes('NOT_OPEN') || code.includes('TRADING_HOURS')) {
+      return new MarketClosedError(venue);
+    }
+
+    if (code.includes('INSUFFICIENT') || code.includes('FUNDS')) {
+      return new InsufficientFundsError(funds.estimatedTotal, funds.available, funds.currency);
+    }
+
+    return new InvalidOrderError(error.message);
+  }
+
+  /**
+   * Build the order response returned to callers
+   */
+  private buildOrderResponse(
+    orderId: string,
+    side: OrderSide,
+    orderData: SellOrderData | (BuyOrderData & { quantity: number }),
+    estimatedTotal: number,
+    currency: string
+  ): OrderResponse {
+    return {
+      orderId,
+      status: 'pending',
+      isin: orderData.isin,
+      side,
+      orderType: orderData.orderType,
+      quantity: orderData.quantity,
+      amount: 'amount' in orderData ? orderData.amount : undefined,
+      limitPrice: orderData.limitPrice,
+      venue: orderData.venue,
+      createdAt: new Date().toISOString(),
+      estimatedFees: { commission: ORDER_FEE, currency },
+      estimatedTotal: { amount: estimatedTotal, currency },
+    };
+  }
+
+  /**
+   * Map a Trade Republic order to order history
+   */
+  private mapOrder(order: TROrder): OrderHistory {
+    const venue =
+      (Object.entries(VENUE_EXCHANGES).find(([, id]) => id === order.exchangeId)?.[0] as
+        | TradingVenue
+        | undefined) ?? 'LANG_SCHWARZ';
+    const toIso = (value?: number | string): string | undefined =>
+      value !== undefined ? new Date(value).toISOString() : undefined;
+    const createdAt = toIso(order.createdAt) ?? new Date(0).toISOString();
+
+    return {
+      orderId: order.id,
+      status: ORDER_STATUS[order.status] ?? 'pending',
+      isin: order.instrumentId,
+      instrumentName: order.name ?? order.instrumentId,
+      side: order.type,
+      orderType: order.mode === 'limit' ? 'limit' : 'market',
+      quantity: order.size !== undefined ? Number(order.size) : undefined,
+      limitPrice: order.limit !== undefined ? Number(order.limit) : undefined,
+      executedPrice: order.averagePrice !== undefined ? Number(order.averagePrice) : undefined,
+      executedQuantity: order.executedSize !== undefined ? Number(order.executedSize) : undefined,
+      venue,
+      createdAt,
+      updatedAt: toIso(order.updatedAt) ?? createdAt,
+      executedAt: toIso(order.executedAt),
+    };
+  }
+
+  /**
+   * Fetch the first payload of a topic
+   */
+  private request<T extends TRTopic>(
+    type: T,
+    payload: TRTopicRequest<T>
+  ): Promise<TRTopicResponse<T>> {
+    return this.websocket.request(type, payload, {
+      timeoutMs: this.timeoutMs,
+      priority: ORDER_TOPICS.includes(type) ? 'high' : undefined,
+      resend: ORDER_COMMANDS.includes(type) ? false : undefined,
+    });
+  }
+}
+
+/**
+ * Whether a request was sent but its answer never came; a request that timed out
+ * while still queued never reached the server
+ */
+function isUnanswered(error: unknown): boolean {
+  return (
+    error instanceof TRRequestInterruptedError ||
+    (error instanceof TRRequestTimeoutError && !(error instanceof TRRequestQueueTimeoutError))
+  );
+}
+
+/**
+ * Stored candle to the response shape
+ */
+function toHistoricalPricePoint(price: HistoricalPrice): HistoricalPricePoint {
+  return {
+    timestamp: price.timestamp,
+    open: price.open,
+    high: price.high,
+    low: price.low,
+    close: price.close,
+    volume: price.volume ?? 0,
+  };
+}
@@ -18,12 +18,21 @@ export interface AuthToken {
   tokenType: 'Bearer';
 }
 
+export interface SessionCookie {
+  name: string;
+  value: string;
+  expiresAt?: number;
+  path?: string;
+}
+
 export interface AuthSession {
   token: AuthToken;
   userId: string;
   sessionId: string;
   createdAt: number;
   lastActivity: number;
+  cookies?: SessionCookie[]; // tr_session / tr_refresh from the web login
+  authMethod?: 'web' | 'device'; // Web login with 2FA, or app login signed with device keys
 }
 
 export interface LoginResult {
@@ -87,3 +96,10 @@ export class SessionExpiredError extends AuthenticationError {
     this.name = 'SessionExpiredError';
   }
 }
+
+export class CredentialStoreError extends AuthenticationError {
+  constructor(message: string) {
+    super(message, 'CREDENTIAL_STORE_ERROR');
+    this.name = 'CredentialStoreError';
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Ledger Types
+ *
+ * Normalized account transactions imported from the Trade Republic timeline
+ */
+
+export type LedgerEventType =
+  | 'buy'
+  | 'sell'
+  | 'savings_plan'
+  | 'dividend'
+  | 'interest'
+  | 'deposit'
+  | 'withdrawal'
+  | 'card_payment'
+  | 'fee'
+  | 'tax'
+  | 'corporate_action'
+  | 'other';
+
+export interface LedgerTransaction {
+  id: string; // Timeline event id
+  type: LedgerEventType;
+  eventType?: string; // Trade Republic event type the row was classified from
+  status?: string;
+  timestamp: string; // ISO 8601
+  title: string;
+  isin?: string;
+  amount: number; // Cash effect on the account; negative for outflows
+  currency: string;
+  quantity?: number;
+  price?: number;
+  fees: number;
+  taxes: number; // Total taxes withheld or refunded
+  capitalGainsTax?: number; // Kapitalertragsteuer
+  solidaritySurcharge?: number; // Solidaritätszuschlag
+  churchTax?: number; // Kirchensteuer
+  withholdingTax?: number; // Foreign withholding tax (Quellensteuer)
+}
+
+export interface LedgerQuery {
+  isin?: string;
+  types?: LedgerEventType[];
+  from?: string; // ISO 8601, inclusive
+  until?: string; // ISO 8601, exclusive
+}
@@ -45,6 +45,29 @@ export interface MarketStatus {
   timezone: string;
 }
 
+/**
+ * One quote from a ticker subscription; time is the newest bid/ask/last time (ms)
+ */
+export interface PriceTick {
+  isin: string;
+  time: number;
+  bid?: number;
+  ask?: number;
+  last?: number;
+}
+
+export type CandleTimeframe = '1m' | '5m' | '15m' | '1h' | '1d';
+
+/**
+ * OHLC candle built from ticks; timestamp is the bucket start (ms).
+ * Quotes carry no traded size, so volume stays unset.
+ */
+export interface Candle extends PricePoint {
+  isin: string;
+  timeframe: CandleTimeframe;
+  ticks: number;
+}
+
 export interface SearchResult {
   isin: string;
   name: string;
@@ -12,6 +12,7 @@ export interface Portfolio {
   totalReturnPercentage: number;
   positions: Position[];
   cash: CashPosition;
+  status?: string; // Account status as reported by portfolioStatus
   lastUpdated: number;
 }
 
@@ -136,15 +136,24 @@ export interface HistoricalPricePoint {
   volume: number;
 }
 
+export type HistoricalPricePeriod = '1d' | '5d' | '1m' | '3m' | '6m' | '1y' | '5y' | 'max';
+
+/**
+ * Candle size of historical prices; '1m' here is one minute, not one month
+ */
+export type HistoricalPriceResolution = '1m' | '5m' | '15m' | '1h' | '1d' | '1w';
+
 /**
  * Historical price data response
  */
 export interface HistoricalPricesResponse {
   isin: string;
-  period: '1d' | '5d' | '1m' | '3m' | '6m' | '1y' | '5y';
+  period: HistoricalPricePeriod;
+  resolution: HistoricalPriceResolution;
   currency: string;
   data: HistoricalPricePoint[];
   count: number;
+  cached: boolean; // Served from the price cache without a server request
 }
 
 /**
@@ -224,7 +233,7 @@ export interface TradingLimits {
  * Market status information
  */
 export interface MarketStatus {
-  venue: TradingVenue;
+  venue: TradingVenue | 'LSX'; // LSX is the TR exchange id of Lang & Schwarz
   status: 'open' | 'closed' | 'pre_market' | 'after_hours';
   nextOpen?: string; // ISO date string
   nextClose?: string; // ISO date string
@@ -265,3 +274,16 @@ export class InvalidOrderError extends TradingError {
     super(message, 'INVALID_ORDER');
   }
 }
+
+/**
+ * An order command was sent but never answered; check the order list before retrying
+ */
+export class OrderStatusUnknownError extends TradingError {
+  constructor(command: string, orderId?: string) {
+    super(
+      `No answer to ${command}; the order status is unknown, check the orders before retrying`,
+      'ORDER_STATUS_UNKNOWN',
+      orderId
+    );
+  }
+}
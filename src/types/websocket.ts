@@ -4,142 +4,348 @@
  * TypeScript definitions for Trade Republic WebSocket communication
  */
 
-export interface WebSocketMessage {
-  type: MessageType;
-  id?: string;
-  payload: unknown;
-  timestamp: number;
-}
-
-export type MessageType =
-  | 'subscribe'
-  | 'unsubscribe'
-  | 'price_update'
-  | 'portfolio_update'
-  | 'order_update'
-  | 'execution'
-  | 'market_status'
-  | 'news'
-  | 'watchlist_update'
-  | 'error'
-  | 'heartbeat'
-  | 'auth';
-
-export interface SubscriptionRequest {
-  type: 'subscribe';
-  channel: ChannelType;
-  isin?: string;
+/**
+ * Numeric values TR sends either as numbers or as decimal strings
+ */
+export type TRNumber = number | string;
+
+export interface TRPricePoint {
+  time: number;
+  price: TRNumber;
+  size?: TRNumber;
+}
+
+export interface TRTicker {
+  bid?: TRPricePoint;
+  ask?: TRPricePoint;
+  last?: TRPricePoint;
+  pre?: TRPricePoint;
+  open?: TRPricePoint;
+  qualityId?: string;
+  leverage?: number | null;
+  delta?: number | null;
+}
+
+export interface TRInstrumentExchange {
+  slug: string;
+  symbolAtExchange?: string;
+  nameAtExchange?: string;
+}
+
+export interface TRInstrument {
+  isin: string;
+  name?: string;
+  shortName?: string;
+  intlSymbol?: string;
+  homeSymbol?: string;
+  typeId?: string;
+  exchangeIds?: string[];
+  exchanges?: TRInstrumentExchange[];
+  imageId?: string;
+  tags?: Array<{ type: string; id: string; name: string }>;
+}
+
+export interface TRCompactPosition {
+  instrumentId: string;
+  netSize: TRNumber;
+  averageBuyIn: TRNumber;
+}
+
+export interface TRCompactPortfolio {
+  positions?: TRCompactPosition[];
+}
+
+export interface TRCashEntry {
+  accountNumber?: string;
+  currencyId: string;
+  amount: number;
+}
+
+export interface TRPortfolioStatus {
+  status?: string;
+}
+
+export interface TRAmount {
+  currency: string;
+  value: number;
+  fractionDigits?: number;
+}
+
+export interface TRTimelineTransaction {
   id: string;
+  timestamp: string;
+  title: string;
+  subtitle?: string;
+  status?: string;
+  eventType?: string;
+  icon?: string;
+  amount?: TRAmount;
+  subAmount?: TRAmount;
+  action?: { type: string; payload: unknown };
+}
+
+export interface TRTimelineTransactions {
+  items: TRTimelineTransaction[];
+  cursors?: { before?: string; after?: string };
+}
+
+export interface TRTimelineDetailSection {
+  type: string;
+  title?: string;
+  data?: unknown;
+  action?: { type: string; payload: unknown };
 }
 
-export interface UnsubscriptionRequest {
-  type: 'unsubscribe';
-  channel: ChannelType;
-  isin?: string;
+export interface TRTimelineDetail {
   id: string;
+  sections: TRTimelineDetailSection[];
 }
 
-export type ChannelType = 'price' | 'portfolio' | 'orders' | 'executions' | 'market_status' | 'news' | 'watchlist';
+export interface TROrder {
+  id: string;
+  instrumentId: string;
+  name?: string;
+  type: 'buy' | 'sell';
+  mode: string;
+  status: string;
+  size?: TRNumber;
+  executedSize?: TRNumber;
+  limit?: TRNumber;
+  averagePrice?: TRNumber;
+  exchangeId?: string;
+  createdAt?: TRNumber;
+  updatedAt?: TRNumber;
+  executedAt?: TRNumber;
+}
 
-export interface PriceUpdateMessage extends WebSocketMessage {
-  type: 'price_update';
-  payload: {
-    isin: string;
-    price: number;
-    currency: string;
-    bid?: number;
-    ask?: number;
-  };
+export interface TROrders {
+  orders?: TROrder[];
 }
 
-export interface PortfolioUpdateMessage extends WebSocketMessage {
-  type: 'portfolio_update';
-  payload: {
-    totalValue: number;
-    dayChange: number;
-    dayChangePercentage: number;
-    positions?: Array<{
-      isin: string;
-      quantity: number;
-      value: number;
-    }>;
+export interface TRSearchRequest {
+  data: {
+    q: string;
+    page: number;
+    pageSize: number;
+    filter: Array<{ key: string; value: string }>;
   };
 }
 
-export interface OrderUpdateMessage extends WebSocketMessage {
-  type: 'order_update';
-  payload: {
-    orderId: string;
-    status: 'pending' | 'executed' | 'cancelled' | 'rejected' | 'partial';
-    isin: string;
-    side: 'buy' | 'sell';
-    quantity?: number;
-    executedQuantity?: number;
-    price?: number;
-    executedPrice?: number;
-    timestamp: string;
-  };
+export interface TRSearchResult {
+  isin: string;
+  name: string;
+  type: string;
+  tags?: Array<{ type: string; id: string; name: string }>;
 }
 
-export interface ExecutionMessage extends WebSocketMessage {
-  type: 'execution';
-  payload: {
-    orderId: string;
-    tradeId: string;
-    isin: string;
-    side: 'buy' | 'sell';
-    quantity: number;
-    price: number;
-    executedAt: string;
-    fees?: {
-      commission: number;
-      currency: string;
-    };
-  };
+export interface TRSearchResults {
+  results: TRSearchResult[];
+  resultCount: number;
+}
+
+export type TRHistoryRange = '1d' | '5d' | '1m' | '3m' | '1y' | 'max';
+
+export interface TRAggregate {
+  time: number;
+  open: TRNumber;
+  high: TRNumber;
+  low: TRNumber;
+  close: TRNumber;
+  volume?: TRNumber;
+  adjValue?: TRNumber;
+}
+
+export interface TRAggregateHistory {
+  aggregates?: TRAggregate[];
+  resolution?: number;
+  expectedClosingTime?: number;
+  lastAggregateEndTime?: number;
 }
 
-export interface MarketStatusMessage extends WebSocketMessage {
-  type: 'market_status';
-  payload: {
-    venue: string;
-    status: 'open' | 'closed' | 'pre_market' | 'after_hours';
-    nextOpen?: string;
-    nextClose?: string;
-    timezone: string;
+export interface TRStockDetails {
+  isin: string;
+  company?: {
+    name?: string;
+    description?: string;
+    countryCode?: string;
+    ipoDate?: number;
+    marketCapSnapshot?: number;
+    peRatioSnapshot?: number;
+    dividendYieldSnapshot?: number;
+  };
+  analystRating?: {
+    recommendations?: Record<string, number>;
+    targetPrice?: { average?: number; high?: number; low?: number };
   };
+  expectedDividend?: { amount?: number; currency?: string; exDate?: string } | null;
+}
+
+export interface TRNewsItem {
+  id: string;
+  createdAt: number;
+  provider: string;
+  headline: string;
+  summary?: string;
+  url?: string;
 }
 
-export interface NewsMessage extends WebSocketMessage {
-  type: 'news';
-  payload: {
-    id: string;
-    title: string;
-    summary: string;
-    publishedAt: string;
-    source: string;
-    instruments?: string[];
-    tags?: string[];
-    sentiment?: 'positive' | 'negative' | 'neutral';
-    url?: string;
+export interface TRSavingsPlan {
+  id: string;
+  instrumentId: string;
+  amount: number;
+  interval: string;
+  startDate: { type: string; value?: number | string };
+  nextExecutionDate?: string;
+  paused?: boolean;
+}
+
+export interface TRSavingsPlans {
+  savingsPlans?: TRSavingsPlan[];
+}
+
+export interface TROrderParameters {
+  exchangeId: string;
+  instrumentId: string;
+}
+
+export interface TRPriceForOrder {
+  price: number;
+  currency?: string;
+  priceContext?: string;
+}
+
+export interface TRAvailableSize {
+  size?: TRNumber;
+}
+
+export interface TRWatchlist {
+  watchlist?: Array<{ instrumentId: string; createdAt?: number }>;
+}
+
+export interface TRCreateOrderRequest {
+  clientProcessId: string;
+  warningsShown: string[];
+  parameters: TROrderParameters & {
+    type: 'buy' | 'sell';
+    mode: 'market' | 'limit';
+    size: number;
+    limit?: number;
+    expiry: { type: 'gfd' | 'gtc' | 'gtd'; value?: string };
+    sellFractions?: boolean;
   };
 }
 
-export interface WatchlistUpdateMessage extends WebSocketMessage {
-  type: 'watchlist_update';
-  payload: {
-    action: 'added' | 'removed' | 'price_update';
-    isin: string;
-    instrumentName?: string;
-    currentPrice?: number;
-    change?: number;
-    changePercent?: number;
+export interface TRCreateOrder {
+  id?: string;
+  orderId?: string;
+}
+
+/**
+ * Subscription topics with their request payload (without `type`) and response
+ */
+export interface TRTopicMap {
+  ticker: { request: { id: string }; response: TRTicker };
+  instrument: { request: { id: string }; response: TRInstrument };
+  compactPortfolio: { request: Record<string, never>; response: TRCompactPortfolio };
+  cash: { request: Record<string, never>; response: TRCashEntry[] };
+  portfolioStatus: { request: Record<string, never>; response: TRPortfolioStatus };
+  timelineTransactions: { request: { after?: string }; response: TRTimelineTransactions };
+  timelineDetailV2: { request: { id: string }; response: TRTimelineDetail };
+  orders: { request: Record<string, never>; response: TROrders };
+  neonSearch: { request: TRSearchRequest; response: TRSearchResults };
+  aggregateHistoryLight: {
+    request: { id: string; range: TRHistoryRange; resolution?: number };
+    response: TRAggregateHistory;
   };
+  portfolioAggregateHistory: { request: { range: TRHistoryRange }; response: TRAggregateHistory };
+  stockDetails: { request: { id: string }; response: TRStockDetails };
+  neonNews: { request: { isin: string }; response: TRNewsItem[] };
+  savingsPlans: { request: Record<string, never>; response: TRSavingsPlans };
+  priceForOrder: {
+    request: { parameters: TROrderParameters & { type: 'buy' | 'sell' } };
+    response: TRPriceForOrder;
+  };
+  availableCash: { request: Record<string, never>; response: TRCashEntry[] };
+  availableSize: { request: { parameters: TROrderParameters }; response: TRAvailableSize };
+  watchlist: { request: Record<string, never>; response: TRWatchlist };
+  addToWatchlist: { request: { instrumentId: string }; response: unknown };
+  removeFromWatchlist: { request: { instrumentId: string }; response: unknown };
+  simpleCreateOrder: { request: TRCreateOrderRequest; response: TRCreateOrder };
+  cancelOrder: { request: { orderId: string }; response: unknown };
 }
 
+export type TRTopic = keyof TRTopicMap;
+export type TRTopicRequest<T extends TRTopic> = TRTopicMap[T]['request'];
+export type TRTopicResponse<T extends TRTopic> = TRTopicMap[T]['response'];
+
 export interface WebSocketConfig {
   url: string;
   reconnectDelay: number;
   maxReconnectAttempts: number;
+  maxReconnectDelay: number;
   heartbeatInterval: number;
   subscriptionTimeout: number;
+  maxConcurrentSubscriptions: number;
+}
+
+/**
+ * No data arrived for a one-shot request in time
+ */
+export class TRRequestTimeoutError extends Error {
+  public readonly topic: string;
+  public readonly timeoutMs: number;
+
+  constructor(topic: string, timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms waiting for ${topic} data`);
+    this.name = 'TRRequestTimeoutError';
+    this.topic = topic;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * A one-shot request waited too long for a free subscription slot
+ */
+export class TRRequestQueueTimeoutError extends TRRequestTimeoutError {
+  constructor(topic: string, timeoutMs: number) {
+    super(topic, timeoutMs);
+    this.message = `Timed out after ${timeoutMs}ms waiting for a subscription slot for ${topic}`;
+    this.name = 'TRRequestQueueTimeoutError';
+  }
+}
+
+/**
+ * The connection dropped after a request was sent that must not be sent again, so
+ * whether the server acted on it is unknown
+ */
+export class TRRequestInterruptedError extends Error {
+  public readonly topic: string;
+
+  constructor(topic: string) {
+    super(`Connection lost after sending ${topic}; it was not sent again`);
+    this.name = 'TRRequestInterruptedError';
+    this.topic = topic;
+  }
+}
+
+/**
+ * Error frame ('E') received for a subscription
+ */
+export class TRSubscriptionError extends Error {
+  public readonly topic: string;
+  public readonly payload: unknown;
+  public readonly errorCode?: string;
+
+  constructor(topic: string, payload: unknown) {
+    const errors = (payload as { errors?: Array<{ errorCode?: string; errorMessage?: string }> })
+      ?.errors;
+    const first = errors?.[0];
+    super(
+      `Subscription ${topic} failed: ${first?.errorMessage ?? first?.errorCode ?? JSON.stringify(payload)}`
+    );
+    this.name = 'TRSubscriptionError';
+    this.topic = topic;
+    this.payload = payload;
+    this.errorCode = first?.errorCode;
+  }
 }
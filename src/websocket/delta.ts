@@ -0,0 +1,48 @@
+/**
+ * Trade Republic Delta Decoding
+ *
+ * Reconstructs full payloads from 'D' messages. A delta is a tab separated list of
+ * instructions applied to the previous payload string:
+ *   =N     copy the next N characters of the previous payload
+ *   -N     skip the next N characters of the previous payload
+ *   +text  insert text (URL encoded, '+' stands for a space)
+ */
+
+/**
+ * Apply a delta to the previous full payload and return the new full payload
+ */
+export function applyDelta(previous: string, delta: string): string {
+  const result: string[] = [];
+  let position = 0;
+
+  for (const instruction of delta.split('\t')) {
+    if (!instruction) {
+      continue;
+    }
+
+    const sign = instruction[0];
+    const value = instruction.substring(1);
+
+    switch (sign) {
+      case '+':
+        result.push(decodeURIComponent(value.replace(/\+/g, ' ')));
+        break;
+      case '=':
+      case '-': {
+        const length = parseInt(value, 10);
+        if (Number.isNaN(length) || length < 0 || position + length > previous.length) {
+          throw new Error(`Invalid delta instruction: ${instruction}`);
+        }
+        if (sign === '=') {
+          result.push(previous.substring(position, position + length));
+        }
+        position += length;
+        break;
+      }
+      default:
+        throw new Error(`Unknown delta instruction: ${instruction}`);
+    }
+  }
+
+  return result.join('');
+}
@@ -0,0 +1,182 @@
+/**
+ * Subscription Stream
+ *
+ * Buffers subscription updates for consumption with `for await`, with a
+ * configurable policy for consumers that fall behind
+ */
+
+/**
+ * What happens when the buffer is full:
+ * drop the oldest update, drop the incoming update, or pause the subscription until
+ * the consumer catches up
+ */
+export type StreamOverflowPolicy = 'drop-oldest' | 'drop-newest' | 'block';
+
+export interface StreamOptions {
+  bufferSize?: number;
+  overflow?: StreamOverflowPolicy;
+}
+
+export interface StreamHooks {
+  pause: () => void;
+  resume: () => void;
+  release: () => Promise<void>;
+}
+
+interface PendingRead<T> {
+  resolve: (result: IteratorResult<T, undefined>) => void;
+  reject: (error: Error) => void;
+}
+
+const DEFAULT_BUFFER_SIZE = 100;
+
+export class SubscriptionStream<T> implements AsyncIterableIterator<T, undefined> {
+  private buffer: T[] = [];
+  private pending: PendingRead<T>[] = [];
+  private bufferSize: number;
+  private overflow: StreamOverflowPolicy;
+  private hooks: StreamHooks;
+  private error?: Error;
+  private closed = false;
+  private paused = false;
+  private droppedCount = 0;
+
+  constructor(options: StreamOptions, hooks: StreamHooks) {
+    this.bufferSize = Math.max(1, options.bufferSize ?? DEFAULT_BUFFER_SIZE);
+    this.overflow = options.overflow ?? 'drop-oldest';
+    this.hooks = hooks;
+  }
+
+  /**
+   * Updates discarded by the overflow policy so far
+   */
+  public get dropped(): number {
+    return this.droppedCount;
+  }
+
+  /**
+   * Whether the stream has stopped accepting updates
+   */
+  public get isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Deliver an update to a waiting reader or buffer it
+   */
+  public push(value: T): void {
+    if (this.closed) {
+      return;
+    }
+
+    const reader = this.pending.shift();
+    if (reader) {
+      reader.resolve({ value, done: false });
+      return;
+    }
+
+    if (this.buffer.length >= this.bufferSize) {
+      if (this.overflow === 'drop-newest') {
+        this.droppedCount++;
+        return;
+      }
+      if (this.overflow === 'drop-oldest') {
+        this.buffer.shift();
+        this.droppedCount++;
+      }
+    }
+
+    this.buffer.push(value);
+
+    // Updates already in flight still arrive after pausing, so the buffer may overshoot
+    if (this.overflow === 'block' && !this.paused && this.buffer.length >= this.bufferSize) {
+      this.paused = true;
+      this.hooks.pause();
+    }
+  }
+
+  /**
+   * Finish the stream once buffered updates are consumed
+   */
+  public end(): void {
+    if (this.closed) {
+      return;
+    }
+    this.close();
+    this.pending.splice(0).forEach(reader => reader.resolve({ value: undefined, done: true }));
+  }
+
+  /**
+   * Fail the stream; readers get the error after buffered updates
+   */
+  public fail(error: Error): void {
+    if (this.closed) {
+      return;
+    }
+    this.close();
+
+    const [reader, ...others] = this.pending.splice(0);
+    if (reader) {
+      reader.reject(error);
+      others.forEach(other => other.resolve({ value: undefined, done: true }));
+    } else {
+      this.error = error;
+    }
+  }
+
+  public next(): Promise<IteratorResult<T, undefined>> {
+    if (this.buffer.length > 0) {
+      const value = this.buffer.shift() as T;
+      this.resumeIfDrained();
+      return Promise.resolve({ value, done: false });
+    }
+
+    if (this.error) {
+      const error = this.error;
+      this.error = undefined;
+      return Promise.reject(error);
+    }
+
+    if (this.closed) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+
+    return new Promise((resolve, reject) => this.pending.push({ resolve, reject }));
+  }
+
+  /**
+   * Called when a `for await` loop exits early: discard buffered updates and unsubscribe
+   */
+  public async return(): Promise<IteratorResult<T, undefined>> {
+    this.buffer = [];
+    this.error = undefined;
+    this.end();
+    return { value: undefined, done: true };
+  }
+
+  public [Symbol.asyncIterator](): this {
+    return this;
+  }
+
+  /**
+   * Stop accepting updates, end a pause and release the subscription
+   */
+  private close(): void {
+    this.closed = true;
+    if (this.paused) {
+      this.paused = false;
+      this.hooks.resume();
+    }
+    this.hooks.release().catch(() => {});
+  }
+
+  /**
+   * Resume the subscription once a blocked consumer has caught up halfway
+   */
+  private resumeIfDrained(): void {
+    if (this.paused && this.buffer.length <= this.bufferSize / 2) {
+      this.paused = false;
+      this.hooks.resume();
+    }
+  }
+}
@@ -7,6 +7,16 @@ import { EventEmitter } from 'events';
 import WebSocket from 'ws';
 import { logger } from '../utils/logger.js';
 import { AuthManager } from '../auth/manager.js';
+import { applyDelta } from './delta.js';
+import { SubscriptionStream } from './subscription-stream.js';
+import type { StreamOptions } from './subscription-stream.js';
+import {
+  TRRequestInterruptedError,
+  TRRequestQueueTimeoutError,
+  TRRequestTimeoutError,
+  TRSubscriptionError,
+} from '../types/websocket.js';
+import type { TRTopic, TRTopicRequest, TRTopicResponse } from '../types/websocket.js';
 
 export interface TRWebSocketConfig {
   url: string;
@@ -14,13 +24,91 @@ export interface TRWebSocketConfig {
   connectionTimeout?: number;
   maxReconnectAttempts?: number;
   reconnectDelay?: number;
+  maxReconnectDelay?: number;
+  requestTimeout?: number;
+  heartbeatInterval?: number; // Ping interval; a ping without pong marks the connection stale (0 disables)
+  subscriptionTimeout?: number; // Silence after which a subscription is stale and re-sent (0 disables)
+  maxConcurrentSubscriptions?: number; // Open wire subscriptions; further ones wait in a queue
 }
 
+/**
+ * Queue order when the concurrent subscription limit is reached
+ */
+export type TRSubscriptionPriority = 'high' | 'normal' | 'low';
+
+export interface TRSubscribeOptions {
+  priority?: TRSubscriptionPriority;
+  resend?: boolean; // False for commands that must reach the server at most once
+}
+
+export interface TRRequestOptions extends TRSubscribeOptions {
+  timeoutMs?: number; // Time spent waiting in the queue does not count
+  maxQueueMs?: number; // Longest wait for a free slot, by default QUEUE_TIMEOUT_FACTOR × timeoutMs
+}
+
+/**
+ * Connection lifecycle: idle -> connecting -> handshaking -> ready, and after an
+ * unexpected close backoff -> connecting ... until ready again or failed
+ */
+export type TRConnectionState =
+  | 'idle'
+  | 'connecting'
+  | 'handshaking'
+  | 'ready'
+  | 'backoff'
+  | 'failed';
+
+export interface TRConnectionStatus {
+  state: TRConnectionState;
+  connected: boolean;
+  authenticated: boolean;
+  subscriptions: number;
+  handles: number;
+  reconnectAttempts: number;
+  nextReconnectAt?: number;
+  openSubscriptions: number;
+  queuedSubscriptions: number;
+  maxConcurrentSubscriptions: number;
+  longestQueueWaitMs: number; // Oldest subscription still waiting
+  averageQueueWaitMs: number; // Over subscriptions that left the queue
+}
+
+/**
+ * A wire subscription, shared by every caller subscribing to the same topic and payload
+ */
 export interface TRSubscription {
   id: string;
-  type: string;
-  payload: any;
-  callback: (data: any) => void;
+  key: string;
+  type: TRTopic;
+  payload: { type: TRTopic } & Record<string, unknown>;
+  callbacks: Map<string, (data: unknown) => void>;
+  priority: TRSubscriptionPriority;
+  resend: boolean; // Whether reconnects and the staleness check may send it again
+  sent: boolean;
+  queuedAt?: number; // Set while waiting for a free slot
+  lastDataAt?: number; // When the last frame arrived, or when it was (re)sent
+}
+
+const QUEUE_TIMEOUT_FACTOR = 5;
+const PRIORITY_RANK: Record<TRSubscriptionPriority, number> = { high: 0, normal: 1, low: 2 };
+
+/**
+ * Identity of a subscription payload, independent of key order
+ */
+function createSubscriptionKey(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(createSubscriptionKey).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    const fields = entries.map(
+      ([name, entry]) => `${JSON.stringify(name)}:${createSubscriptionKey(entry)}`
+    );
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
 }
 
 export class TradeRepublicWebSocket extends EventEmitter {
@@ -28,11 +116,22 @@ export class TradeRepublicWebSocket extends EventEmitter {
   private config: Required<TRWebSocketConfig>;
   private authManager: AuthManager;
   private subscriptions = new Map<string, TRSubscription>();
+  private subscriptionKeys = new Map<string, string>(); // payload key -> wire id
+  private handles = new Map<string, string>(); // caller handle -> wire id
+  private lastPayloads = new Map<string, string>();
+  private queue: TRSubscription[] = []; // Waiting for a slot, by priority then age
+  private queueWaitTotalMs = 0;
+  private queueWaitCount = 0;
   private subscriptionCounter = 1;
-  private isConnecting = false;
-  private isConnected = false;
-  private isAuthenticated = false;
+  private state: TRConnectionState = 'idle';
+  private connectPromise?: Promise<void>;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private nextReconnectAt?: number;
   private reconnectAttempts = 0;
+  private heartbeatTimer?: ReturnType<typeof setInterval>;
+  private stalenessTimer?: ReturnType<typeof setInterval>;
+  private awaitingPong = false;
+  private lastMessageAt = 0;
 
   constructor(config: TRWebSocketConfig, authManager: AuthManager) {
     super();
@@ -43,25 +142,115 @@ export class TradeRepublicWebSocket extends EventEmitter {
       connectionTimeout: config.connectionTimeout || 30000,
       maxReconnectAttempts: config.maxReconnectAttempts || 10,
       reconnectDelay: config.reconnectDelay || 5000,
+      maxReconnectDelay: config.maxReconnectDelay ?? 60000,
+      requestTimeout: config.requestTimeout ?? 15000,
+      heartbeatInterval: config.heartbeatInterval ?? 20000,
+      subscriptionTimeout: config.subscriptionTimeout ?? 0,
+      maxConcurrentSubscriptions: Math.max(1, config.maxConcurrentSubscriptions ?? 50),
     };
     
     this.authManager = authManager;
   }
 
   /**
-   * Connect to Trade Republic WebSocket using their protocol
+   * Current connection state
+   */
+  public get connectionState(): TRConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Socket open, connect message may still be pending
+   */
+  private get isConnected(): boolean {
+    return this.state === 'handshaking' || this.state === 'ready';
+  }
+
+  /**
+   * Connect message acknowledged, subscriptions can be sent
+   */
+  private get isAuthenticated(): boolean {
+    return this.state === 'ready';
+  }
+
+  /**
+   * Move to a new connection state and tell listeners
+   */
+  private setState(state: TRConnectionState, details: Record<string, unknown> = {}): void {
+    if (this.state === state) {
+      return;
+    }
+
+    const previous = this.state;
+    this.state = state;
+    logger.debug('WebSocket state changed', { from: previous, to: state, ...details });
+    this.emit('stateChange', { from: previous, to: state, ...details });
+  }
+
+  /**
+   * Connect to Trade Republic WebSocket using their protocol.
+   * Refreshes an expired session first and sends every open subscription once ready.
    */
   public async connect(): Promise<void> {
-    if (this.isConnecting || this.isConnected) {
+    if (this.state === 'ready') {
+      return;
+    }
+
+    // Share an attempt in progress instead of opening a second socket
+    if (this.connectPromise) {
+      return this.connectPromise;
+    }
+
+    // Connecting explicitly during backoff skips the remaining wait
+    this.clearReconnectTimer();
+
+    this.connectPromise = this.openConnection().finally(() => {
+      this.connectPromise = undefined;
+    });
+    return this.connectPromise;
+  }
+
+  /**
+   * Make sure the session is usable for the handshake, refreshing it if it has expired
+   */
+  private async ensureSession(): Promise<void> {
+    if (this.authManager.isAuthenticated()) {
       return;
     }
 
-    if (!this.authManager.isAuthenticated()) {
+    if (!this.authManager.canRefreshSession()) {
       throw new Error('Not authenticated. Please login first.');
     }
 
-    this.isConnecting = true;
+    logger.info('🔑 Session expired, refreshing before connecting...');
+    await this.authManager.refreshToken();
+  }
+
+  /**
+   * Open the socket, run the connect handshake and send open subscriptions
+   */
+  private async openConnection(): Promise<void> {
+    this.setState('connecting');
+
+    try {
+      await this.ensureSession();
+      await this.openSocket();
+      this.reconnectAttempts = 0;
+      this.startHealthChecks();
+      await this.resubscribeAll();
+      this.drainQueue();
+    } catch (error) {
+      if (this.state !== 'backoff' && this.state !== 'failed') {
+        this.setState('idle');
+      }
+      throw error;
+    }
+  }
 
+  /**
+   * Open the socket and wait for the "connected" answer to the connect message
+   */
+  private openSocket(): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
         logger.info('🔌 Connecting to Trade Republic WebSocket...', {
@@ -69,70 +258,87 @@ export class TradeRepublicWebSocket extends EventEmitter {
         });
 
         // Add headers that pytr uses for WebSocket connection
-        const headers = {
+        const headers: Record<string, string> = {
           'User-Agent': 'Trade Republic/5127 CFNetwork/1492.0.1 Darwin/23.3.0',
           'Origin': 'https://app.traderepublic.com',
           'Sec-WebSocket-Protocol': 'echo-protocol',
         };
 
-        this.ws = new WebSocket(this.config.url, { headers });
+        // The web login session lives in cookies, send them with the handshake
+        const cookieHeader = this.authManager.getCookieHeader();
+        if (cookieHeader) {
+          headers.Cookie = cookieHeader;
+        }
+
+        const socket = new WebSocket(this.config.url, { headers });
+        this.ws = socket;
+
+        // A failed attempt must not leave a half-open socket behind
+        const fail = (error: Error): void => {
+          clearTimeout(timeout);
+          socket.terminate();
+          reject(error);
+        };
 
         const timeout = setTimeout(() => {
-          reject(new Error('WebSocket connection timeout'));
+          fail(new Error('WebSocket connection timeout'));
         }, this.config.connectionTimeout);
 
-        this.ws.onopen = async () => {
+        socket.onopen = async () => {
           clearTimeout(timeout);
-          this.isConnecting = false;
-          this.isConnected = true;
-          this.reconnectAttempts = 0;
+          this.setState('handshaking');
 
           logger.info('✅ WebSocket connected, sending connect message...');
           
           try {
             await this.sendConnectMessage();
+            this.setState('ready');
+            this.emit('connected');
             resolve();
           } catch (error) {
-            reject(error);
+            fail(error instanceof Error ? error : new Error(String(error)));
           }
         };
 
-        this.ws.onmessage = (event) => {
+        socket.onmessage = (event) => {
           const message = event.data.toString();
+          this.markAlive();
           this.handleMessage(message);
         };
 
-        this.ws.onclose = (event) => {
+        socket.on('pong', () => this.markAlive());
+
+        socket.onclose = (event) => {
           clearTimeout(timeout);
-          this.isConnecting = false;
-          this.isConnected = false;
-          this.isAuthenticated = false;
+          if (this.ws !== socket) {
+            return; // Replaced or closed by disconnect()
+          }
+
+          this.ws = undefined;
+          this.stopHealthChecks();
+          const wasReady = this.state === 'ready';
 
           logger.warn('🔌 WebSocket connection closed', {
             code: event.code,
             reason: event.reason,
           });
 
-          this.emit('disconnected');
+          reject(new Error(`WebSocket closed during connect (${event.code})`));
 
-          // Auto-reconnect if not intentionally closed
-          if (event.code !== 1000) {
-            this.handleReconnect();
+          if (wasReady) {
+            this.emit('disconnected');
+            this.scheduleReconnect();
           }
         };
 
-        this.ws.onerror = (error) => {
-          clearTimeout(timeout);
-          this.isConnecting = false;
-
+        socket.onerror = (error) => {
           logger.error('❌ WebSocket error', { error });
           this.emit('error', error);
 
-          reject(new Error('WebSocket connection failed'));
+          fail(new Error('WebSocket connection failed'));
         };
 
       } catch (error) {
-        this.isConnecting = false;
         reject(error);
       }
     });
@@ -143,14 +349,17 @@ export class TradeRepublicWebSocket extends EventEmitter {
    * Based on pytr: await ws.send(f"connect {connect_id} {json.dumps(connection_message)}")
    */
   private async sendConnectMessage(): Promise<void> {
-    // Try different connection approaches based on pytr research
-    const connectId = 31; // Try web-style connection instead of app (21)
-    const connectionMessage = {
-      locale: this.config.locale,
-      platformId: "WEB",
-      clientId: "app.traderepublic.com",
-      clientVersion: "6127"
-    };
+    // App sessions (device keys) connect like the mobile app (21), web sessions as the web app (31)
+    const isDeviceSession = this.authManager.getSession()?.authMethod === 'device';
+    const connectId = isDeviceSession ? 21 : 31;
+    const connectionMessage = isDeviceSession
+      ? { locale: this.config.locale }
+      : {
+          locale: this.config.locale,
+          platformId: "WEB",
+          clientId: "app.traderepublic.com",
+          clientVersion: "6127"
+        };
 
     const connectCommand = `connect ${connectId} ${JSON.stringify(connectionMessage)}`;
     
@@ -174,8 +383,6 @@ export class TradeRepublicWebSocket extends EventEmitter {
         
         if (event.data === 'connected') {
           logger.info('✅ Received "connected" confirmation from Trade Republic');
-          this.isAuthenticated = true;
-          this.emit('connected');
           this.ws!.onmessage = originalHandler; // Restore normal message handler
           resolve();
         } else {
@@ -190,27 +397,331 @@ export class TradeRepublicWebSocket extends EventEmitter {
   /**
    * Subscribe to data using TR protocol
    * Based on pytr: await ws.send(f"sub {subscription_id} {json.dumps(payload_with_token)}")
+   * Identical topic and payload share one wire subscription; every caller gets its own handle.
+   * Beyond maxConcurrentSubscriptions new subscriptions are queued by priority.
+   * Subscriptions with `resend: false` are never shared and never sent twice; if the
+   * connection drops after sending, their callers get a 'subscriptionLost' event.
    */
-  public async subscribe(type: string, payload: any, callback: (data: any) => void): Promise<string> {
+  public async subscribe<T extends TRTopic>(
+    type: T,
+    payload: TRTopicRequest<T>,
+    callback: (data: TRTopicResponse<T>) => void,
+    options: TRSubscribeOptions = {}
+  ): Promise<string> {
+    const priority = options.priority ?? 'normal';
+    const fullPayload: TRSubscription['payload'] = { type, ...payload };
+    const key = createSubscriptionKey(fullPayload);
+
+    const existingId = this.subscriptionKeys.get(key);
+    const existing = existingId ? this.subscriptions.get(existingId) : undefined;
+    const resend = options.resend ?? true;
+    if (existing && resend && existing.resend) {
+      this.raisePriority(existing, priority);
+      return this.joinSubscription(existing, callback as (data: unknown) => void);
+    }
+
     const subscriptionId = this.getNextSubscriptionId();
-    
+
     const subscription: TRSubscription = {
       id: subscriptionId,
+      key,
       type,
-      payload,
-      callback,
+      payload: fullPayload,
+      callbacks: new Map([[subscriptionId, callback as (data: unknown) => void]]),
+      priority,
+      resend,
+      sent: false,
     };
 
     this.subscriptions.set(subscriptionId, subscription);
+    this.subscriptionKeys.set(key, subscriptionId);
+    this.handles.set(subscriptionId, subscriptionId);
 
-    if (this.isConnected && this.isAuthenticated) {
-      await this.sendSubscription(subscription);
-    }
+    this.enqueue(subscription);
+    this.drainQueue();
 
-    logger.debug('📊 Added subscription', { type, subscriptionId });
+    logger.debug('📊 Added subscription', {
+      type,
+      subscriptionId,
+      queued: subscription.queuedAt !== undefined,
+    });
     return subscriptionId;
   }
 
+  /**
+   * Wire subscriptions holding a slot, whether sent already or waiting for a reconnect
+   */
+  private get openSubscriptionCount(): number {
+    return this.subscriptions.size - this.queue.length;
+  }
+
+  /**
+   * Queue a subscription behind others of the same or higher priority
+   */
+  private enqueue(subscription: TRSubscription): void {
+    subscription.queuedAt ??= Date.now();
+    const rank = PRIORITY_RANK[subscription.priority];
+    const index = this.queue.findIndex(queued => PRIORITY_RANK[queued.priority] > rank);
+    this.queue.splice(index === -1 ? this.queue.length : index, 0, subscription);
+  }
+
+  /**
+   * A higher priority caller joining a queued subscription moves it forward
+   */
+  private raisePriority(subscription: TRSubscription, priority: TRSubscriptionPriority): void {
+    if (PRIORITY_RANK[priority] >= PRIORITY_RANK[subscription.priority]) {
+      return;
+    }
+
+    subscription.priority = priority;
+    const index = this.queue.indexOf(subscription);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+      this.enqueue(subscription);
+    }
+  }
+
+  /**
+   * Send queued subscriptions while slots are free
+   */
+  private drainQueue(): void {
+    if (!this.isAuthenticated) {
+      return;
+    }
+
+    const limit = this.config.maxConcurrentSubscriptions;
+    while (this.queue.length > 0 && this.openSubscriptionCount < limit) {
+      const subscription = this.queue.shift() as TRSubscription;
+      const waitMs = Date.now() - (subscription.queuedAt ?? Date.now());
+      subscription.queuedAt = undefined;
+      this.queueWaitTotalMs += waitMs;
+      this.queueWaitCount++;
+
+      if (waitMs > 0) {
+        logger.debug('Subscription left the queue', { subscriptionId: subscription.id, waitMs });
+      }
+
+      this.sendSubscription(subscription).catch(error => {
+        logger.error('Failed to send queued subscription', {
+          subscriptionId: subscription.id,
+          error,
+        });
+      });
+    }
+  }
+
+  /**
+   * Whether a handle is still waiting for a free slot
+   */
+  private isQueued(handleId: string): boolean {
+    const wireId = this.handles.get(handleId);
+    const subscription = wireId ? this.subscriptions.get(wireId) : undefined;
+    return subscription?.queuedAt !== undefined;
+  }
+
+  /**
+   * Add a caller to an open wire subscription
+   */
+  private joinSubscription(
+    subscription: TRSubscription,
+    callback: (data: unknown) => void
+  ): string {
+    const handleId = this.getNextSubscriptionId();
+    subscription.callbacks.set(handleId, callback);
+    this.handles.set(handleId, subscription.id);
+
+    // Late joiners get the current state instead of waiting for the next delta
+    const lastPayload = this.lastPayloads.get(subscription.id);
+    if (lastPayload !== undefined) {
+      void Promise.resolve().then(() => {
+        if (subscription.callbacks.has(handleId)) {
+          callback(lastPayload ? JSON.parse(lastPayload) : {});
+        }
+      });
+    }
+
+    logger.debug('📊 Joined existing subscription', {
+      type: subscription.type,
+      subscriptionId: subscription.id,
+      handleId,
+      callers: subscription.callbacks.size,
+    });
+    return handleId;
+  }
+
+  /**
+   * Subscribe, resolve with the first payload and unsubscribe again.
+   * Rejects with TRSubscriptionError on an error frame and TRRequestTimeoutError on timeout.
+   * With `resend: false` a dropped connection rejects with TRRequestInterruptedError.
+   * One-shot lookups queue behind live subscriptions unless a priority is given, for
+   * at most maxQueueMs before rejecting with TRRequestQueueTimeoutError.
+   */
+  public async request<T extends TRTopic>(
+    type: T,
+    payload: TRTopicRequest<T>,
+    options: TRRequestOptions = {}
+  ): Promise<TRTopicResponse<T>> {
+    const timeoutMs = options.timeoutMs ?? this.config.requestTimeout;
+    const maxQueueMs = options.maxQueueMs ?? QUEUE_TIMEOUT_FACTOR * timeoutMs;
+
+    if (!this.isWebSocketConnected()) {
+      await this.connect();
+    }
+
+    return new Promise<TRTopicResponse<T>>((resolve, reject) => {
+      let subscriptionId: string | undefined;
+      let settled = false;
+
+      const release = (id: string): void => {
+        // Subscriptions ended by an error or complete frame are already removed
+        if (this.handles.has(id)) {
+          this.unsubscribe(id).catch(() => {});
+        }
+      };
+
+      const finish = (error?: Error, data?: TRTopicResponse<T>): void => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timeout);
+        this.off('subscriptionError', onError);
+        this.off('subscriptionLost', onLost);
+        if (subscriptionId) {
+          release(subscriptionId);
+        }
+        if (error) {
+          reject(error);
+        } else {
+          resolve(data as TRTopicResponse<T>);
+        }
+      };
+
+      const onError = (event: { subscriptionId: string; error: unknown }): void => {
+        if (event.subscriptionId === subscriptionId) {
+          finish(new TRSubscriptionError(type, event.error));
+        }
+      };
+      const onLost = (event: { subscriptionId: string }): void => {
+        if (event.subscriptionId === subscriptionId) {
+          finish(new TRRequestInterruptedError(type));
+        }
+      };
+
+      const queuedAt = Date.now();
+      const onTimeout = (): void => {
+        // Waiting for a free slot is not the server being slow, but is bounded
+        if (subscriptionId && this.isQueued(subscriptionId)) {
+          const remainingMs = maxQueueMs - (Date.now() - queuedAt);
+          if (remainingMs <= 0) {
+            finish(new TRRequestQueueTimeoutError(type, maxQueueMs));
+            return;
+          }
+          timeout = setTimeout(onTimeout, Math.min(timeoutMs, remainingMs));
+          return;
+        }
+        finish(new TRRequestTimeoutError(type, timeoutMs));
+      };
+      let timeout = setTimeout(onTimeout, timeoutMs);
+
+      this.on('subscriptionError', onError);
+      this.on('subscriptionLost', onLost);
+      this.subscribe(type, payload, data => finish(undefined, data), {
+        priority: options.priority ?? 'low',
+        resend: options.resend,
+      })
+        .then(id => {
+          subscriptionId = id;
+          if (settled) {
+            release(id);
+          }
+        })
+        .catch(error => finish(error));
+    });
+  }
+
+  /**
+   * Consume a subscription with `for await`; leaving the loop unsubscribes.
+   * Error frames are thrown from the loop, complete frames and disconnects end it.
+   * A full 'block' stream unsubscribes until drained and then resubscribes, so its
+   * backpressure never holds up other subscriptions.
+   */
+  public stream<T extends TRTopic>(
+    type: T,
+    payload: TRTopicRequest<T>,
+    options: StreamOptions & TRSubscribeOptions = {}
+  ): SubscriptionStream<TRTopicResponse<T>> {
+    let handleId: string | undefined;
+    let blocked = false;
+
+    const onError = (event: { subscriptionId: string; error: unknown }): void => {
+      if (event.subscriptionId === handleId) {
+        stream.fail(new TRSubscriptionError(type, event.error));
+      }
+    };
+    const onComplete = (event: { subscriptionId: string }): void => {
+      if (event.subscriptionId === handleId) {
+        stream.end();
+      }
+    };
+    const onDisconnected = (): void => {
+      // Unexpected closes keep subscriptions for the reconnect, disconnect() drops them
+      if (handleId ? !this.handles.has(handleId) : blocked && this.connectionState === 'idle') {
+        stream.end();
+      }
+    };
+
+    const release = async (id: string): Promise<void> => {
+      if (this.handles.has(id)) {
+        await this.unsubscribe(id);
+      }
+    };
+
+    const open = (): void => {
+      this.subscribe(type, payload, data => stream.push(data), { priority: options.priority })
+        .then(id => {
+          handleId = id;
+          if (stream.isClosed) {
+            return release(id);
+          }
+          return undefined;
+        })
+        .catch(error => stream.fail(error instanceof Error ? error : new Error(String(error))));
+    };
+
+    const stream = new SubscriptionStream<TRTopicResponse<T>>(options, {
+      pause: (): void => {
+        logger.debug('Unsubscribing a blocked stream until it drains', { type });
+        blocked = true;
+        if (handleId) {
+          release(handleId).catch(() => {});
+          handleId = undefined;
+        }
+      },
+      resume: (): void => {
+        blocked = false;
+        if (!stream.isClosed) {
+          open();
+        }
+      },
+      release: async (): Promise<void> => {
+        this.off('subscriptionError', onError);
+        this.off('subscriptionComplete', onComplete);
+        this.off('disconnected', onDisconnected);
+        if (handleId) {
+          await release(handleId);
+        }
+      },
+    });
+
+    this.on('subscriptionError', onError);
+    this.on('subscriptionComplete', onComplete);
+    this.on('disconnected', onDisconnected);
+    open();
+
+    return stream;
+  }
+
   /**
    * Send subscription message to TR WebSocket
    */
@@ -231,6 +742,8 @@ export class TradeRepublicWebSocket extends EventEmitter {
     };
 
     const subCommand = `sub ${subscription.id} ${JSON.stringify(payloadWithToken)}`;
+    subscription.lastDataAt = Date.now();
+    subscription.sent = true;
     
     logger.debug('📤 Sending subscription', { 
       type: subscription.type, 
@@ -242,23 +755,57 @@ export class TradeRepublicWebSocket extends EventEmitter {
   }
 
   /**
-   * Unsubscribe from data
+   * Release a subscription handle; the wire subscription ends with its last handle
    */
   public async unsubscribe(subscriptionId: string): Promise<void> {
-    const subscription = this.subscriptions.get(subscriptionId);
+    const wireId = this.handles.get(subscriptionId);
+    const subscription = wireId ? this.subscriptions.get(wireId) : undefined;
     if (!subscription) {
       logger.warn('Subscription not found', { subscriptionId });
       return;
     }
 
-    if (this.isConnected && this.isAuthenticated) {
-      const unsubCommand = `unsub ${subscriptionId}`;
-      logger.debug('📤 Sending unsubscription', { id: subscriptionId });
+    this.handles.delete(subscriptionId);
+    subscription.callbacks.delete(subscriptionId);
+
+    if (subscription.callbacks.size > 0) {
+      logger.debug('Released subscription handle', {
+        subscriptionId: subscription.id,
+        handleId: subscriptionId,
+        callers: subscription.callbacks.size,
+      });
+      return;
+    }
+
+    if (this.isConnected && this.isAuthenticated && subscription.queuedAt === undefined) {
+      const unsubCommand = `unsub ${subscription.id}`;
+      logger.debug('📤 Sending unsubscription', { id: subscription.id });
       this.ws!.send(unsubCommand);
     }
 
-    this.subscriptions.delete(subscriptionId);
-    logger.debug('🗑️ Removed subscription', { subscriptionId });
+    this.removeSubscription(subscription);
+    logger.debug('🗑️ Removed subscription', { subscriptionId: subscription.id });
+  }
+
+  /**
+   * Forget a wire subscription together with all of its handles, freeing its slot
+   */
+  private removeSubscription(subscription: TRSubscription): void {
+    for (const handleId of subscription.callbacks.keys()) {
+      this.handles.delete(handleId);
+    }
+    this.subscriptions.delete(subscription.id);
+    this.lastPayloads.delete(subscription.id);
+    if (this.subscriptionKeys.get(subscription.key) === subscription.id) {
+      this.subscriptionKeys.delete(subscription.key);
+    }
+
+    const queued = this.queue.indexOf(subscription);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+    } else {
+      this.drainQueue();
+    }
   }
 
   /**
@@ -279,14 +826,13 @@ export class TradeRepublicWebSocket extends EventEmitter {
 
       const subscriptionId = data.substring(0, firstSpace);
       const secondSpace = data.indexOf(' ', firstSpace + 1);
-      
-      if (secondSpace === -1) {
-        logger.warn('Invalid message format - no second space found', { data });
-        return;
-      }
 
-      const code = data.substring(firstSpace + 1, secondSpace);
-      const payloadStr = data.substring(secondSpace + 1);
+      // Complete messages ("N C") carry no payload
+      const code =
+        secondSpace === -1
+          ? data.substring(firstSpace + 1)
+          : data.substring(firstSpace + 1, secondSpace);
+      const payloadStr = secondSpace === -1 ? '' : data.substring(secondSpace + 1);
 
       logger.debug('📋 Parsed message', { subscriptionId, code, payloadLength: payloadStr.length });
 
@@ -302,12 +848,15 @@ export class TradeRepublicWebSocket extends EventEmitter {
         case 'A': // Initial data
           this.handleInitialData(subscription, payloadStr);
           break;
-        case 'D': // Delta update (not implemented for now)
-          logger.debug('Delta update received (not implemented)', { subscriptionId });
+        case 'D': // Delta update against the last full payload
+          this.handleDeltaData(subscription, payloadStr);
           break;
         case 'C': // Complete - subscription finished
           logger.debug('Subscription completed', { subscriptionId });
-          this.subscriptions.delete(subscriptionId);
+          for (const handleId of subscription.callbacks.keys()) {
+            this.emit('subscriptionComplete', { subscriptionId: handleId, type: subscription.type });
+          }
+          this.removeSubscription(subscription);
           break;
         case 'E': // Error
           this.handleSubscriptionError(subscription, payloadStr);
@@ -328,17 +877,64 @@ export class TradeRepublicWebSocket extends EventEmitter {
    * Handle initial data response (code 'A')
    */
   private handleInitialData(subscription: TRSubscription, payloadStr: string): void {
-    try {
-      const payload = payloadStr ? JSON.parse(payloadStr) : {};
-      
-      logger.debug('📊 Received initial data', { 
-        type: subscription.type, 
+    logger.debug('📊 Received initial data', {
+      type: subscription.type,
+      id: subscription.id,
+      dataSize: payloadStr.length,
+    });
+
+    this.dispatchPayload(subscription, payloadStr);
+  }
+
+  /**
+   * Handle delta update (code 'D')
+   * Rebuilds the full payload from the previous one, as pytr does in _calculate_delta
+   */
+  private handleDeltaData(subscription: TRSubscription, deltaStr: string): void {
+    const previous = this.lastPayloads.get(subscription.id);
+    if (previous === undefined) {
+      logger.warn('Delta received before initial data, dropping', {
+        type: subscription.type,
         id: subscription.id,
-        dataSize: payloadStr.length 
       });
+      return;
+    }
+
+    let payloadStr: string;
+    try {
+      payloadStr = applyDelta(previous, deltaStr);
+    } catch (error) {
+      logger.error('Failed to apply delta update', {
+        error: error instanceof Error ? error.message : error,
+        subscriptionId: subscription.id,
+      });
+      return;
+    }
 
-      // Call the subscription callback
-      subscription.callback(payload);
+    logger.debug('📊 Received delta update', {
+      type: subscription.type,
+      id: subscription.id,
+      deltaSize: deltaStr.length,
+      dataSize: payloadStr.length,
+    });
+
+    this.dispatchPayload(subscription, payloadStr);
+  }
+
+  /**
+   * Parse a full payload, remember it as the base for the next delta and notify listeners
+   */
+  private dispatchPayload(subscription: TRSubscription, payloadStr: string): void {
+    subscription.lastDataAt = Date.now();
+
+    try {
+      const payload = payloadStr ? JSON.parse(payloadStr) : {};
+      this.lastPayloads.set(subscription.id, payloadStr);
+
+      // Fan out to every caller; callbacks may release their handle while we iterate
+      for (const callback of [...subscription.callbacks.values()]) {
+        callback(payload);
+      }
 
       this.emit('data', {
         subscriptionId: subscription.id,
@@ -367,14 +963,17 @@ export class TradeRepublicWebSocket extends EventEmitter {
         error: errorPayload 
       });
 
-      this.emit('subscriptionError', {
-        subscriptionId: subscription.id,
-        type: subscription.type,
-        error: errorPayload
-      });
+      // One event per caller handle, so each can match its own subscription
+      for (const handleId of subscription.callbacks.keys()) {
+        this.emit('subscriptionError', {
+          subscriptionId: handleId,
+          type: subscription.type,
+          error: errorPayload
+        });
+      }
 
       // Remove the failed subscription
-      this.subscriptions.delete(subscription.id);
+      this.removeSubscription(subscription);
 
     } catch (error) {
       logger.error('Failed to parse error payload', {
@@ -385,44 +984,96 @@ export class TradeRepublicWebSocket extends EventEmitter {
   }
 
   /**
-   * Handle reconnection
+   * Wait out a capped, jittered backoff and reconnect, or give up after maxReconnectAttempts
    */
-  private async handleReconnect(): Promise<void> {
+  private scheduleReconnect(): void {
     if (this.reconnectAttempts >= this.config.maxReconnectAttempts) {
       logger.error('❌ Max reconnection attempts reached');
+      this.setState('failed', { reason: 'MAX_RECONNECT_ATTEMPTS' });
       this.emit('maxReconnectAttemptsReached');
       return;
     }
 
+    if (!this.authManager.isAuthenticated() && !this.authManager.canRefreshSession()) {
+      logger.error('❌ Session expired and cannot be refreshed, not reconnecting');
+      this.setState('failed', { reason: 'SESSION_EXPIRED' });
+      this.emit('authenticationRequired');
+      return;
+    }
+
     this.reconnectAttempts++;
-    const delay = this.config.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
+    const delay = this.getReconnectDelay(this.reconnectAttempts);
+    this.nextReconnectAt = Date.now() + delay;
 
     logger.info('⏳ Attempting to reconnect...', {
       attempt: this.reconnectAttempts,
       maxAttempts: this.config.maxReconnectAttempts,
       delay,
     });
-
-    setTimeout(async () => {
-      try {
-        await this.connect();
-        // Re-subscribe to all subscriptions after reconnect
-        await this.resubscribeAll();
-      } catch (error) {
-        logger.error('Reconnection failed', { error });
-      }
+    this.setState('backoff', { attempt: this.reconnectAttempts, delay });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.nextReconnectAt = undefined;
+      this.connect().catch(error => {
+        logger.warn('Reconnection failed', {
+          attempt: this.reconnectAttempts,
+          error: error instanceof Error ? error.message : error,
+        });
+        this.scheduleReconnect();
+      });
     }, delay);
   }
 
   /**
-   * Re-subscribe to all active subscriptions after reconnect
+   * Exponential backoff capped at maxReconnectDelay, with "equal jitter" so that
+   * clients dropped together do not reconnect in lockstep
+   */
+  private getReconnectDelay(attempt: number): number {
+    const capped = Math.min(
+      this.config.maxReconnectDelay,
+      this.config.reconnectDelay * Math.pow(2, attempt - 1)
+    );
+    return Math.round(capped / 2 + Math.random() * (capped / 2));
+  }
+
+  /**
+   * Cancel a pending reconnect
+   */
+  private clearReconnectTimer(): void {
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+    this.nextReconnectAt = undefined;
+  }
+
+  /**
+   * Send every open subscription on the current connection.
+   * Subscriptions get fresh wire ids so late frames of the old connection cannot be
+   * mistaken for new data; caller handles stay the same. Sent subscriptions that
+   * must not be resent are dropped and reported as lost instead.
    */
   private async resubscribeAll(): Promise<void> {
+    if (this.subscriptions.size === 0) {
+      return;
+    }
+
     logger.info('🔄 Re-subscribing to all active subscriptions...', {
       count: this.subscriptions.size,
     });
 
-    for (const subscription of this.subscriptions.values()) {
+    // The server starts every subscription over with a fresh 'A' payload
+    this.lastPayloads.clear();
+
+    const open = [...this.subscriptions.values()].filter(
+      subscription => subscription.queuedAt === undefined
+    );
+    for (const subscription of open) {
+      if (!subscription.resend && subscription.sent) {
+        this.dropSubscription(subscription);
+        continue;
+      }
+
+      this.rekeySubscription(subscription);
       try {
         await this.sendSubscription(subscription);
       } catch (error) {
@@ -435,6 +1086,144 @@ export class TradeRepublicWebSocket extends EventEmitter {
     }
   }
 
+  /**
+   * Start the ping/pong heartbeat and the per-subscription silence check
+   */
+  private startHealthChecks(): void {
+    this.stopHealthChecks();
+    this.awaitingPong = false;
+    this.lastMessageAt = Date.now();
+
+    if (this.config.heartbeatInterval > 0) {
+      this.heartbeatTimer = setInterval(() => this.checkHeartbeat(), this.config.heartbeatInterval);
+    }
+
+    if (this.config.subscriptionTimeout > 0) {
+      this.stalenessTimer = setInterval(
+        () => this.checkSubscriptions(),
+        Math.max(10, this.config.subscriptionTimeout / 2)
+      );
+    }
+  }
+
+  /**
+   * Stop the health check timers
+   */
+  private stopHealthChecks(): void {
+    clearInterval(this.heartbeatTimer);
+    clearInterval(this.stalenessTimer);
+    this.heartbeatTimer = undefined;
+    this.stalenessTimer = undefined;
+  }
+
+  /**
+   * Any frame or pong proves the connection is alive
+   */
+  private markAlive(): void {
+    this.awaitingPong = false;
+    this.lastMessageAt = Date.now();
+  }
+
+  /**
+   * Ping the server; if the previous ping went unanswered the connection is half-open,
+   * so drop it and let the reconnect re-send every subscription
+   */
+  private checkHeartbeat(): void {
+    if (!this.ws || !this.isConnected) {
+      return;
+    }
+
+    if (this.awaitingPong) {
+      const silentMs = Date.now() - this.lastMessageAt;
+      logger.warn('💔 WebSocket heartbeat missed, reconnecting', { silentMs });
+      this.emit('connectionStale', { silentMs });
+      this.stopHealthChecks();
+      this.ws.terminate(); // Closes with 1006, which triggers the reconnect
+      return;
+    }
+
+    this.awaitingPong = true;
+    this.ws.ping();
+  }
+
+  /**
+   * Re-send subscriptions that have been silent for longer than subscriptionTimeout
+   */
+  private checkSubscriptions(): void {
+    if (!this.isConnected || !this.isAuthenticated) {
+      return;
+    }
+
+    const now = Date.now();
+    for (const subscription of [...this.subscriptions.values()]) {
+      if (subscription.queuedAt !== undefined || !subscription.resend) {
+        continue;
+      }
+      const silentMs = now - (subscription.lastDataAt ?? now);
+      if (silentMs < this.config.subscriptionTimeout) {
+        continue;
+      }
+
+      logger.warn('⏱️ Subscription stale, resubscribing', {
+        subscriptionId: subscription.id,
+        type: subscription.type,
+        silentMs,
+      });
+      for (const handleId of subscription.callbacks.keys()) {
+        this.emit('subscriptionStale', {
+          subscriptionId: handleId,
+          type: subscription.type,
+          silentMs,
+        });
+      }
+      this.resubscribe(subscription);
+    }
+  }
+
+  /**
+   * Replace a wire subscription with a fresh one; caller handles stay valid.
+   * A new wire id is used so the complete frame for the old one is ignored.
+   */
+  private resubscribe(subscription: TRSubscription): void {
+    this.ws?.send(`unsub ${subscription.id}`);
+    this.rekeySubscription(subscription);
+
+    this.sendSubscription(subscription).catch(error => {
+      logger.error('Failed to resubscribe', { subscriptionId: subscription.id, error });
+    });
+  }
+
+  /**
+   * Forget a subscription that cannot be resent and tell its callers it was lost
+   */
+  private dropSubscription(subscription: TRSubscription): void {
+    const handleIds = [...subscription.callbacks.keys()];
+    this.removeSubscription(subscription);
+
+    logger.warn('Subscription lost with the connection, not resending', {
+      subscriptionId: subscription.id,
+      type: subscription.type,
+    });
+    for (const handleId of handleIds) {
+      this.emit('subscriptionLost', { subscriptionId: handleId, type: subscription.type });
+    }
+  }
+
+  /**
+   * Move a subscription to a new wire id, keeping its caller handles
+   */
+  private rekeySubscription(subscription: TRSubscription): void {
+    this.subscriptions.delete(subscription.id);
+    this.lastPayloads.delete(subscription.id);
+
+    subscription.id = this.getNextSubscriptionId();
+    this.subscriptions.set(subscription.id, subscription);
+    this.subscriptionKeys.set(subscription.key, subscription.id);
+    for (const handleId of subscription.callbacks.keys()) {
+      this.handles.set(handleId, subscription.id);
+    }
+  }
+
   /**
    * Generate next subscription ID
    */
@@ -448,14 +1237,22 @@ export class TradeRepublicWebSocket extends EventEmitter {
   public disconnect(): void {
     logger.info('📡 Disconnecting from WebSocket...');
     
+    this.stopHealthChecks();
+    this.clearReconnectTimer();
+    this.reconnectAttempts = 0;
+
     if (this.ws) {
-      this.ws.close(1000); // Normal closure
+      const socket = this.ws;
       this.ws = undefined;
+      socket.close(1000); // Normal closure
     }
 
-    this.isConnected = false;
-    this.isAuthenticated = false;
+    this.setState('idle');
     this.subscriptions.clear();
+    this.subscriptionKeys.clear();
+    this.handles.clear();
+    this.lastPayloads.clear();
+    this.queue = [];
     
     this.emit('disconnected');
   }
@@ -463,12 +1260,25 @@ export class TradeRepublicWebSocket extends EventEmitter {
   /**
    * Get connection status
    */
-  public getStatus(): any {
+  public getStatus(): TRConnectionStatus {
+    const now = Date.now();
     return {
+      state: this.state,
       connected: this.isConnected,
       authenticated: this.isAuthenticated,
       subscriptions: this.subscriptions.size,
+      handles: this.handles.size,
       reconnectAttempts: this.reconnectAttempts,
+      nextReconnectAt: this.nextReconnectAt,
+      openSubscriptions: this.openSubscriptionCount,
+      queuedSubscriptions: this.queue.length,
+      maxConcurrentSubscriptions: this.config.maxConcurrentSubscriptions,
+      longestQueueWaitMs: this.queue.reduce(
+        (longest, queued) => Math.max(longest, now - (queued.queuedAt ?? now)),
+        0
+      ),
+      averageQueueWaitMs:
+        this.queueWaitCount > 0 ? Math.round(this.queueWaitTotalMs / this.queueWaitCount) : 0,
     };
   }
 
@@ -484,29 +1294,30 @@ export class TradeRepublicWebSocket extends EventEmitter {
   /**
    * Subscribe to portfolio data
    */
-  public async subscribeToPortfolio(callback: (data: any) => void): Promise<string> {
-    // Try different portfolio subscription types based on pytr research
-    // Common types: 'timeline', 'portfolio', 'cash', 'positions'
-    return this.subscribe('timeline', { type: 'timeline' }, callback);
+  public async subscribeToPortfolio(
+    callback: (data: TRTopicResponse<'compactPortfolio'>) => void
+  ): Promise<string> {
+    return this.subscribe('compactPortfolio', {}, callback);
   }
 
   /**
    * Subscribe to price updates for an instrument
    */
-  public async subscribeToPrices(isin: string, exchange: string = 'LSX', callback: (data: any) => void): Promise<string> {
-    return this.subscribe('ticker', { 
-      type: 'ticker', 
-      id: `${isin}.${exchange}` 
-    }, callback);
+  public async subscribeToPrices(
+    isin: string,
+    exchange: string = 'LSX',
+    callback: (data: TRTopicResponse<'ticker'>) => void
+  ): Promise<string> {
+    return this.subscribe('ticker', { id: `${isin}.${exchange}` }, callback);
   }
 
   /**
    * Subscribe to instrument details
    */
-  public async subscribeToInstrument(isin: string, callback: (data: any) => void): Promise<string> {
-    return this.subscribe('instrument', { 
-      type: 'instrument', 
-      id: isin 
-    }, callback);
+  public async subscribeToInstrument(
+    isin: string,
+    callback: (data: TRTopicResponse<'instrument'>) => void
+  ): Promise<string> {
+    return this.subscribe('instrument', { id: isin }, callback);
   }
 }
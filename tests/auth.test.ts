@@ -4,7 +4,8 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { AuthManager, AuthenticationError } from '../src/auth/manager';
-import type { LoginCredentials, MFAChallenge, MFAResponse } from '../src/types/auth';
+import { TwoFactorRequiredError } from '../src/types/auth';
+import type { LoginCredentials, MFAChallenge, MFAResponse, AuthSession } from '../src/types/auth';
 
 // Mock fs/promises
 vi.mock('fs/promises', () => ({
@@ -20,8 +21,30 @@ vi.mock('os', () => ({
   homedir: () => '/mock/home',
 }));
 
+/**
+ * Session as returned by WorkingTradeRepublicAPI.completeAuth
+ */
+function createSession(processId: string): AuthSession {
+  return {
+    token: {
+      accessToken: `tr_access_${processId}`,
+      refreshToken: `tr_refresh_${processId}`,
+      expiresAt: Date.now() + 290 * 1000,
+      tokenType: 'Bearer',
+    },
+    userId: 'user_123',
+    sessionId: processId,
+    createdAt: Date.now(),
+    lastActivity: Date.now(),
+  };
+}
+
 describe('AuthManager', () => {
   let authManager: AuthManager;
+  let trApi: Record<
+    'initiateAuth' | 'completeAuth' | 'refreshSession' | 'logout',
+    ReturnType<typeof vi.fn>
+  >;
 
   beforeEach(() => {
     authManager = new AuthManager();
@@ -33,6 +56,20 @@ describe('AuthManager', () => {
       privateKey: 'mock_private_key',
       processId: 'mock_process_id'
     });
+
+    trApi = {
+      initiateAuth: vi
+        .fn()
+        .mockResolvedValue({ processId: 'process_123', method: 'SMS', countdown: 60 }),
+      completeAuth: vi.fn().mockImplementation(async (processId: string) => createSession(processId)),
+      refreshSession: vi.fn().mockImplementation(async token => ({
+        ...token,
+        accessToken: `refreshed_access_token_${Date.now()}`,
+        expiresAt: Date.now() + 290 * 1000,
+      })),
+      logout: vi.fn().mockResolvedValue(undefined),
+    };
+    vi.spyOn(authManager as any, 'trApi', 'get').mockReturnValue(trApi);
   });
 
   afterEach(() => {
@@ -46,8 +83,9 @@ describe('AuthManager', () => {
         password: '1234', // Valid 4-digit PIN
       };
 
-      // Mock the TradeRepublicAPI to trigger MFA flow
+      // A rejected device login falls back to the web login and its MFA flow
       vi.spyOn(authManager as any, 'trApi', 'get').mockReturnValue({
+        ...trApi,
         loginWithDeviceKeys: vi.fn().mockResolvedValue({
           error: { message: 'MFA authentication required', code: 'MFA_REQUIRED' },
           data: null
@@ -55,6 +93,23 @@ describe('AuthManager', () => {
       });
 
       await expect(authManager.login(credentials)).rejects.toThrow('MFA authentication required');
+      expect(trApi.initiateAuth).toHaveBeenCalled();
+    });
+
+    it('should start the web login and return a 2FA challenge', async () => {
+      const credentials: LoginCredentials = {
+        username: '+49 176 12345678',
+        password: '1234',
+      };
+      vi.spyOn(authManager as any, 'loadDeviceKeys').mockResolvedValue(null);
+
+      const error = await authManager.login(credentials).catch(e => e);
+
+      expect(error).toBeInstanceOf(TwoFactorRequiredError);
+      expect(error.challenge).toMatchObject({ challengeId: 'process_123', type: 'SMS', length: 4 });
+      expect(trApi.initiateAuth).toHaveBeenCalledWith(
+        expect.objectContaining({ username: '+4917612345678', password: '1234' })
+      );
     });
 
     it('should reject invalid credentials', async () => {
@@ -110,8 +165,9 @@ describe('AuthManager', () => {
 
       const session = await authManager.handleMFA(challenge, response);
 
+      expect(trApi.completeAuth).toHaveBeenCalledWith('challenge_123', '1234');
       expect(session).toBeDefined();
-      expect(session.userId).toBe('user_enge_123');
+      expect(session.userId).toBe('user_123');
       expect(session.token).toBeDefined();
       expect(authManager.isAuthenticated()).toBe(true);
     });
@@ -175,6 +231,28 @@ describe('AuthManager', () => {
       expect(newToken).toBeDefined();
       expect(newToken.accessToken).toContain('refreshed_access_token_');
       expect(newToken.accessToken).not.toBe(originalToken);
+      expect(trApi.refreshSession).toHaveBeenCalledWith(
+        expect.objectContaining({ refreshToken: 'tr_refresh_setup_challenge' })
+      );
+    });
+
+    it('should keep sessions older than a day alive through refresh', async () => {
+      const session = authManager.getSession()!;
+      session.createdAt = Date.now() - 48 * 60 * 60 * 1000;
+      session.token.expiresAt = Date.now() - 1000;
+
+      expect(authManager.isAuthenticated()).toBe(false);
+      expect(await authManager.autoRefreshIfNeeded()).toBe(true);
+      expect(authManager.isAuthenticated()).toBe(true);
+      expect(authManager.getSession()?.token.expiresAt).toBeGreaterThan(Date.now());
+    });
+
+    it('should drop the session when the server rejects the refresh token', async () => {
+      trApi.refreshSession.mockRejectedValueOnce(new Error('SESSION_EXPIRED'));
+      authManager.getSession()!.token.expiresAt = Date.now();
+
+      expect(await authManager.autoRefreshIfNeeded()).toBe(false);
+      expect(authManager.getSession()).toBeUndefined();
     });
 
     it('should fail to refresh token without session', async () => {
@@ -228,7 +306,8 @@ describe('AuthManager', () => {
       
       // Logout
       await authManager.logout();
-      
+
+      expect(trApi.logout).toHaveBeenCalled();      
       expect(authManager.isAuthenticated()).toBe(false);
       expect(authManager.getSession()).toBeUndefined();
     });
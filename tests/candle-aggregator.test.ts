@@ -0,0 +1,154 @@
+/**
+ * Candle Aggregator Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { CandleAggregator } from '../src/market/candle-aggregator';
+import { getTradingSession } from '../src/market/trading-hours';
+import { ProductionDatabaseManager } from '../src/database/production-database';
+import type { Candle, PriceTick } from '../src/types/market';
+import type { TradingHours } from '../src/types/comprehensive-asset';
+
+vi.mock('../src/utils/logger');
+
+const XETRA_HOURS: TradingHours = {
+  openTime: '09:00',
+  closeTime: '17:30',
+  timezone: 'Europe/Berlin',
+  breaks: [{ startTime: '12:00', endTime: '12:05' }],
+};
+
+// 2024-03-04 is a Monday in winter time (UTC+1): 09:00 in Berlin is 08:00 UTC
+const at = (clock: string, seconds = 0): number =>
+  Date.parse(`2024-03-04T${clock}:00Z`) - 3600000 + seconds * 1000;
+
+const tick = (time: number, last: number): PriceTick => ({ isin: 'DE0007164600', time, last });
+
+describe('getTradingSession', () => {
+  it('should resolve local trading hours across daylight saving time', () => {
+    expect(getTradingSession(at('09:00'), XETRA_HOURS)).toEqual({
+      open: at('09:00'),
+      close: at('17:30'),
+    });
+    // 2024-07-01 is in summer time (UTC+2)
+    expect(getTradingSession(Date.parse('2024-07-01T07:00:00Z'), XETRA_HOURS)?.open).toBe(
+      Date.parse('2024-07-01T07:00:00Z')
+    );
+    expect(getTradingSession(at('08:59'), XETRA_HOURS)).toBeUndefined();
+    expect(getTradingSession(at('12:01'), XETRA_HOURS)).toBeUndefined();
+  });
+});
+
+describe('CandleAggregator', () => {
+  it('should build candles aligned to the session open', () => {
+    const aggregator = new CandleAggregator({
+      timeframes: ['5m', '1d'],
+      tradingHours: XETRA_HOURS,
+      allowedLateness: 0,
+    });
+    const candles: Candle[] = [];
+    aggregator.on('candle', candle => candles.push(candle));
+
+    aggregator.addTick(tick(at('09:01'), 10));
+    aggregator.addTick(tick(at('09:03'), 12));
+    aggregator.addTick(tick(at('09:04'), 9));
+    aggregator.addTick(tick(at('09:06'), 11));
+
+    expect(candles).toEqual([
+      {
+        isin: 'DE0007164600',
+        timeframe: '5m',
+        timestamp: at('09:00'),
+        open: 10,
+        high: 12,
+        low: 9,
+        close: 9,
+        ticks: 3,
+      },
+    ]);
+
+    aggregator.advanceTo(at('17:30'));
+    expect(candles.map(candle => [candle.timeframe, candle.timestamp, candle.close])).toEqual([
+      ['5m', at('09:00'), 9],
+      ['5m', at('09:05'), 11],
+      ['1d', at('09:00'), 11],
+    ]);
+  });
+
+  it('should drop late ticks and ticks outside trading hours deterministically', () => {
+    const run = (): Candle[] => {
+      const aggregator = new CandleAggregator({
+        timeframes: ['1m'],
+        tradingHours: XETRA_HOURS,
+        allowedLateness: 5000,
+      });
+      const candles: Candle[] = [];
+      aggregator.on('candle', candle => candles.push(candle));
+
+      aggregator.addTick(tick(at('08:59'), 1));
+      aggregator.addTick(tick(at('09:00', 10), 10));
+      aggregator.addTick(tick(at('09:01', 2), 11));
+      // Within the allowed lateness: still counted for 09:00
+      aggregator.addTick(tick(at('09:00', 50), 12));
+      aggregator.addTick(tick(at('09:01', 20), 13));
+      // After the 09:00 candle closed
+      aggregator.addTick(tick(at('09:00', 55), 14));
+
+      expect(aggregator.getStats()).toMatchObject({ ticks: 6, lateTicks: 1, outsideHours: 1 });
+      aggregator.flush();
+      return candles;
+    };
+
+    const candles = run();
+    expect(candles.map(candle => [candle.timestamp, candle.open, candle.close])).toEqual([
+      [at('09:00'), 10, 12],
+      [at('09:01'), 11, 13],
+    ]);
+    expect(run()).toEqual(candles);
+  });
+
+  it('should fill gaps inside a session with flat candles', () => {
+    const aggregator = new CandleAggregator({
+      timeframes: ['1m'],
+      tradingHours: XETRA_HOURS,
+      fillGaps: true,
+    });
+    const candles: Candle[] = [];
+    aggregator.on('candle', candle => candles.push(candle));
+
+    aggregator.addTick(tick(at('09:00'), 10));
+    aggregator.addTick(tick(at('09:03'), 11));
+    aggregator.flush();
+
+    expect(candles.map(candle => [candle.timestamp, candle.close, candle.ticks])).toEqual([
+      [at('09:00'), 10, 1],
+      [at('09:01'), 10, 0],
+      [at('09:02'), 10, 0],
+      [at('09:03'), 11, 1],
+    ]);
+  });
+
+  it('should store closed candles in prices_historical', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const database = new ProductionDatabaseManager(':memory:');
+    const insertCandles = vi.spyOn(database, 'insertCandles');
+    const aggregator = new CandleAggregator({
+      timeframes: ['1m'],
+      tradingHours: XETRA_HOURS,
+      sink: database,
+    });
+
+    aggregator.addTick(tick(at('09:00'), 10));
+    const [candle] = aggregator.flush();
+
+    expect(insertCandles).toHaveReturnedWith(1);
+    expect(database.insertCandles([candle!])).toBe(0);
+
+    // Live candles are kept apart from the server history
+    const range = [at('09:00'), at('09:01')] as const;
+    expect(database.getLiveCandles('DE0007164600', '1m', ...range)).toHaveLength(1);
+    expect(database.getHistoricalPrices('DE0007164600', '1m', ...range)).toEqual([]);
+    database.close();
+    vi.restoreAllMocks();
+  });
+});
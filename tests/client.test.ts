@@ -4,6 +4,7 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { TradeRepublicClient, VERSION } from '../src/index';
+import { ProductionDatabaseManager } from '../src/database/production-database';
 import type { LoginCredentials } from '../src/types/auth';
 
 // Mock the auth manager and http client
@@ -140,6 +141,51 @@ describe('TradeRepublicClient', () => {
     });
   });
 
+  describe('subscriptions', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should report when Lang & Schwarz opens and closes', async () => {
+      vi.useFakeTimers();
+      // 22:59:30 in Berlin, half a minute before the close
+      vi.setSystemTime(new Date('2024-03-04T21:59:30Z'));
+      const callback = vi.fn();
+
+      const subscriptionId = await client.subscribeToMarketStatus('LSX', callback);
+      expect(callback).toHaveBeenLastCalledWith({
+        venue: 'LSX',
+        status: 'open',
+        nextClose: '2024-03-04T22:00:00.000Z',
+        timezone: 'Europe/Berlin',
+      });
+
+      vi.advanceTimersByTime(60000);
+      expect(callback).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'closed' }));
+
+      await client.unsubscribe(subscriptionId!);
+      vi.advanceTimersByTime(10 * 60 * 60000);
+      expect(callback).toHaveBeenCalledTimes(2);
+      await expect(client.subscribeToMarketStatus('NYSE', callback)).resolves.toBeUndefined();
+
+      const langSchwarzId = await client.subscribeToMarketStatus('LANG_SCHWARZ', callback);
+      expect(callback).toHaveBeenLastCalledWith(expect.objectContaining({ venue: 'LANG_SCHWARZ' }));
+      await client.unsubscribe(langSchwarzId!);
+    });
+  });
+
+  describe('cleanup', () => {
+    it('should close the price cache database on destroy', () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const close = vi.spyOn(ProductionDatabaseManager.prototype, 'close');
+      const cachingClient = new TradeRepublicClient({ databasePath: ':memory:' });
+
+      cachingClient.destroy();
+      cachingClient.destroy();
+      expect(close).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('session management', () => {
     it('should return undefined session initially', () => {
       expect(client.getSession()).toBeUndefined();
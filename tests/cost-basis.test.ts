@@ -0,0 +1,136 @@
+/**
+ * Cost Basis Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { calculateCostBasis, CostBasisEngine } from '../src/analytics/cost-basis';
+import { ProductionDatabaseManager } from '../src/database/production-database';
+import type { TradeExecution } from '../src/database/production-database';
+
+vi.mock('../src/utils/logger');
+
+const APPLE = 'US0378331005';
+
+const trade = (
+  id: string,
+  side: 'buy' | 'sell',
+  date: string,
+  quantity: number,
+  price: number,
+  fees = 1
+): TradeExecution => ({
+  id,
+  isin: APPLE,
+  side,
+  quantity,
+  price,
+  fees,
+  timestamp: `${date}T10:00:00.000Z`,
+});
+
+const EXECUTIONS = [
+  trade('b1', 'buy', '2024-01-02', 10, 100),
+  trade('b2', 'buy', '2024-02-01', 5, 120),
+  trade('s1', 'sell', '2024-03-01', 12, 130),
+];
+
+describe('calculateCostBasis', () => {
+  it('should realize partial sells against the oldest lots with FIFO', () => {
+    const position = calculateCostBasis(APPLE, EXECUTIONS, { currentPrice: 140 });
+
+    expect(position.realized.map(gain => [gain.acquiredAt, gain.quantity])).toEqual([
+      ['2024-01-02T10:00:00.000Z', 10],
+      ['2024-02-01T10:00:00.000Z', 2],
+    ]);
+    expect(position.realized[0]?.holdingDays).toBe(59);
+    expect(position.realizedPnL).toBeCloseTo(1559 - 1001 - 240.4);
+    expect(position).toMatchObject({ quantity: 3, lots: [{ executionId: 'b2', quantity: 3 }] });
+    expect(position.costBasis).toBeCloseTo(360.6);
+    expect(position.unrealizedPnL).toBeCloseTo(420 - 360.6);
+  });
+
+  it('should use the moving average cost with the average method', () => {
+    const position = calculateCostBasis(APPLE, EXECUTIONS, { method: 'average' });
+
+    expect(position.averageCost).toBeCloseTo(1602 / 15);
+    expect(position.realizedPnL).toBeCloseTo(1559 - (12 * 1602) / 15);
+    expect(position.costBasis).toBeCloseTo((3 * 1602) / 15);
+  });
+
+  it('should adjust lots for splits and close fractional savings plan positions', () => {
+    const position = calculateCostBasis(
+      APPLE,
+      [
+        trade('b1', 'buy', '2024-01-02', 0.5, 200, 0),
+        trade('p1', 'buy', '2024-02-01', 0.3333, 55, 0),
+        trade('s1', 'sell', '2024-03-01', 2.3333, 60, 0),
+      ],
+      { splits: [{ date: new Date('2024-02-01'), ratio: '4:1', fromFactor: 1, toFactor: 4 }] }
+    );
+
+    expect(position.realized.map(gain => gain.quantity)).toEqual([2, expect.closeTo(0.3333)]);
+    expect(position.realized[0]?.costBasis).toBeCloseTo(100);
+    expect(position.quantity).toBeCloseTo(0);
+    expect(position.lots).toEqual([]);
+  });
+});
+
+describe('CostBasisEngine', () => {
+  it('should read executions from the ledger', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const database = new ProductionDatabaseManager(':memory:');
+    database.insertTransactions(
+      EXECUTIONS.map(execution => ({
+        id: execution.id,
+        type: execution.side,
+        timestamp: execution.timestamp,
+        title: 'Apple',
+        isin: APPLE,
+        amount: (execution.side === 'buy' ? -1 : 1) * execution.quantity * execution.price,
+        currency: 'EUR',
+        quantity: execution.quantity,
+        price: execution.price,
+        fees: execution.fees,
+        taxes: 0,
+      }))
+    );
+
+    const [position] = new CostBasisEngine(database).getPositions({ [APPLE]: 140 });
+    expect(position).toMatchObject({ isin: APPLE, method: 'fifo', quantity: 3 });
+    expect(position?.realizedPnL).toBeCloseTo(1559 - 1001 - 240.4);
+    database.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should derive the price of ledger trades without one from the cash amount', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const database = new ProductionDatabaseManager(':memory:');
+    const trade = { title: 'Apple', isin: APPLE, currency: 'EUR', quantity: 10 };
+    database.insertTransactions([
+      {
+        ...trade,
+        id: 'buy',
+        type: 'buy',
+        timestamp: '2024-01-02T10:00:00.000Z',
+        amount: -1001,
+        fees: 1,
+        taxes: 0,
+      },
+      {
+        ...trade,
+        id: 'sell',
+        type: 'sell',
+        timestamp: '2024-02-01T10:00:00.000Z',
+        amount: 1188,
+        fees: 1,
+        taxes: 11,
+      },
+    ]);
+
+    const executions = database.getTradeExecutions(APPLE);
+    expect(executions.map(execution => execution.price)).toEqual([100, 120]);
+    expect(new CostBasisEngine(database).getPosition(APPLE).realizedPnL).toBeCloseTo(198);
+    database.close();
+    vi.restoreAllMocks();
+  });
+});
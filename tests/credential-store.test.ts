@@ -0,0 +1,96 @@
+/**
+ * Credential Store Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, mkdir, readFile, writeFile, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { EncryptedFileCredentialStore, MemoryCredentialStore } from '../src/auth/credential-store';
+import { AuthManager } from '../src/auth/manager';
+import { CredentialStoreError } from '../src/types/auth';
+import type { CredentialKey } from '../src/auth/credential-store';
+
+vi.mock('../src/utils/logger');
+
+const session = {
+  token: {
+    accessToken: 'secret-access',
+    refreshToken: 'secret-refresh',
+    expiresAt: Date.now() + 60000,
+    tokenType: 'Bearer',
+  },
+  userId: 'user_1',
+  sessionId: 'session_1',
+  createdAt: Date.now(),
+  lastActivity: Date.now(),
+};
+
+describe('EncryptedFileCredentialStore', () => {
+  let directory: string;
+  let paths: Record<CredentialKey, string>;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'tr-store-'));
+    paths = {
+      session: join(directory, 'nested', 'session.json'),
+      deviceKeys: join(directory, 'nested', 'device-keys.json'),
+    };
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should encrypt values at rest and read them back', async () => {
+    const store = new EncryptedFileCredentialStore(paths, 'correct horse');
+    await store.write('session', session);
+
+    const contents = await readFile(paths.session, 'utf-8');
+    expect(contents).not.toContain('secret-access');
+    expect(JSON.parse(contents)).toMatchObject({ version: 1, algorithm: 'aes-256-gcm' });
+    expect((await stat(paths.session)).mode & 0o777).toBe(0o600);
+
+    expect(await store.read('session')).toEqual(session);
+  });
+
+  it('should refuse to decrypt with a different key', async () => {
+    await new EncryptedFileCredentialStore(paths, 'correct horse').write('session', session);
+
+    await expect(
+      new EncryptedFileCredentialStore(paths, 'battery staple').read('session')
+    ).rejects.toThrow(CredentialStoreError);
+  });
+
+  it('should migrate plaintext files on first read', async () => {
+    const store = new EncryptedFileCredentialStore(paths, 'correct horse');
+    await mkdir(dirname(paths.deviceKeys), { recursive: true });
+    await writeFile(paths.deviceKeys, JSON.stringify({ privateKey: 'pk', publicKey: 'pub' }));
+
+    expect(await store.read('deviceKeys')).toEqual({ privateKey: 'pk', publicKey: 'pub' });
+
+    const migrated = await readFile(paths.deviceKeys, 'utf-8');
+    expect(migrated).not.toContain('"pk"');
+    expect(await store.read('deviceKeys')).toEqual({ privateKey: 'pk', publicKey: 'pub' });
+  });
+
+  it('should return null for missing values', async () => {
+    const store = new EncryptedFileCredentialStore(paths, 'correct horse');
+
+    expect(await store.read('session')).toBeNull();
+    await expect(store.delete('session')).resolves.toBeUndefined();
+  });
+});
+
+describe('AuthManager with a credential store', () => {
+  it('should load the persisted session from the store', async () => {
+    const store = new MemoryCredentialStore();
+    await store.write('session', session);
+
+    const authManager = new AuthManager(undefined, { credentialStore: store });
+    await authManager.initialize();
+
+    expect(authManager.getSession()?.token.accessToken).toBe('secret-access');
+    expect(authManager.isAuthenticated()).toBe(true);
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Device Keys Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createSignedHeaders, generateDeviceKeys, verifySignature } from '../src/auth/device-keys';
+
+describe('device keys', () => {
+  it('should generate an uncompressed P-256 public key', () => {
+    const keys = generateDeviceKeys();
+    const point = Buffer.from(keys.publicKey, 'base64');
+
+    expect(point).toHaveLength(65);
+    expect(point[0]).toBe(0x04);
+    expect(keys.privateKey).toContain('BEGIN PRIVATE KEY');
+    expect(keys.deviceId).toBeTruthy();
+  });
+
+  it('should sign payloads that verify only for the same key and timestamp', () => {
+    const keys = generateDeviceKeys();
+    const payload = JSON.stringify({ phoneNumber: '+491701234567', pin: '1234' });
+    const headers = createSignedHeaders(keys, payload, 1700000000000);
+    const signature = headers['X-Zeta-Signature'];
+
+    expect(headers['X-Zeta-Timestamp']).toBe('1700000000000');
+    expect(verifySignature(keys.publicKey, 1700000000000, payload, signature)).toBe(true);
+    expect(verifySignature(keys.publicKey, 1700000000001, payload, signature)).toBe(false);
+    expect(verifySignature(generateDeviceKeys().publicKey, 1700000000000, payload, signature)).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Historical Backfill Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { HistoricalBackfill } from '../src/market/historical-backfill';
+import { ProductionDatabaseManager } from '../src/database/production-database';
+import type { TradeRepublicWebSocket } from '../src/websocket/tr-websocket';
+import type { TRAggregate } from '../src/types/websocket';
+
+vi.mock('../src/utils/logger');
+
+const APPLE = 'US0378331005';
+const SIEMENS = 'DE0007236101';
+
+// Daily aggregates start at local midnight in Berlin (UTC+1 in March)
+const aggregate = (day: string, close: number): TRAggregate => ({
+  time: Date.parse(`${day}T00:00:00Z`) - 3600000,
+  open: close,
+  high: close,
+  low: close,
+  close,
+});
+
+// 2024-03-01 to 2024-03-08 (Friday, still open) without 2024-03-06
+const AGGREGATES = [
+  aggregate('2024-03-01', 1),
+  aggregate('2024-03-04', 4),
+  aggregate('2024-03-05', 5),
+  aggregate('2024-03-07', 7),
+  aggregate('2024-03-08', 8),
+];
+
+function createWebSocket() {
+  return {
+    request: vi.fn(async () => ({ aggregates: AGGREGATES })),
+    connectionState: 'ready',
+  } as unknown as TradeRepublicWebSocket & { request: ReturnType<typeof vi.fn> };
+}
+
+describe('HistoricalBackfill', () => {
+  let database: ProductionDatabaseManager;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-03-08T12:00:00Z'));
+    database = new ProductionDatabaseManager(':memory:');
+  });
+
+  afterEach(() => {
+    database.close();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should only fetch missing days and do nothing on a rerun', async () => {
+    database.insertHistoricalPricesBulk(
+      [4, 5].map(close => ({
+        isin: APPLE,
+        timeframe: '1d',
+        timestamp: new Date(aggregate(`2024-03-0${close}`, close).time).toISOString(),
+        open: close,
+        high: close,
+        low: close,
+        close,
+      }))
+    );
+    const websocket = createWebSocket();
+    const backfill = new HistoricalBackfill(websocket, database, { days: 7 });
+
+    await expect(backfill.run([APPLE])).resolves.toMatchObject({
+      processed: 1,
+      requests: 1,
+      gaps: 2,
+      inserted: 2,
+    });
+    expect(websocket.request).toHaveBeenCalledWith('aggregateHistoryLight', {
+      id: `${APPLE}.LSX`,
+      range: '1m',
+      resolution: 86400000,
+    });
+
+    const stored = database.getHistoricalPrices(APPLE, '1d', 0, Date.now());
+    expect(stored.map(price => price.close)).toEqual([1, 4, 5, 7]);
+
+    // 2024-03-06 had no aggregate, so it is not requested again
+    await expect(backfill.run([APPLE])).resolves.toMatchObject({ requests: 0, inserted: 0 });
+    expect(websocket.request).toHaveBeenCalledTimes(1);
+    expect(database.getLatestCollectionLog(backfill.collectionType)).toMatchObject({
+      status: 'success',
+      recordsCollected: 0,
+    });
+  });
+
+  it('should request days again that the range did not reach', async () => {
+    const websocket = createWebSocket();
+    websocket.request.mockImplementation(async () => ({ aggregates: AGGREGATES.slice(2) }));
+
+    // 2024-02-07 is 30 days back, beyond the shortest month
+    await new HistoricalBackfill(websocket, database).run([APPLE]);
+    expect(websocket.request).toHaveBeenCalledWith(
+      'aggregateHistoryLight',
+      expect.objectContaining({ range: '3m' })
+    );
+
+    // Only 2024-03-05 onwards came back; the earlier days stay missing
+    const backfill = new HistoricalBackfill(websocket, database, { days: 7 });
+    await expect(backfill.run([APPLE])).resolves.toMatchObject({ requests: 1, gaps: 1 });
+  });
+
+  it('should resume an interrupted run after the last finished ISIN', async () => {
+    const websocket = createWebSocket();
+    websocket.request
+      .mockImplementationOnce(async () => ({ aggregates: AGGREGATES }))
+      .mockImplementationOnce(async () => {
+        (websocket as { connectionState: string }).connectionState = 'failed';
+        throw new Error('Connection closed');
+      });
+    const backfill = new HistoricalBackfill(websocket, database, { days: 7 });
+
+    await expect(backfill.run([SIEMENS, APPLE])).rejects.toThrow('Connection closed');
+    expect(database.getLatestCollectionLog(backfill.collectionType)).toMatchObject({
+      status: 'partial',
+      checkpoint: SIEMENS,
+      recordsCollected: 4,
+      errorsCount: 0,
+      completedAt: null,
+    });
+
+    (websocket as { connectionState: string }).connectionState = 'ready';
+    const result = await backfill.run([APPLE, SIEMENS]);
+
+    expect(result).toMatchObject({ resumedAfter: SIEMENS, processed: 1, inserted: 4 });
+    expect(websocket.request).toHaveBeenLastCalledWith(
+      'aggregateHistoryLight',
+      expect.objectContaining({ id: `${APPLE}.LSX` })
+    );
+    expect(database.getLatestCollectionLog(backfill.collectionType)).toMatchObject({
+      id: result.runId,
+      status: 'success',
+      recordsCollected: 8,
+      checkpoint: APPLE,
+    });
+  });
+});
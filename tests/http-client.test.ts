@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { RateLimiter } from '../src/api/http-client';
+import { RateLimiter, CookieJar } from '../src/api/http-client';
 
 describe('RateLimiter', () => {
   let rateLimiter: RateLimiter;
@@ -52,3 +52,42 @@ describe('RateLimiter', () => {
     expect(endTime - startTime).toBeLessThan(100);
   });
 });
+
+describe('CookieJar', () => {
+  let jar: CookieJar;
+
+  beforeEach(() => {
+    jar = new CookieJar();
+  });
+
+  it('should capture Set-Cookie headers and build a Cookie header', () => {
+    jar.capture([
+      'tr_session=abc; Path=/; Max-Age=290; HttpOnly; Secure',
+      'tr_refresh=def; Path=/; HttpOnly',
+    ]);
+
+    expect(jar.get('tr_session')).toBe('abc');
+    expect(jar.getCookieHeader()).toBe('tr_session=abc; tr_refresh=def');
+    expect(jar.getCookie('tr_session')?.expiresAt).toBeGreaterThan(Date.now());
+  });
+
+  it('should drop expired and deleted cookies', () => {
+    const now = Date.now();
+    jar.setCookie('tr_session=abc; Max-Age=1', now - 2000);
+    jar.setCookie('tr_refresh=def', now);
+    jar.setCookie('tr_refresh=; Expires=Thu, 01 Jan 1970 00:00:00 GMT', now);
+
+    expect(jar.get('tr_session')).toBeUndefined();
+    expect(jar.get('tr_refresh')).toBeUndefined();
+    expect(jar.getCookieHeader()).toBeUndefined();
+  });
+
+  it('should round-trip through persistence', () => {
+    jar.capture('tr_session=abc; Max-Age=290');
+
+    const restored = new CookieJar();
+    restored.load(JSON.parse(JSON.stringify(jar.toJSON())));
+
+    expect(restored.getCookieHeader()).toBe('tr_session=abc');
+  });
+});
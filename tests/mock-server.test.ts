@@ -0,0 +1,522 @@
+/**
+ * Mock Trade Republic Server Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MockTradeRepublicServer } from '../src/testing/mock-server';
+import { WorkingTradeRepublicAPI } from '../src/api/working-tr-api';
+import { TradeRepublicClient } from '../src/api/client';
+import { TradeRepublicWebSocket } from '../src/websocket/tr-websocket';
+import { TradingManager } from '../src/trading/manager';
+import { OrderStatusUnknownError } from '../src/types/trading';
+import { AuthManager } from '../src/auth/manager';
+import { TwoFactorRequiredError } from '../src/types/auth';
+import { MemoryCredentialStore } from '../src/auth/credential-store';
+import { generateDeviceKeys } from '../src/auth/device-keys';
+import {
+  TRRequestQueueTimeoutError,
+  TRRequestTimeoutError,
+  TRSubscriptionError,
+} from '../src/types/websocket';
+
+vi.mock('../src/utils/logger');
+
+describe('MockTradeRepublicServer', () => {
+  let server: MockTradeRepublicServer;
+
+  beforeEach(async () => {
+    server = new MockTradeRepublicServer({
+      fixtures: [
+        {
+          type: 'ticker',
+          frames: [
+            { code: 'A', payload: { bid: { price: '10.50' }, ask: { price: '10.60' } } },
+            { code: 'D', payload: { bid: { price: '10.55' }, ask: { price: '10.65' } } },
+          ],
+        },
+      ],
+    });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  describe('web login', () => {
+    it('should complete the login and 2FA flow', async () => {
+      const api = new WorkingTradeRepublicAPI({ apiUrl: server.apiUrl });
+      const { phoneNumber, pin, tan, processId } = server.credentials;
+
+      const auth = await api.initiateAuth({ username: phoneNumber, password: pin });
+      expect(auth).toEqual({ processId, method: 'APP', countdown: 120 });
+
+      const session = await api.completeAuth(auth.processId, tan);
+      expect(session.userId).toBe('mock-user');
+      expect(session.token.accessToken).toBe(server.credentials.accessToken);
+    });
+
+    it('should reject a wrong PIN and a wrong code', async () => {
+      const api = new WorkingTradeRepublicAPI({ apiUrl: server.apiUrl });
+      const { phoneNumber, processId } = server.credentials;
+
+      await expect(api.initiateAuth({ username: phoneNumber, password: '0000' })).rejects.toThrow(
+        'VALIDATION_ERROR'
+      );
+      await expect(api.completeAuth(processId, '9999')).rejects.toThrow('TAN_INVALID');
+    });
+
+    it('should refresh and invalidate the web session', async () => {
+      const api = new WorkingTradeRepublicAPI({ apiUrl: server.apiUrl });
+      const session = await api.completeAuth(server.credentials.processId, server.credentials.tan);
+
+      server.expireAccessTokens();
+      expect(await api.validateSession(session.token.accessToken)).toMatchObject({ success: false });
+
+      const token = await api.refreshSession(session.token);
+      expect(token.accessToken).not.toBe(session.token.accessToken);
+      expect(token.expiresAt).toBeGreaterThan(Date.now());
+      expect(await api.validateSession(token.accessToken)).toMatchObject({ success: true });
+
+      await api.logout(token);
+      expect(await api.validateSession(token.accessToken)).toMatchObject({ success: false });
+      await expect(api.refreshSession(token)).rejects.toThrow('SESSION_EXPIRED');
+    });
+  });
+
+  describe('websocket', () => {
+    let ws: TradeRepublicWebSocket;
+
+    beforeEach(async () => {
+      const api = new WorkingTradeRepublicAPI({ apiUrl: server.apiUrl });
+      const session = await api.completeAuth(server.credentials.processId, server.credentials.tan);
+      const authManager = new AuthManager();
+      (authManager as any).session = session;
+
+      ws = new TradeRepublicWebSocket({ url: server.websocketUrl }, authManager);
+      await ws.connect();
+    });
+
+    afterEach(() => {
+      ws.disconnect();
+    });
+
+    it('should stream initial data and delta updates', async () => {
+      const updates: unknown[] = [];
+      await new Promise<void>(resolve => {
+        void ws.subscribe('ticker', { id: 'US0378331005.LSX' }, data => {
+          updates.push(data);
+          if (updates.length === 2) resolve();
+        });
+      });
+
+      expect(updates).toEqual([
+        { bid: { price: '10.50' }, ask: { price: '10.60' } },
+        { bid: { price: '10.55' }, ask: { price: '10.65' } },
+      ]);
+      expect(server.received[0]).toMatch(/^connect 31 /);
+      expect(server.getSubscriptions()[0]?.payload).toMatchObject({
+        type: 'ticker',
+        id: 'US0378331005.LSX',
+        token: server.credentials.accessToken,
+      });
+    });
+
+    it('should push frames to open subscriptions', async () => {
+      const callback = vi.fn();
+      await ws.subscribe('ticker', { id: 'US0378331005.LSX' }, callback);
+      await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(2));
+
+      expect(server.push('ticker', { code: 'D', payload: { bid: { price: '11' } } })).toBe(1);
+      await vi.waitFor(() => expect(callback).toHaveBeenLastCalledWith({ bid: { price: '11' } }));
+    });
+
+    it('should share one wire subscription between identical subscribers', async () => {
+      const first = vi.fn();
+      const second = vi.fn();
+      const firstHandle = await ws.subscribeToPrices('US0378331005', 'LSX', first);
+      await vi.waitFor(() => expect(first).toHaveBeenCalledTimes(2));
+
+      const secondHandle = await ws.subscribeToPrices('US0378331005', 'LSX', second);
+      expect(secondHandle).not.toBe(firstHandle);
+      await vi.waitFor(() =>
+        expect(second).toHaveBeenCalledWith({ bid: { price: '10.55' }, ask: { price: '10.65' } })
+      );
+      expect(server.received.filter(message => message.startsWith('sub '))).toHaveLength(1);
+
+      server.push('ticker', { code: 'D', payload: { bid: { price: '11' } } });
+      await vi.waitFor(() => expect(second).toHaveBeenLastCalledWith({ bid: { price: '11' } }));
+      expect(first).toHaveBeenLastCalledWith({ bid: { price: '11' } });
+
+      await ws.unsubscribe(firstHandle);
+      expect(server.received.some(message => message.startsWith('unsub '))).toBe(false);
+
+      await ws.unsubscribe(secondHandle);
+      await vi.waitFor(() => expect(server.getSubscriptions()).toHaveLength(0));
+    });
+
+    it('should stream updates and unsubscribe when the loop exits', async () => {
+      const prices: unknown[] = [];
+      for await (const ticker of ws.stream('ticker', { id: 'US0378331005.LSX' })) {
+        prices.push(ticker.bid?.price);
+        if (prices.length === 2) break;
+      }
+
+      expect(prices).toEqual(['10.50', '10.55']);
+      await vi.waitFor(() => expect(server.getSubscriptions()).toHaveLength(0));
+    });
+
+    it('should pause a blocked stream without holding up other subscriptions', async () => {
+      server.addFixture({ type: 'instrument', frames: [{ code: 'A', payload: { isin: 'X' } }] });
+      const live: unknown[] = [];
+      await ws.subscribe('instrument', { id: 'US0378331005' }, data => live.push(data));
+
+      const stream = ws.stream(
+        'ticker',
+        { id: 'US0378331005.LSX' },
+        { bufferSize: 2, overflow: 'block' }
+      );
+      await vi.waitFor(() =>
+        expect(server.received.some(message => message.startsWith('unsub '))).toBe(true)
+      );
+      expect(server.getSubscriptions().map(subscription => subscription.type)).toEqual([
+        'instrument',
+      ]);
+
+      server.push('instrument', { code: 'A', payload: { isin: 'Y' } });
+      await vi.waitFor(() => expect(live).toHaveLength(2));
+
+      // Draining half the buffer resubscribes, which starts with a fresh snapshot
+      const prices: unknown[] = [];
+      for await (const ticker of stream) {
+        prices.push(ticker.bid?.price);
+        if (prices.length === 3) break;
+      }
+      expect(prices).toEqual(['10.50', '10.55', '10.50']);
+    });
+
+    it('should resolve one-shot requests and release the subscription', async () => {
+      const ticker = await ws.request('ticker', { id: 'US0378331005.LSX' });
+
+      expect(ticker.bid?.price).toBe('10.50');
+      await vi.waitFor(() => expect(server.getSubscriptions()).toHaveLength(0));
+    });
+
+    it('should reject one-shot requests on error frames and timeouts', async () => {
+      server.addFixture({ type: 'savingsPlans', frames: [] });
+
+      await expect(ws.request('unknownTopic' as any, {})).rejects.toBeInstanceOf(
+        TRSubscriptionError
+      );
+      await expect(ws.request('savingsPlans', {}, { timeoutMs: 50 })).rejects.toBeInstanceOf(
+        TRRequestTimeoutError
+      );
+      await vi.waitFor(() => expect(server.getSubscriptions()).toHaveLength(0));
+    });
+
+    it('should queue subscriptions beyond the limit by priority', async () => {
+      server.addFixture({ type: 'instrument', frames: [{ code: 'A', payload: { isin: 'X' } }] });
+      (ws as any).config.maxConcurrentSubscriptions = 1;
+
+      const first = await ws.subscribe('ticker', { id: 'US0378331005.LSX' }, () => {});
+      const lookup = ws.request('instrument', { id: 'US0378331005' });
+      const second = await ws.subscribe('ticker', { id: 'DE0007164600.LSX' }, () => {});
+
+      expect(ws.getStatus()).toMatchObject({ openSubscriptions: 1, queuedSubscriptions: 2 });
+
+      await ws.unsubscribe(first);
+      await ws.unsubscribe(second);
+      await expect(lookup).resolves.toEqual({ isin: 'X' });
+
+      const sent = server.received
+        .filter(message => message.startsWith('sub '))
+        .map(message => JSON.parse(message.split(' ').slice(2).join(' ')).type);
+      expect(sent).toEqual(['ticker', 'ticker', 'instrument']);
+      expect(ws.getStatus().queuedSubscriptions).toBe(0);
+    });
+
+    it('should give up on requests that wait too long for a slot', async () => {
+      (ws as any).config.maxConcurrentSubscriptions = 1;
+      await ws.subscribe('ticker', { id: 'US0378331005.LSX' }, () => {});
+
+      await expect(
+        ws.request('instrument', { id: 'US0378331005' }, { timeoutMs: 20, maxQueueMs: 50 })
+      ).rejects.toBeInstanceOf(TRRequestQueueTimeoutError);
+      expect(ws.getStatus().queuedSubscriptions).toBe(0);
+    });
+
+    it('should answer unknown topics with an error frame', async () => {
+      const error = new Promise(resolve => ws.once('subscriptionError', resolve));
+      await ws.subscribe('unknownTopic' as any, {}, () => {});
+
+      await expect(error).resolves.toMatchObject({
+        type: 'unknownTopic',
+        error: { errors: [{ errorCode: 'BAD_SUBSCRIPTION_TYPE' }] },
+      });
+    });
+  });
+
+  describe('liveness', () => {
+    let ws: TradeRepublicWebSocket;
+
+    afterEach(() => {
+      ws.disconnect();
+    });
+
+    async function connect(config: { heartbeatInterval?: number; subscriptionTimeout?: number }) {
+      const api = new WorkingTradeRepublicAPI({ apiUrl: server.apiUrl });
+      const session = await api.completeAuth(server.credentials.processId, server.credentials.tan);
+      const authManager = new AuthManager();
+      (authManager as any).session = session;
+
+      ws = new TradeRepublicWebSocket(
+        { url: server.websocketUrl, reconnectDelay: 10, ...config },
+        authManager
+      );
+      await ws.connect();
+    }
+
+    it('should reconnect and resubscribe when pings go unanswered', async () => {
+      await connect({ heartbeatInterval: 30 });
+      await ws.subscribe('ticker', { id: 'US0378331005.LSX' }, () => {});
+      const stale = vi.fn();
+      ws.on('connectionStale', stale);
+
+      server.answerPings = false;
+      await vi.waitFor(() => expect(stale).toHaveBeenCalled());
+      server.answerPings = true;
+
+      await vi.waitFor(() =>
+        expect(server.received.filter(message => message.startsWith('connect '))).toHaveLength(2)
+      );
+      await vi.waitFor(() => expect(server.getSubscriptions()).toHaveLength(1));
+    });
+
+    it('should resubscribe subscriptions that stop receiving data', async () => {
+      server.addFixture({ type: 'cash', frames: [{ code: 'A', payload: [] }] });
+      await connect({ heartbeatInterval: 0, subscriptionTimeout: 60 });
+      const callback = vi.fn();
+      const stale = vi.fn();
+      ws.on('subscriptionStale', stale);
+
+      const handle = await ws.subscribe('cash', {}, callback);
+
+      await vi.waitFor(() =>
+        expect(stale).toHaveBeenCalledWith(
+          expect.objectContaining({ subscriptionId: handle, type: 'cash' })
+        )
+      );
+      await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(2));
+
+      // The subscription is re-sent under a new wire id
+      const wireIds = server.received
+        .filter(message => message.startsWith('sub '))
+        .map(message => message.split(' ')[1]);
+      expect(new Set(wireIds).size).toBeGreaterThan(1);
+    });
+
+    it('should back off after a drop and keep handles working once ready again', async () => {
+      await connect({ heartbeatInterval: 0 });
+      const states: string[] = [];
+      ws.on('stateChange', ({ to }) => states.push(to));
+      const callback = vi.fn();
+      const handle = await ws.subscribe('ticker', { id: 'US0378331005.LSX' }, callback);
+      await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(2));
+
+      server.closeConnections();
+
+      await vi.waitFor(() =>
+        expect(states).toEqual(['backoff', 'connecting', 'handshaking', 'ready'])
+      );
+      expect(ws.getStatus().reconnectAttempts).toBe(0);
+
+      // The subscription is re-keyed on the new connection, the caller's handle still works
+      await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(4));
+      expect(server.getSubscriptions()[0].id).not.toBe(String(handle));
+      await ws.unsubscribe(handle);
+      await vi.waitFor(() => expect(server.getSubscriptions()).toHaveLength(0));
+    });
+
+    it('should not send an order again when the connection drops while it is in flight', async () => {
+      server.addFixture({ type: 'priceForOrder', frames: [{ code: 'A', payload: { price: 10 } }] });
+      server.addFixture({
+        type: 'availableCash',
+        frames: [{ code: 'A', payload: [{ currencyId: 'EUR', amount: 100 }] }],
+      });
+      server.addFixture({ type: 'simpleCreateOrder', frames: [] });
+      await connect({ heartbeatInterval: 0, subscriptionTimeout: 60 });
+      const lost = vi.fn();
+      ws.on('subscriptionLost', lost);
+
+      const order = new TradingManager(ws, 5000).placeBuyOrder({
+        isin: 'US0378331005',
+        quantity: 1,
+        orderType: 'market',
+        venue: 'LANG_SCHWARZ',
+      });
+      const orderSubs = () =>
+        server.received.filter(message => message.includes('"simpleCreateOrder"'));
+      await vi.waitFor(() => expect(orderSubs()).toHaveLength(1));
+      server.closeConnections();
+
+      await expect(order).rejects.toThrow(OrderStatusUnknownError);
+      expect(lost).toHaveBeenCalledWith(expect.objectContaining({ type: 'simpleCreateOrder' }));
+      await vi.waitFor(() =>
+        expect(server.received.filter(message => message.startsWith('connect '))).toHaveLength(2)
+      );
+      expect(orderSubs()).toHaveLength(1);
+    });
+
+    it('should fail instead of reconnecting when the session cannot be refreshed', async () => {
+      await connect({ heartbeatInterval: 0 });
+      const authenticationRequired = vi.fn();
+      ws.on('authenticationRequired', authenticationRequired);
+      const authManager = (ws as any).authManager as AuthManager;
+      vi.spyOn(authManager, 'isAuthenticated').mockReturnValue(false);
+      vi.spyOn(authManager, 'canRefreshSession').mockReturnValue(false);
+
+      server.closeConnections();
+
+      await vi.waitFor(() => expect(ws.getStatus().state).toBe('failed'));
+      expect(authenticationRequired).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('cookie sessions', () => {
+    let cookieServer: MockTradeRepublicServer;
+
+    beforeEach(async () => {
+      cookieServer = new MockTradeRepublicServer({ sessionTransport: 'cookie' });
+      await cookieServer.start();
+    });
+
+    afterEach(async () => {
+      await cookieServer.stop();
+    });
+
+    it('should build the session from cookies and replay them', async () => {
+      const api = new WorkingTradeRepublicAPI({ apiUrl: cookieServer.apiUrl });
+      const { processId, tan, accessToken, refreshToken } = cookieServer.credentials;
+
+      const session = await api.completeAuth(processId, tan);
+      expect(session.token).toMatchObject({ accessToken, refreshToken });
+      expect(session.cookies?.map(cookie => cookie.name)).toEqual(['tr_session', 'tr_refresh']);
+
+      const token = await api.refreshSession(session.token);
+      expect(token.accessToken).not.toBe(accessToken);
+      expect(api.cookies.get('tr_session')).toBe(token.accessToken);
+
+      const authManager = new AuthManager(undefined, { apiUrl: cookieServer.apiUrl });
+      authManager.cookies.load(api.cookies.toJSON());
+      (authManager as any).session = { ...session, token };
+
+      const ws = new TradeRepublicWebSocket({ url: cookieServer.websocketUrl }, authManager);
+      await ws.connect();
+      ws.disconnect();
+
+      expect(cookieServer.handshakeCookies[0]).toEqual({
+        tr_session: token.accessToken,
+        tr_refresh: refreshToken,
+      });
+    });
+  });
+
+  describe('device login', () => {
+    it('should pair a device key and log in with signed requests', async () => {
+      const authManager = new AuthManager(undefined, {
+        apiUrl: server.apiUrl,
+        credentialStore: new MemoryCredentialStore(),
+      });
+      const { phoneNumber, pin, tan } = server.credentials;
+      const credentials = { username: phoneNumber, password: pin };
+
+      const challenge = await authManager.initiateDevicePairing(credentials);
+      const deviceKeys = await authManager.completeDevicePairing({
+        challengeId: challenge.challengeId,
+        code: tan,
+      });
+      expect(server.pairedDevices).toEqual([deviceKeys.publicKey]);
+
+      const session = await authManager.login(credentials);
+      expect(session).toMatchObject({ userId: 'mock-user', authMethod: 'device' });
+
+      const { accessToken } = session.token;
+      const token = await authManager.refreshToken();
+      expect(token.accessToken).not.toBe(accessToken);
+
+      const ws = new TradeRepublicWebSocket({ url: server.websocketUrl }, authManager);
+      await ws.connect();
+      ws.disconnect();
+      expect(server.received[0]).toMatch(/^connect 21 /);
+    });
+
+    it('should reject logins from unpaired devices', async () => {
+      const api = new WorkingTradeRepublicAPI({ apiUrl: server.apiUrl });
+      const { phoneNumber, pin } = server.credentials;
+
+      const response = await api.loginWithDeviceKeys(
+        { username: phoneNumber, password: pin },
+        generateDeviceKeys()
+      );
+      expect(response.error?.code).toBe('SIGNATURE_INVALID');
+    });
+
+    it('should clear rejected device keys and fall back to the web login', async () => {
+      const store = new MemoryCredentialStore();
+      await store.write('deviceKeys', generateDeviceKeys());
+      const authManager = new AuthManager(undefined, {
+        apiUrl: server.apiUrl,
+        credentialStore: store,
+      });
+      const { phoneNumber, pin } = server.credentials;
+
+      await expect(
+        authManager.login({ username: phoneNumber, password: pin })
+      ).rejects.toBeInstanceOf(TwoFactorRequiredError);
+      await expect(store.read('deviceKeys')).resolves.toBeNull();
+    });
+  });
+
+  describe('client', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'tr-mock-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should log in and stream prices through apiUrl and websocketUrl', async () => {
+      const client = new TradeRepublicClient({
+        apiUrl: server.apiUrl,
+        websocketUrl: server.websocketUrl,
+        credentialsPath: join(directory, 'session.json'),
+      });
+      const { phoneNumber, pin, tan } = server.credentials;
+      await client.initialize();
+
+      const error = await client.login({ username: phoneNumber, password: pin }).catch(e => e);
+      expect(error).toBeInstanceOf(TwoFactorRequiredError);
+
+      const challenge = (error as TwoFactorRequiredError).challenge!;
+      const session = await client.submitMFA(challenge, {
+        challengeId: challenge.challengeId,
+        code: tan,
+      });
+      expect(session.userId).toBe('mock-user');
+      expect(client.isAuthenticated()).toBe(true);
+
+      await client.initializeWebSocket();
+      const callback = vi.fn();
+      await client.subscribeToPrices('US0378331005', callback);
+      await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(2));
+
+      client.disconnectWebSocket();
+    });
+  });
+});
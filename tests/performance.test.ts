@@ -0,0 +1,165 @@
+/**
+ * Portfolio Performance Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PerformanceAnalyzer, xirr } from '../src/analytics/performance';
+import { ProductionDatabaseManager } from '../src/database/production-database';
+
+vi.mock('../src/utils/logger');
+
+const APPLE = 'US0378331005';
+
+describe('PerformanceAnalyzer', () => {
+  let database: ProductionDatabaseManager;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    database = new ProductionDatabaseManager(':memory:');
+    database.insertTransactions([
+      {
+        id: 'deposit-1',
+        type: 'deposit',
+        timestamp: '2024-01-01T10:00:00.000Z',
+        title: 'Einzahlung',
+        amount: 1000,
+        currency: 'EUR',
+        fees: 0,
+        taxes: 0,
+      },
+      {
+        id: 'buy',
+        type: 'buy',
+        timestamp: '2024-01-02T10:00:00.000Z',
+        title: 'Apple',
+        isin: APPLE,
+        amount: -1000,
+        currency: 'EUR',
+        quantity: 10,
+        price: 100,
+        fees: 0,
+        taxes: 0,
+      },
+      {
+        id: 'deposit-2',
+        type: 'deposit',
+        timestamp: '2024-01-04T10:00:00.000Z',
+        title: 'Einzahlung',
+        amount: 1000,
+        currency: 'EUR',
+        fees: 0,
+        taxes: 0,
+      },
+    ]);
+    database.insertHistoricalPricesBulk(
+      [
+        ['2024-01-02', 100],
+        ['2024-01-03', 110],
+      ].map(([day, close]) => ({
+        isin: APPLE,
+        timeframe: '1d' as const,
+        timestamp: `${day}T08:00:00.000Z`,
+        open: close as number,
+        high: close as number,
+        low: close as number,
+        close: close as number,
+      }))
+    );
+  });
+
+  afterEach(() => {
+    database.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should leave the time-weighted return unaffected by deposits', () => {
+    const analyzer = new PerformanceAnalyzer(database);
+
+    const account = analyzer.getPerformance('2024-01-02', '2024-01-04');
+    expect(account).toMatchObject({ startValue: 1000, endValue: 2100, netFlows: 1000 });
+    expect(account.profit).toBeCloseTo(100);
+    expect(account.twr).toBeCloseTo(0.1);
+    expect(account.mwr).toBeGreaterThan(0);
+
+    const position = analyzer.getPerformance('2024-01-02', '2024-01-04', APPLE);
+    expect(position).toMatchObject({ startValue: 0, endValue: 1100, netFlows: 1000 });
+    expect(position.twr).toBeCloseTo(0.1);
+
+    expect(analyzer.getEquityCurve('2024-01-02', '2024-01-04').map(point => point.value)).toEqual([
+      1000, 1100, 2100,
+    ]);
+  });
+
+  it('should store the daily equity curve', () => {
+    const analyzer = new PerformanceAnalyzer(database);
+
+    expect(analyzer.saveEquityCurve('account-1', '2024-01-02', '2024-01-04')).toBe(3);
+    expect(analyzer.saveEquityCurve('account-1', '2024-01-03', '2024-01-04')).toBe(2);
+
+    const stored = database.getPortfolioPerformance('account-1', '1D');
+    expect(stored.map(record => record.timestamp)).toEqual([
+      '2024-01-02',
+      '2024-01-03',
+      '2024-01-04',
+    ]);
+    expect(stored[2]).toMatchObject({ value: 2100, returnAbsolute: 100 });
+    expect(stored[2]?.returnPercentage).toBeCloseTo(10);
+  });
+
+  it('should measure sales of a position against the previous close', () => {
+    const sale = (id: string, day: string, quantity: number, price: number) => ({
+      id,
+      type: 'sell' as const,
+      timestamp: `2024-01-${day}T10:00:00.000Z`,
+      title: 'Apple',
+      isin: APPLE,
+      amount: quantity * price - 1,
+      currency: 'EUR',
+      quantity,
+      price,
+      fees: 1,
+      taxes: 0,
+    });
+    database.insertTransactions([sale('sell-1', '08', 4, 121), sale('sell-2', '10', 6, 99)]);
+    database.insertHistoricalPricesBulk(
+      [
+        ['2024-01-05', 110],
+        ['2024-01-08', 121],
+        ['2024-01-09', 100],
+      ].map(([day, close]) => ({
+        isin: APPLE,
+        timeframe: '1d' as const,
+        timestamp: `${day}T08:00:00.000Z`,
+        open: close as number,
+        high: close as number,
+        low: close as number,
+        close: close as number,
+      }))
+    );
+    const analyzer = new PerformanceAnalyzer(database);
+
+    // Partial sale at a gain: 1100 -> 6 × 121 held plus 483 received
+    const partial = analyzer.getPerformance('2024-01-08', '2024-01-08', APPLE);
+    expect(partial).toMatchObject({ startValue: 1100, endValue: 726, netFlows: -483 });
+    expect(partial.twr).toBeCloseTo((726 + 483) / 1100 - 1);
+
+    // Full sale below the previous close: 600 -> 593 received, nothing held
+    const full = analyzer.getPerformance('2024-01-10', '2024-01-12', APPLE);
+    expect(full).toMatchObject({ startValue: 600, endValue: 0, netFlows: -593 });
+    expect(full.twr).toBeCloseTo(593 / 600 - 1);
+    expect(full.profit).toBeCloseTo(-7);
+  });
+
+  it('should solve the internal rate of return', () => {
+    const start = Date.parse('2023-01-01');
+    const end = Date.parse('2024-01-01');
+
+    expect(
+      xirr([
+        { time: start, amount: -1000 },
+        { time: end, amount: 1100 },
+      ])
+    ).toBeCloseTo(0.1, 6);
+    expect(xirr([{ time: start, amount: -1000 }])).toBeUndefined();
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Portfolio History Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PortfolioHistory } from '../src/analytics/portfolio-history';
+import { ProductionDatabaseManager } from '../src/database/production-database';
+import type { LedgerTransaction } from '../src/types/ledger';
+
+vi.mock('../src/utils/logger');
+
+const APPLE = 'US0378331005';
+const SAP = 'DE0007164600';
+
+const trade = (
+  isin: string,
+  type: 'buy' | 'sell',
+  date: string,
+  quantity: number,
+  price: number
+): LedgerTransaction => ({
+  id: `${isin}-${type}-${date}`,
+  type,
+  timestamp: `${date}T10:00:00.000Z`,
+  title: isin,
+  isin,
+  amount: (type === 'buy' ? -1 : 1) * quantity * price,
+  currency: 'EUR',
+  quantity,
+  price,
+  fees: 0,
+  taxes: 0,
+});
+
+describe('PortfolioHistory', () => {
+  let database: ProductionDatabaseManager;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    database = new ProductionDatabaseManager(':memory:');
+    database.insertTransactions([
+      {
+        id: 'deposit',
+        type: 'deposit',
+        timestamp: '2024-02-01T10:00:00.000Z',
+        title: 'Einzahlung',
+        amount: 1500,
+        currency: 'EUR',
+        fees: 0,
+        taxes: 0,
+      },
+      trade(APPLE, 'buy', '2024-03-01', 10, 100),
+      trade(SAP, 'buy', '2024-04-02', 5, 150),
+      trade(APPLE, 'sell', '2024-04-03', 4, 120),
+    ]);
+    database.insertPortfolioSnapshot({
+      accountId: 'default',
+      date: '2024-03-29',
+      cash: 500,
+      totalValue: 1500,
+      positions: [{ isin: APPLE, quantity: 10, price: 100, marketValue: 1000, averagePrice: 100 }],
+      capturedAt: '2024-03-29T17:00:00.000Z',
+    });
+    database.insertHistoricalPricesBulk(
+      [
+        ['2024-03-28', 98],
+        ['2024-04-03', 120],
+      ].map(([day, close]) => ({
+        isin: APPLE,
+        timeframe: '1d' as const,
+        timestamp: `${day}T08:00:00.000Z`,
+        open: close as number,
+        high: close as number,
+        low: close as number,
+        close: close as number,
+      }))
+    );
+  });
+
+  afterEach(() => {
+    database.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should reconstruct holdings from the latest snapshot and later trades', () => {
+    const history = new PortfolioHistory(database);
+
+    expect(history.getPortfolioAt('2024-03-31')).toMatchObject({
+      snapshotDate: '2024-03-29',
+      cash: 500,
+      holdings: [{ isin: APPLE, quantity: 10, price: 100, priceSource: 'snapshot' }],
+      totalValue: 1500,
+    });
+
+    expect(history.getPortfolioAt('2024-04-03')).toMatchObject({
+      cash: 230,
+      holdings: [
+        { isin: SAP, quantity: 5, price: 150, priceSource: 'trade', marketValue: 750 },
+        { isin: APPLE, quantity: 6, price: 120, priceSource: 'close', marketValue: 720 },
+      ],
+      totalValue: 1700,
+    });
+
+    // Before the first snapshot the ledger is replayed from the start
+    expect(history.getPortfolioAt('2024-03-15')).toMatchObject({
+      snapshotDate: undefined,
+      cash: 500,
+      holdings: [{ isin: APPLE, quantity: 10, price: 100, priceDate: '2024-03-01' }],
+      totalValue: 1500,
+    });
+  });
+
+  it('should diff the holdings of two days', () => {
+    const diff = new PortfolioHistory(database).diff('2024-03-31', '2024-04-03');
+
+    expect(diff.changes).toEqual([
+      expect.objectContaining({ isin: SAP, status: 'added', quantityChange: 5, valueAfter: 750 }),
+      expect.objectContaining({ isin: APPLE, status: 'changed', quantityChange: -4 }),
+    ]);
+    expect(diff.cashChange).toBe(-270);
+    expect(diff.valueChange).toBe(200);
+  });
+
+  it('should keep every snapshot of a day', () => {
+    database.insertPortfolioSnapshot({
+      accountId: 'default',
+      date: '2024-03-29',
+      cash: 400,
+      totalValue: 1400,
+      positions: [],
+      capturedAt: '2024-03-29T18:00:00.000Z',
+    });
+
+    expect(database.getDatabaseStats().portfolio_snapshots).toBe(2);
+    expect(database.getLatestPortfolioSnapshot('default', '2024-03-30')).toMatchObject({
+      cash: 400,
+      positions: [],
+    });
+  });
+});
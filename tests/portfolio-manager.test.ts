@@ -0,0 +1,143 @@
+/**
+ * Portfolio Manager Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PortfolioManager } from '../src/portfolio/manager';
+import type { TradeRepublicWebSocket } from '../src/websocket/tr-websocket';
+
+vi.mock('../src/utils/logger');
+
+const APPLE = 'US0378331005';
+const SAP = 'DE0007164600';
+const UNKNOWN = 'XS0000000001';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Payload = Record<string, unknown>;
+
+/**
+ * WebSocket stub answering each topic with the payload of a responder; topics
+ * without an answer fail
+ */
+function createWebSocket(respond: (type: string, payload: Payload) => unknown) {
+  return {
+    request: vi.fn(async (type: string, payload: Payload) => {
+      const data = respond(type, payload);
+      if (data === undefined) {
+        throw new Error(`No data for ${type}`);
+      }
+      return data;
+    }),
+  } as unknown as TradeRepublicWebSocket & { request: ReturnType<typeof vi.fn> };
+}
+
+describe('PortfolioManager', () => {
+  let websocket: ReturnType<typeof createWebSocket>;
+  let portfolio: PortfolioManager;
+  let now: number;
+
+  beforeEach(() => {
+    now = Date.now();
+    const responses: Record<string, unknown> = {
+      compactPortfolio: {
+        positions: [
+          { instrumentId: APPLE, netSize: '10', averageBuyIn: '100' },
+          { instrumentId: SAP, netSize: '5', averageBuyIn: '100' },
+          { instrumentId: UNKNOWN, netSize: '2', averageBuyIn: '50' },
+        ],
+      },
+      [`instrument:${APPLE}`]: { name: 'Apple Inc.', exchangeIds: ['TDG', 'LSX'] },
+      [`instrument:${SAP}`]: { shortName: 'SAP', exchangeIds: ['XETRA'] },
+      [`ticker:${APPLE}.LSX`]: { last: { price: '120' }, bid: { price: '119' } },
+      [`ticker:${SAP}.XETRA`]: { bid: { price: '150' } },
+      cash: [
+        { accountNumber: '123', currencyId: 'USD', amount: 5 },
+        { accountNumber: '123', currencyId: 'EUR', amount: 250.5 },
+      ],
+      portfolioStatus: { status: 'ACTIVE' },
+      portfolioAggregateHistory: {
+        aggregates: [
+          [200, 50],
+          [100, 100],
+          [1, 110],
+        ].map(([age, close]) => ({ time: now - age! * DAY_MS, close })),
+      },
+    };
+    websocket = createWebSocket(
+      (type, payload) => responses[payload.id ? `${type}:${String(payload.id)}` : type]
+    );
+    portfolio = new PortfolioManager(websocket, 1000);
+  });
+
+  it('should price positions on their exchange and fall back to the average price', async () => {
+    const positions = await portfolio.getPositions();
+
+    expect(positions.map(position => position.isin)).toEqual([APPLE, SAP, UNKNOWN]);
+    expect(positions[0]).toMatchObject({
+      name: 'Apple Inc.',
+      exchange: 'LSX',
+      quantity: 10,
+      currentPrice: 120,
+      marketValue: 1200,
+      totalCost: 1000,
+      unrealizedPnL: 200,
+      unrealizedPnLPercentage: 20,
+    });
+    expect(positions[1]).toMatchObject({ name: 'SAP', exchange: 'XETRA', currentPrice: 150 });
+    expect(positions[2]).toMatchObject({
+      name: undefined,
+      exchange: 'LSX',
+      currentPrice: 50,
+      unrealizedPnL: 0,
+    });
+    expect(websocket.request).toHaveBeenCalledWith(
+      'ticker',
+      expect.objectContaining({ id: `${UNKNOWN}.LSX` }),
+      { timeoutMs: 1000 }
+    );
+
+    await expect(portfolio.getPosition(SAP)).resolves.toMatchObject({ marketValue: 750 });
+    await expect(portfolio.getWinningPositions()).resolves.toHaveLength(2);
+  });
+
+  it('should read the EUR cash balance and summarize the portfolio', async () => {
+    await expect(portfolio.getCash()).resolves.toEqual({ currency: 'EUR', amount: 250.5 });
+
+    await expect(portfolio.getPortfolio()).resolves.toMatchObject({
+      id: '123',
+      status: 'ACTIVE',
+    });
+    await expect(portfolio.getSummary()).resolves.toMatchObject({
+      totalValue: 2050,
+      totalInvested: 1600,
+      totalPnL: 450,
+      totalPnLPercent: 28.125,
+      availableCash: 250.5,
+      currency: 'EUR',
+      positionCount: 3,
+    });
+  });
+
+  it('should cut the history of a timeframe and compute its change', async () => {
+    // 6M uses the one year range, limited to the last 183 days
+    const halfYear = await portfolio.getPerformance('6M');
+    expect(websocket.request).toHaveBeenLastCalledWith(
+      'portfolioAggregateHistory',
+      expect.objectContaining({ range: '1y' }),
+      { timeoutMs: 1000 }
+    );
+    expect(halfYear.data.map(point => point.value)).toEqual([100, 110]);
+    expect(halfYear).toMatchObject({ timeframe: '6M', absoluteChange: 10, percentChange: 10 });
+
+    const year = await portfolio.getPerformance('1Y');
+    expect(year.data).toHaveLength(3);
+    expect(year).toMatchObject({ absoluteChange: 60, percentChange: 120 });
+
+    await portfolio.getPerformance('1W');
+    expect(websocket.request).toHaveBeenLastCalledWith(
+      'portfolioAggregateHistory',
+      expect.objectContaining({ range: '5d' }),
+      { timeoutMs: 1000 }
+    );
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Subscription Stream Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { SubscriptionStream } from '../src/websocket/subscription-stream';
+import type { StreamOptions } from '../src/websocket/subscription-stream';
+
+function createStream(options: StreamOptions): {
+  stream: SubscriptionStream<number>;
+  hooks: {
+    pause: ReturnType<typeof vi.fn>;
+    resume: ReturnType<typeof vi.fn>;
+    release: ReturnType<typeof vi.fn>;
+  };
+} {
+  const hooks = {
+    pause: vi.fn(),
+    resume: vi.fn(),
+    release: vi.fn().mockResolvedValue(undefined),
+  };
+  return { stream: new SubscriptionStream<number>(options, hooks), hooks };
+}
+
+async function take(stream: SubscriptionStream<number>, count: number): Promise<number[]> {
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const result = await stream.next();
+    if (result.done) break;
+    values.push(result.value);
+  }
+  return values;
+}
+
+describe('SubscriptionStream', () => {
+  it('should drop the oldest updates when the buffer is full', async () => {
+    const { stream } = createStream({ bufferSize: 2, overflow: 'drop-oldest' });
+    [1, 2, 3, 4].forEach(value => stream.push(value));
+
+    expect(await take(stream, 2)).toEqual([3, 4]);
+    expect(stream.dropped).toBe(2);
+  });
+
+  it('should drop incoming updates when the buffer is full', async () => {
+    const { stream } = createStream({ bufferSize: 2, overflow: 'drop-newest' });
+    [1, 2, 3, 4].forEach(value => stream.push(value));
+
+    expect(await take(stream, 2)).toEqual([1, 2]);
+    expect(stream.dropped).toBe(2);
+  });
+
+  it('should pause the source while blocked and resume once drained', async () => {
+    const { stream, hooks } = createStream({ bufferSize: 4, overflow: 'block' });
+    [1, 2, 3, 4, 5].forEach(value => stream.push(value));
+
+    expect(hooks.pause).toHaveBeenCalledTimes(1);
+    expect(await take(stream, 2)).toEqual([1, 2]);
+    expect(hooks.resume).not.toHaveBeenCalled();
+    expect(await take(stream, 1)).toEqual([3]);
+    expect(hooks.resume).toHaveBeenCalledTimes(1);
+    expect(stream.dropped).toBe(0);
+  });
+
+  it('should release the subscription when a for await loop exits early', async () => {
+    const { stream, hooks } = createStream({});
+    [1, 2, 3].forEach(value => stream.push(value));
+
+    const values: number[] = [];
+    for await (const value of stream) {
+      values.push(value);
+      if (value === 2) break;
+    }
+
+    expect(values).toEqual([1, 2]);
+    expect(hooks.release).toHaveBeenCalledTimes(1);
+    expect(await stream.next()).toEqual({ value: undefined, done: true });
+  });
+
+  it('should deliver buffered updates before an error', async () => {
+    const { stream } = createStream({});
+    stream.push(1);
+    stream.fail(new Error('BAD_SUBSCRIPTION_TYPE'));
+
+    expect(await take(stream, 1)).toEqual([1]);
+    await expect(stream.next()).rejects.toThrow('BAD_SUBSCRIPTION_TYPE');
+  });
+});
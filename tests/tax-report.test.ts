@@ -0,0 +1,181 @@
+/**
+ * Tax Report Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TaxReportGenerator } from '../src/analytics/tax-report';
+import { toTaxReportCsv, toTaxReportHtml } from '../src/analytics/tax-report-format';
+import { ProductionDatabaseManager } from '../src/database/production-database';
+import type { LedgerTransaction } from '../src/types/ledger';
+
+vi.mock('../src/utils/logger');
+
+const APPLE = 'US0378331005';
+const SAP = 'DE0007164600';
+const MSCI_WORLD = 'IE00B4L5Y983';
+
+const trade = (
+  isin: string,
+  type: 'buy' | 'sell',
+  date: string,
+  quantity: number,
+  price: number,
+  fees = 0
+): LedgerTransaction => ({
+  id: `${isin}-${type}-${date}`,
+  type,
+  timestamp: `${date}T10:00:00.000Z`,
+  title: isin,
+  isin,
+  amount: (type === 'buy' ? -1 : 1) * quantity * price,
+  currency: 'EUR',
+  quantity,
+  price,
+  fees,
+  taxes: 0,
+});
+
+describe('TaxReportGenerator', () => {
+  let database: ProductionDatabaseManager;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    database = new ProductionDatabaseManager(':memory:');
+    database.insertTransactions([
+      trade(APPLE, 'buy', '2023-05-02', 10, 100, 1),
+      trade(APPLE, 'sell', '2024-03-01', 10, 90, 1),
+      trade(SAP, 'buy', '2023-06-01', 5, 100),
+      trade(SAP, 'sell', '2024-06-03', 5, 150),
+      trade(MSCI_WORLD, 'buy', '2023-03-15', 10, 80),
+      trade(MSCI_WORLD, 'sell', '2024-07-01', 4, 100),
+      {
+        id: 'dividend',
+        type: 'dividend',
+        timestamp: '2024-05-10T10:00:00.000Z',
+        title: 'Apple',
+        isin: APPLE,
+        amount: 10,
+        currency: 'EUR',
+        fees: 0,
+        taxes: 2.64,
+        capitalGainsTax: 2.5,
+        solidaritySurcharge: 0.14,
+      },
+      {
+        id: 'interest',
+        type: 'interest',
+        timestamp: '2024-04-01T10:00:00.000Z',
+        title: 'Zinsen',
+        amount: 5,
+        currency: 'EUR',
+        fees: 0,
+        taxes: 0,
+      },
+    ]);
+    database.insertHistoricalPricesBulk(
+      [
+        ['2022-12-30', 80],
+        ['2023-12-29', 90],
+      ].map(([day, close]) => ({
+        isin: MSCI_WORLD,
+        timeframe: '1d' as const,
+        timestamp: `${day}T08:00:00.000Z`,
+        open: close as number,
+        high: close as number,
+        low: close as number,
+        close: close as number,
+      }))
+    );
+  });
+
+  afterEach(() => {
+    database.close();
+    vi.restoreAllMocks();
+  });
+
+  const generate = () =>
+    new TaxReportGenerator(database, {
+      assetClasses: { [APPLE]: 'stock', [SAP]: 'stock', [MSCI_WORLD]: 'fund' },
+      allowance: 100,
+    }).generate(2024);
+
+  it('should split gains into loss pots and apply the Teilfreistellung', () => {
+    const report = generate();
+
+    expect(report.stockPot).toEqual({ gains: 250, losses: 102, net: 148 });
+    // 2023 Vorabpauschale: 80 × 2.55% × 0.7 per share, bought in March: 10/12
+    expect(report.vorabpauschale).toBeCloseTo(11.9);
+    expect(report.partialExemption).toBeCloseTo((75.24 + 11.9) * 0.3);
+    expect(report.otherPot.gains).toBeCloseTo(5 + 12.64 + 75.24 * 0.7 + 11.9 * 0.7);
+    expect(report.capitalIncome).toBeCloseTo(148 + 5 + 12.64 + 52.668 + 8.33);
+    expect(report.withheld).toMatchObject({ capitalGainsTax: 2.5, solidaritySurcharge: 0.14 });
+    expect(report.estimate.capitalGainsTax).toBeCloseTo((report.capitalIncome - 100) / 4);
+    expect(report.unclassified).toEqual([]);
+    expect(report.sales).toHaveLength(3);
+  });
+
+  it('should count the taxes of a refund event as refunded only', () => {
+    database.insertTransactions([
+      {
+        id: 'refund',
+        type: 'tax',
+        timestamp: '2024-08-01T10:00:00.000Z',
+        title: 'Steuerkorrektur',
+        amount: 1.06,
+        currency: 'EUR',
+        fees: 0,
+        taxes: 1.06,
+        capitalGainsTax: 1,
+        solidaritySurcharge: 0.06,
+      },
+    ]);
+
+    expect(generate().withheld).toMatchObject({
+      capitalGainsTax: 2.5,
+      solidaritySurcharge: 0.14,
+      refunded: 1.06,
+    });
+  });
+
+  it('should deduct the Vorabpauschale of earlier years from fund sales', () => {
+    const report = generate();
+
+    // Four of the shares held for ten months of 2023
+    const sale = report.sales.find(gain => gain.isin === MSCI_WORLD);
+    expect(sale?.gain).toBeCloseTo(80);
+    expect(sale?.vorabpauschale).toBeCloseTo(4 * 1.428 * (10 / 12));
+    expect(report.lines.find(line => line.isin === MSCI_WORLD)?.realizedGain).toBeCloseTo(75.24);
+    expect(report.sales.find(gain => gain.isin === SAP)?.vorabpauschale).toBe(0);
+  });
+
+  it('should assign transactions to years by the local date', () => {
+    // 23:30 UTC on New Year's Eve is already 2025 in Berlin
+    database.insertTransactions([
+      { ...trade(SAP, 'buy', '2024-12-02', 1, 100), id: 'late-buy' },
+      {
+        ...trade(SAP, 'sell', '2024-12-31', 1, 120),
+        id: 'late-sell',
+        timestamp: '2024-12-31T23:30:00.000Z',
+      },
+    ]);
+
+    expect(generate().stockPot.gains).toBe(250);
+    const next = new TaxReportGenerator(database, {
+      assetClasses: { [SAP]: 'stock' },
+    }).generate(2025);
+    expect(next.stockPot).toEqual({ gains: 20, losses: 0, net: 20 });
+  });
+
+  it('should render CSV and printable HTML', () => {
+    const report = generate();
+
+    const csv = toTaxReportCsv(report);
+    expect(csv.split('\n')[0]).toBe('Section,Item,ISIN,Amount');
+    expect(csv).toContain('Anlage KAP,Gewinne aus Aktienveräußerungen,,250.00');
+    expect(csv).toContain(`Instrument,Vorabpauschale,${MSCI_WORLD},11.90`);
+
+    const html = toTaxReportHtml(report);
+    expect(html).toContain('<h1>Steuerreport 2024 (Anlage KAP)</h1>');
+    expect(html).toContain('<td>Kapitalertragsteuer</td><td class="amount">2.50 €</td>');
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Tick Recorder Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TickRecorder } from '../src/market/tick-recorder';
+import { ProductionDatabaseManager } from '../src/database/production-database';
+import type { TradeRepublicWebSocket } from '../src/websocket/tr-websocket';
+import type { TRTicker } from '../src/types/websocket';
+
+vi.mock('../src/utils/logger');
+
+/**
+ * WebSocket stub keeping ticker callbacks so tests can push quotes
+ */
+function createWebSocket(responses: Record<string, unknown> = {}) {
+  const callbacks = new Map<string, (data: TRTicker) => void>();
+  const websocket = {
+    request: vi.fn(async (type: string) => responses[type]),
+    subscribe: vi.fn(async (_type: string, payload: { id: string }, callback) => {
+      callbacks.set(payload.id, callback);
+      return payload.id;
+    }),
+    unsubscribe: vi.fn(async () => {}),
+  } as unknown as TradeRepublicWebSocket;
+  return { websocket, callbacks };
+}
+
+function quote(time: number, bid: string, ask: string): TRTicker {
+  return { bid: { time, price: bid }, ask: { time, price: ask }, last: { time, price: bid } };
+}
+
+describe('TickRecorder', () => {
+  let database: ProductionDatabaseManager;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    database = new ProductionDatabaseManager(':memory:');
+  });
+
+  afterEach(() => {
+    database.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should subscribe to the held positions', async () => {
+    const { websocket } = createWebSocket({
+      compactPortfolio: {
+        positions: [
+          { instrumentId: 'US0378331005', netSize: '1', averageBuyIn: '100' },
+          { instrumentId: 'DE0007164600', netSize: '2', averageBuyIn: '50' },
+        ],
+      },
+    });
+    const recorder = new TickRecorder(websocket, database, { source: { type: 'positions' } });
+
+    await expect(recorder.start()).resolves.toEqual(['US0378331005', 'DE0007164600']);
+    expect(websocket.subscribe).toHaveBeenCalledWith(
+      'ticker',
+      { id: 'DE0007164600.LSX' },
+      expect.any(Function),
+      { priority: 'high' }
+    );
+    await recorder.stop();
+    expect(websocket.unsubscribe).toHaveBeenCalledTimes(2);
+  });
+
+  it('should coalesce updates and skip quotes replayed after a reconnect', async () => {
+    const { websocket, callbacks } = createWebSocket();
+    const recorder = new TickRecorder(websocket, database, {
+      source: { type: 'isins', isins: ['US0378331005'] },
+      flushInterval: 60000,
+    });
+    await recorder.start();
+    const push = callbacks.get('US0378331005.LSX')!;
+
+    push(quote(1000, '10.0', '10.2'));
+    push(quote(1000, '10.1', '10.2'));
+    push(quote(2000, '10.2', '10.3'));
+    expect(recorder.flush()).toBe(2);
+
+    // The server resends the current quote when the subscription is re-sent
+    push(quote(2000, '10.2', '10.3'));
+    push(quote(3000, '10.3', '10.4'));
+    await recorder.stop();
+
+    const rows = database.getLatestPrices(['US0378331005']);
+    expect(rows).toMatchObject([{ bid: 10.3, ask: 10.4, last: 10.3 }]);
+    expect(recorder.getStats()).toMatchObject({
+      received: 5,
+      coalesced: 1,
+      duplicates: 1,
+      written: 3,
+      pending: 0,
+    });
+
+    // A restarted recorder does not write the same tick twice either
+    expect(database.insertPriceTicks([{ isin: 'US0378331005', time: 3000, bid: 10.3 }])).toBe(0);
+  });
+
+  it('should keep ticks when a write fails', async () => {
+    const { websocket, callbacks } = createWebSocket();
+    const sink = {
+      insertPriceTicks: vi
+        .fn()
+        .mockImplementationOnce(() => {
+          throw new Error('database is locked');
+        })
+        .mockImplementation((ticks: unknown[]) => ticks.length),
+    };
+    const recorder = new TickRecorder(websocket, sink, {
+      source: { type: 'isins', isins: ['US0378331005'] },
+      flushInterval: 60000,
+    });
+    await recorder.start();
+    callbacks.get('US0378331005.LSX')!(quote(1000, '10.0', '10.2'));
+
+    expect(recorder.flush()).toBe(0);
+    expect(recorder.flush()).toBe(1);
+    expect(recorder.getStats()).toMatchObject({ failedFlushes: 1, written: 1 });
+    await recorder.stop();
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Timeline Importer Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TimelineImporter } from '../src/ledger/timeline-importer';
+import { TaxReportGenerator } from '../src/analytics/tax-report';
+import { ProductionDatabaseManager } from '../src/database/production-database';
+import type { TradeRepublicWebSocket } from '../src/websocket/tr-websocket';
+import type {
+  TRTimelineDetail,
+  TRTimelineTransaction,
+  TRTimelineTransactions,
+} from '../src/types/websocket';
+
+vi.mock('../src/utils/logger');
+
+const APPLE = 'US0378331005';
+
+const event = (
+  id: string,
+  eventType: string,
+  day: string,
+  value: number,
+  extra: Partial<TRTimelineTransaction> = {}
+): TRTimelineTransaction => ({
+  id,
+  eventType,
+  timestamp: `2024-03-${day}T10:00:00.000+0000`,
+  title: id,
+  status: 'EXECUTED',
+  amount: { currency: 'EUR', value },
+  ...extra,
+});
+
+const DETAILS: Record<string, TRTimelineDetail> = {
+  buy: {
+    id: 'buy',
+    sections: [
+      { type: 'header', action: { type: 'instrumentDetail', payload: APPLE } },
+      {
+        type: 'table',
+        title: 'Übersicht',
+        data: [
+          { title: 'Transaktion', detail: { displayValue: { text: '10 × 110,03 €' } } },
+          { title: 'Gebühr', detail: { text: '1,00 €' } },
+        ],
+      },
+    ],
+  },
+  dividend: {
+    id: 'dividend',
+    sections: [
+      {
+        type: 'table',
+        title: 'Geschäft',
+        data: [
+          { title: 'Anteile', detail: { text: '10' } },
+          { title: 'Dividende pro Aktie', detail: { text: '1,65 €' } },
+          { title: 'Kapitalertragsteuer', detail: { text: '-3,04 €' } },
+          { title: 'Solidaritätszuschlag', detail: { text: '-0,16 €' } },
+        ],
+      },
+    ],
+  },
+  refund: {
+    id: 'refund',
+    sections: [
+      {
+        type: 'table',
+        title: 'Übersicht',
+        data: [
+          { title: 'Kapitalertragsteuer', detail: { text: '1,00 €' } },
+          { title: 'Solidaritätszuschlag', detail: { text: '0,05 €' } },
+        ],
+      },
+    ],
+  },
+};
+
+/**
+ * WebSocket stub serving timeline pages by cursor and details by id
+ */
+function createWebSocket(pages: Record<string, TRTimelineTransactions>) {
+  return {
+    request: vi.fn(async (type: string, payload: { after?: string; id?: string }) =>
+      type === 'timelineTransactions'
+        ? pages[payload.after ?? 'first']
+        : (DETAILS[payload.id ?? ''] ?? { id: payload.id, sections: [] })
+    ),
+  } as unknown as TradeRepublicWebSocket & { request: ReturnType<typeof vi.fn> };
+}
+
+describe('TimelineImporter', () => {
+  let database: ProductionDatabaseManager;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    database = new ProductionDatabaseManager(':memory:');
+  });
+
+  afterEach(() => {
+    database.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should page through the timeline and store normalized transactions', async () => {
+    const websocket = createWebSocket({
+      first: {
+        items: [
+          event('dividend', 'CREDIT', '05', 13.3, { icon: `logos/${APPLE}/v2` }),
+          event('buy', 'TRADE_INVOICE', '04', -1101.3),
+          event('cancelled', 'TRADE_INVOICE', '03', -50, { status: 'CANCELED' }),
+        ],
+        cursors: { after: 'page-2' },
+      },
+      'page-2': { items: [event('deposit', 'PAYMENT_INBOUND', '01', 2000)] },
+    });
+
+    await expect(new TimelineImporter(websocket, database).run()).resolves.toEqual({
+      pages: 2,
+      events: 4,
+      imported: 3,
+      skipped: 1,
+      pending: 0,
+      complete: true,
+    });
+
+    const [deposit, buy, dividend] = database.getTransactions();
+    expect(deposit).toMatchObject({ type: 'deposit', amount: 2000, fees: 0, taxes: 0 });
+    expect(buy).toMatchObject({
+      type: 'buy',
+      timestamp: '2024-03-04T10:00:00.000Z',
+      isin: APPLE,
+      amount: -1101.3,
+      quantity: 10,
+      price: 110.03,
+      fees: 1,
+    });
+    expect(dividend).toMatchObject({
+      type: 'dividend',
+      isin: APPLE,
+      quantity: 10,
+      price: 1.65,
+      capitalGainsTax: 3.04,
+      solidaritySurcharge: 0.16,
+    });
+    expect(dividend?.taxes).toBeCloseTo(3.2);
+    expect(database.getDatabaseStats()).toMatchObject({ orders: 1, executions: 1 });
+  });
+
+  it('should not count the taxes of a refund as withheld', async () => {
+    const websocket = createWebSocket({
+      first: {
+        items: [
+          event('refund', 'TAX_REFUND', '06', 1.05),
+          event('dividend', 'CREDIT', '05', 13.3, { icon: `logos/${APPLE}/v2` }),
+        ],
+      },
+    });
+    await new TimelineImporter(websocket, database).run();
+
+    expect(database.getTransactions()[1]).toMatchObject({
+      type: 'tax',
+      amount: 1.05,
+      capitalGainsTax: 1,
+    });
+    const report = new TaxReportGenerator(database).generate(2024);
+    expect(report.withheld.capitalGainsTax).toBeCloseTo(3.04);
+    expect(report.withheld.solidaritySurcharge).toBeCloseTo(0.16);
+    expect(report.withheld.refunded).toBeCloseTo(1.05);
+  });
+
+  it('should only fetch events newer than the last stored one', async () => {
+    const older = [event('buy', 'TRADE_INVOICE', '04', -1101.3)];
+    await new TimelineImporter(createWebSocket({ first: { items: older } }), database).run();
+
+    const websocket = createWebSocket({
+      first: {
+        items: [event('interest', 'INTEREST_PAYOUT', '06', 4.2), ...older],
+        cursors: { after: 'page-2' },
+      },
+      'page-2': { items: [event('deposit', 'PAYMENT_INBOUND', '01', 2000)] },
+    });
+
+    await expect(new TimelineImporter(websocket, database).run()).resolves.toMatchObject({
+      pages: 1,
+      imported: 1,
+    });
+    expect(websocket.request).not.toHaveBeenCalledWith('timelineTransactions', {
+      after: 'page-2',
+    });
+    expect(database.getTransactions({ types: ['interest'] })).toHaveLength(1);
+    expect(database.getTransactions()).toHaveLength(2);
+  });
+
+  it('should continue a run cut short by the page limit before moving the cutoff', async () => {
+    const pages = {
+      first: {
+        items: [event('buy', 'TRADE_INVOICE', '04', -1101.3)],
+        cursors: { after: 'page-2' },
+      },
+      'page-2': { items: [event('deposit', 'PAYMENT_INBOUND', '01', 2000)] },
+    };
+
+    const limited = await new TimelineImporter(createWebSocket(pages), database, {
+      maxPages: 1,
+    }).run();
+    expect(limited).toMatchObject({ pages: 1, imported: 1, complete: false });
+
+    const websocket = createWebSocket(pages);
+    await expect(new TimelineImporter(websocket, database).run()).resolves.toMatchObject({
+      pages: 1,
+      imported: 1,
+      complete: true,
+    });
+    expect(websocket.request).toHaveBeenCalledWith('timelineTransactions', { after: 'page-2' });
+    expect(database.getTransactions().map(tx => tx.id)).toEqual(['deposit', 'buy']);
+  });
+
+  it('should read pending events again until they are final', async () => {
+    const card = (status: string) =>
+      event('card', 'card_successful_transaction', '03', -25, { status });
+    const interest = event('interest', 'INTEREST_PAYOUT', '06', 4.2);
+
+    await expect(
+      new TimelineImporter(
+        createWebSocket({ first: { items: [interest, card('PENDING')] } }),
+        database
+      ).run()
+    ).resolves.toMatchObject({ imported: 1, skipped: 1, pending: 1 });
+
+    await expect(
+      new TimelineImporter(
+        createWebSocket({ first: { items: [interest, card('EXECUTED')] } }),
+        database
+      ).run()
+    ).resolves.toMatchObject({ imported: 1, pending: 0 });
+    expect(database.getTransactions({ types: ['card_payment'] })).toHaveLength(1);
+  });
+});
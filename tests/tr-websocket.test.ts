@@ -0,0 +1,78 @@
+/**
+ * Trade Republic WebSocket Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TradeRepublicWebSocket } from '../src/websocket/tr-websocket';
+import { applyDelta } from '../src/websocket/delta';
+import { AuthManager } from '../src/auth/manager';
+
+vi.mock('../src/auth/manager');
+vi.mock('../src/utils/logger');
+
+describe('applyDelta', () => {
+  it('should copy, skip and insert against the previous payload', () => {
+    const previous = '{"bid":{"price":10.5},"ask":{"price":10.6}}';
+    const delta = '=16\t-2\t+20\t=19\t-2\t+21\t=4';
+
+    expect(applyDelta(previous, delta)).toBe('{"bid":{"price":20.5},"ask":{"price":21.6}}');
+  });
+
+  it('should decode URL encoded insertions', () => {
+    expect(applyDelta('{"name":"A"}', '=9\t-1\t+Apple+Inc.%20%C3%A4\t=2')).toBe(
+      '{"name":"Apple Inc. ä"}'
+    );
+  });
+
+  it('should reject instructions beyond the previous payload', () => {
+    expect(() => applyDelta('{}', '=5')).toThrow('Invalid delta instruction');
+  });
+});
+
+describe('TradeRepublicWebSocket', () => {
+  let ws: TradeRepublicWebSocket;
+
+  beforeEach(() => {
+    ws = new TradeRepublicWebSocket({ url: 'wss://localhost' }, new AuthManager());
+  });
+
+  describe('delta messages', () => {
+    it('should rebuild full payloads from delta updates', async () => {
+      const callback = vi.fn();
+      const id = await ws.subscribe('ticker', { id: 'US0378331005.LSX' }, callback);
+      const handleMessage = (data: string): void => (ws as any).handleMessage(data);
+
+      handleMessage(`${id} A {"bid":{"price":10.5},"ask":{"price":10.6}}`);
+      handleMessage(`${id} D =16\t-2\t+20\t=19\t-2\t+21\t=4`);
+      handleMessage(`${id} D =16\t-2\t+21\t=25`);
+
+      expect(callback).toHaveBeenCalledTimes(3);
+      expect(callback).toHaveBeenNthCalledWith(2, { bid: { price: 20.5 }, ask: { price: 21.6 } });
+      expect(callback).toHaveBeenNthCalledWith(3, { bid: { price: 21.5 }, ask: { price: 21.6 } });
+    });
+
+    it('should emit data events for delta updates', async () => {
+      const listener = vi.fn();
+      ws.on('data', listener);
+      const id = await ws.subscribe('ticker', { id: 'X.LSX' }, () => {});
+
+      (ws as any).handleMessage(`${id} A {"last":1}`);
+      (ws as any).handleMessage(`${id} D =8\t-1\t+2\t=1`);
+
+      expect(listener).toHaveBeenLastCalledWith({
+        subscriptionId: id,
+        type: 'ticker',
+        data: { last: 2 },
+      });
+    });
+
+    it('should drop deltas that arrive before initial data', async () => {
+      const callback = vi.fn();
+      const id = await ws.subscribe('ticker', { id: 'X.LSX' }, callback);
+
+      (ws as any).handleMessage(`${id} D =8`);
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Trading Manager Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TradingManager } from '../src/trading/manager';
+import { InsufficientFundsError, InvalidOrderError } from '../src/types/trading';
+import { ProductionDatabaseManager } from '../src/database/production-database';
+import type { TradeRepublicWebSocket } from '../src/websocket/tr-websocket';
+
+vi.mock('../src/utils/logger');
+
+/**
+ * WebSocket stub answering each topic with a canned payload
+ */
+function createWebSocket(responses: Record<string, unknown>): TradeRepublicWebSocket {
+  return {
+    request: vi.fn(async (type: string) => responses[type]),
+  } as unknown as TradeRepublicWebSocket;
+}
+
+describe('TradingManager', () => {
+  let websocket: TradeRepublicWebSocket;
+  let trading: TradingManager;
+
+  beforeEach(() => {
+    websocket = createWebSocket({
+      priceForOrder: { price: 100, currency: 'EUR' },
+      availableCash: [{ currencyId: 'EUR', amount: 250 }],
+      availableSize: { size: 3 },
+      simpleCreateOrder: { id: 'order_1' },
+    });
+    trading = new TradingManager(websocket, 1000);
+  });
+
+  describe('order validation', () => {
+    it('should require either quantity or amount', async () => {
+      await expect(
+        trading.placeBuyOrder({ isin: 'US0378331005', orderType: 'market', venue: 'LANG_SCHWARZ' })
+      ).rejects.toThrow(InvalidOrderError);
+
+      await expect(
+        trading.placeBuyOrder({
+          isin: 'US0378331005',
+          quantity: 1,
+          amount: 100,
+          orderType: 'market',
+          venue: 'LANG_SCHWARZ',
+        })
+      ).rejects.toThrow('Specify either quantity or amount');
+    });
+
+    it('should require a limit price for limit orders', async () => {
+      await expect(
+        trading.placeSellOrder({
+          isin: 'US0378331005',
+          quantity: 1,
+          orderType: 'limit',
+          venue: 'LANG_SCHWARZ',
+        })
+      ).rejects.toThrow('Limit orders require a limitPrice');
+    });
+
+    it('should reject expiry dates on market orders and in the past', async () => {
+      await expect(
+        trading.placeBuyOrder({
+          isin: 'US0378331005',
+          quantity: 1,
+          orderType: 'market',
+          venue: 'LANG_SCHWARZ',
+          expiryDate: '2099-01-01',
+        })
+      ).rejects.toThrow('expiryDate is only valid for limit orders');
+
+      await expect(
+        trading.placeBuyOrder({
+          isin: 'US0378331005',
+          quantity: 1,
+          orderType: 'limit',
+          limitPrice: 90,
+          venue: 'LANG_SCHWARZ',
+          expiryDate: '2000-01-01',
+        })
+      ).rejects.toThrow('expiryDate must not be in the past');
+    });
+
+    it('should reject venues Trade Republic does not trade on', async () => {
+      await expect(
+        trading.placeBuyOrder({
+          isin: 'US0378331005',
+          quantity: 1,
+          orderType: 'market',
+          venue: 'NYSE',
+        })
+      ).rejects.toThrow('not supported');
+    });
+  });
+
+  describe('order placement', () => {
+    it('should convert an amount into a whole share quantity', async () => {
+      const response = await trading.placeBuyOrder({
+        isin: 'US0378331005',
+        amount: 210,
+        orderType: 'market',
+        venue: 'LANG_SCHWARZ',
+      });
+
+      expect(response.orderId).toBe('order_1');
+      expect(response.quantity).toBe(2);
+      expect(response.estimatedTotal).toEqual({ amount: 201, currency: 'EUR' });
+      expect(websocket.request).toHaveBeenCalledWith(
+        'simpleCreateOrder',
+        expect.objectContaining({
+          parameters: expect.objectContaining({ mode: 'market', size: 2, type: 'buy' }),
+        }),
+        { timeoutMs: 1000, priority: 'high', resend: false }
+      );
+    });
+
+    it('should raise InsufficientFundsError when cash does not cover the order', async () => {
+      await expect(
+        trading.placeBuyOrder({
+          isin: 'US0378331005',
+          quantity: 3,
+          orderType: 'market',
+          venue: 'LANG_SCHWARZ',
+        })
+      ).rejects.toThrow(InsufficientFundsError);
+    });
+
+    it('should not sell more than the available size', async () => {
+      await expect(
+        trading.placeSellOrder({
+          isin: 'US0378331005',
+          quantity: 5,
+          orderType: 'market',
+          venue: 'LANG_SCHWARZ',
+        })
+      ).rejects.toThrow('only 3 available');
+    });
+  });
+
+  describe('historical prices', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const today = Math.floor(Date.now() / DAY) * DAY;
+    const aggregate = (time: number, close: number) => ({
+      time,
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume: 10,
+    });
+
+    let database: ProductionDatabaseManager;
+
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      database = new ProductionDatabaseManager(':memory:');
+      websocket = createWebSocket({
+        aggregateHistoryLight: {
+          resolution: DAY,
+          aggregates: [
+            aggregate(today - 2 * DAY, 10),
+            aggregate(today - DAY, 11),
+            aggregate(today, 12),
+          ],
+        },
+      });
+      trading = new TradingManager(websocket, 1000, database);
+    });
+
+    afterEach(() => {
+      database.close();
+    });
+
+    it('should request the range at the period resolution', async () => {
+      const response = await trading.getHistoricalPrices('US0378331005', 'max');
+
+      expect(websocket.request).toHaveBeenCalledWith(
+        'aggregateHistoryLight',
+        { id: 'US0378331005.LSX', range: 'max', resolution: 7 * DAY },
+        { timeoutMs: 1000 }
+      );
+      // Today's aggregate is still open
+      expect(response).toMatchObject({ period: 'max', resolution: '1w', count: 2, cached: false });
+    });
+
+    it('should answer repeat calls for closed candles from the cache', async () => {
+      const fetched = await trading.getHistoricalPrices('US0378331005', '1m');
+      const cached = await trading.getHistoricalPrices('US0378331005', '1m');
+
+      expect(websocket.request).toHaveBeenCalledTimes(1);
+      expect(cached).toMatchObject({ resolution: '1d', cached: true, count: 2 });
+      expect(cached.data.map(point => point.close)).toEqual([10, 11]);
+      expect(cached.data).toEqual(fetched.data);
+
+      // Another resolution is a different request
+      await trading.getHistoricalPrices('US0378331005', '1m', '1h');
+      expect(websocket.request).toHaveBeenCalledTimes(2);
+    });
+  });
+});